@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import * as THREE from 'three';
+import {
+  ATMOSPHERE_FRAGMENT_SHADER,
+  ATMOSPHERE_VERTEX_SHADER,
+  DEFAULT_ATMOSPHERE_SETTINGS,
+  createAtmosphereUniforms,
+  setAtmosphere,
+} from '../utils/atmosphere';
+import type { AtmosphereSettings } from '../utils/atmosphere';
+
+interface AtmosphereProps {
+  /** Sea-level radius of the planet it surrounds. */
+  radius: number;
+  /** Unit direction toward the sun. */
+  sunDirection: THREE.Vector3;
+  settings?: Partial<AtmosphereSettings>;
+}
+
+/**
+ * ============================================================================
+ * ATMOSPHERE SHELL
+ * ============================================================================
+ * A scattering shell around the planet it is placed in. Only its back faces
+ * are drawn and the scattering is evaluated along the whole view ray, so it
+ * looks the same from orbit and from inside the atmosphere.
+ */
+export default function Atmosphere({
+  radius,
+  sunDirection,
+  settings,
+}: AtmosphereProps) {
+  // Mutated in place by the effects below, the material keeps the object
+  const [uniforms] = useState(createAtmosphereUniforms);
+
+  const settingsKey = JSON.stringify({
+    ...DEFAULT_ATMOSPHERE_SETTINGS,
+    ...settings,
+  });
+  useEffect(() => {
+    setAtmosphere(uniforms, radius, JSON.parse(settingsKey));
+  }, [uniforms, radius, settingsKey]);
+
+  const { x, y, z } = sunDirection;
+  useEffect(() => {
+    uniforms.sunDirection.value.set(x, y, z).normalize();
+  }, [uniforms, x, y, z]);
+
+  const height = settings?.height ?? DEFAULT_ATMOSPHERE_SETTINGS.height;
+
+  return (
+    <mesh renderOrder={1}>
+      <sphereGeometry args={[radius * (1 + height), 96, 48]} />
+      <shaderMaterial
+        vertexShader={ATMOSPHERE_VERTEX_SHADER}
+        fragmentShader={ATMOSPHERE_FRAGMENT_SHADER}
+        uniforms={uniforms}
+        side={THREE.BackSide}
+        blending={THREE.AdditiveBlending}
+        transparent
+        depthWrite={false}
+      />
+    </mesh>
+  );
+}
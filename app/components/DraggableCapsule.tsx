@@ -1,18 +1,59 @@
 import { useRef, useState, useMemo, useEffect } from 'react';
 import { useThree, type ThreeEvent } from '@react-three/fiber';
 import * as THREE from 'three';
+import type { PlanetSurface } from '../utils/planetSurface';
+import type { TerrainQuery } from '../utils/terrainQuery';
+
+/** Stand along the terrain normal, or straight up from the planet centre. */
+export type CapsuleAlignment = 'normal' | 'radial';
 
 interface DraggableCapsuleProps {
+  /** Planet centre in the capsule's parent frame, like every position here. */
   planetPosition: [number, number, number];
   planetRadius: number;
+  /** Ground to rest on; a bare sphere of `planetRadius` until it arrives. */
+  surface?: TerrainQuery | null;
+  align?: CapsuleAlignment;
+  /** Position to start above; the top of the planet by default. */
+  startPosition?: THREE.Vector3;
   onDragStart?: () => void;
   onDragEnd?: () => void;
   onPositionChange?: (position: THREE.Vector3) => void;
 }
 
+// Capsule height = length + 2 * radius = 1 + 2 * 0.2 = 1.4
+const HALF_HEIGHT = 0.7;
+const UP = new THREE.Vector3(0, 1, 0);
+
+/**
+ * Stands the capsule on the ground along the unit direction `dir`, with its
+ * base touching the surface. Returns its new position in the parent frame.
+ */
+function restOnSurface(
+  mesh: THREE.Mesh,
+  dir: THREE.Vector3,
+  planetCenter: THREE.Vector3,
+  planetRadius: number,
+  surface: PlanetSurface | null,
+  align: CapsuleAlignment,
+) {
+  const groundRadius = surface ? surface.radiusAt(dir) : planetRadius;
+  const up =
+    surface && align === 'normal' ? surface.normalAt(dir) : dir.clone();
+  mesh.position
+    .copy(planetCenter)
+    .addScaledVector(dir, groundRadius)
+    .addScaledVector(up, HALF_HEIGHT);
+  mesh.quaternion.setFromUnitVectors(UP, up);
+  return mesh.position.clone();
+}
+
 export default function DraggableCapsule({
   planetPosition,
   planetRadius,
+  surface = null,
+  align = 'normal',
+  startPosition,
   onDragStart,
   onDragEnd,
   onPositionChange,
@@ -21,31 +62,39 @@ export default function DraggableCapsule({
   const { camera, raycaster } = useThree();
   const [isDragging, setIsDragging] = useState(false);
 
-  // The distance from the planet center to the capsule center
-  // Capsule height = length + 2 * radius = 1 + 2 * 0.2 = 1.4
-  // Half height = 0.7
-  const orbitRadius = planetRadius + 0.7;
   const planetCenter = useMemo(
     () => new THREE.Vector3(...planetPosition),
     [planetPosition],
   );
 
-  // Maintain the direction from center to stay consistent when radius changes
-  const direction = useRef(new THREE.Vector3(0, 1, 0));
+  // Maintain the direction from center to stay consistent when the terrain
+  // or radius changes
+  const direction = useRef(
+    startPosition
+      ? startPosition.clone().sub(planetCenter).normalize()
+      : new THREE.Vector3(0, 1, 0),
+  );
 
   useEffect(() => {
     if (meshRef.current && !isDragging) {
-      const newPos = planetCenter
-        .clone()
-        .add(direction.current.clone().multiplyScalar(orbitRadius));
-      meshRef.current.position.copy(newPos);
-      meshRef.current.quaternion.setFromUnitVectors(
-        new THREE.Vector3(0, 1, 0),
+      const newPos = restOnSurface(
+        meshRef.current,
         direction.current,
+        planetCenter,
+        planetRadius,
+        surface,
+        align,
       );
       onPositionChange?.(newPos);
     }
-  }, [planetCenter, orbitRadius, isDragging, onPositionChange]);
+  }, [
+    planetCenter,
+    planetRadius,
+    surface,
+    align,
+    isDragging,
+    onPositionChange,
+  ]);
 
   // Handle dragging logic
   const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
@@ -65,28 +114,34 @@ export default function DraggableCapsule({
 
   const handlePointerMove = (e: ThreeEvent<PointerEvent>) => {
     if (isDragging && meshRef.current) {
-      // Raycast to find the point on the "orbit sphere"
+      // Raycast against the ground, in the planet's local space; the parent
+      // frame may itself move, e.g. with a moon on its orbit
       raycaster.setFromCamera(e.pointer, camera);
+      const ray = raycaster.ray.clone();
+      const parent = meshRef.current.parent;
+      if (parent) ray.applyMatrix4(parent.matrixWorld.clone().invert());
+      ray.origin.sub(planetCenter);
 
-      const orbitSphere = new THREE.Sphere(planetCenter, orbitRadius);
-      const intersection = new THREE.Vector3();
-
-      if (raycaster.ray.intersectSphere(orbitSphere, intersection)) {
-        meshRef.current.position.copy(intersection);
+      const intersection = surface
+        ? (surface.intersect(ray)?.point ?? null)
+        : ray.intersectSphere(
+            new THREE.Sphere(new THREE.Vector3(), planetRadius),
+            new THREE.Vector3(),
+          );
 
+      if (intersection) {
         // Update stored direction
-        direction.current
-          .copy(intersection)
-          .sub(planetCenter)
-          .normalize();
-
-        // Make the capsule point away from the center (aligned with surface normal)
-        meshRef.current.quaternion.setFromUnitVectors(
-          new THREE.Vector3(0, 1, 0),
+        direction.current.copy(intersection).normalize();
+
+        const newPos = restOnSurface(
+          meshRef.current,
           direction.current,
+          planetCenter,
+          planetRadius,
+          surface,
+          align,
         );
-
-        onPositionChange?.(intersection.clone());
+        onPositionChange?.(newPos);
       }
     }
   };
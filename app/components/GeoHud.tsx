@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import type { FormEvent } from 'react';
+import * as THREE from 'three';
+import { directionToLatLon, formatLatLon, parseLatLon } from '../utils/geodesy';
+import type { LatLon } from '../utils/geodesy';
+import type { PlanetSurface } from '../utils/planetSurface';
+
+interface GeoHudProps {
+  /** World position to report, e.g. the capsule's. */
+  position: THREE.Vector3;
+  planetPosition: [number, number, number];
+  /** Terrain to read the elevation from, once the planet has one. */
+  surface: PlanetSurface | null;
+  /** Called with a typed location to move to. */
+  onGoTo?: (location: LatLon) => void;
+}
+
+/**
+ * ============================================================================
+ * GEOGRAPHIC HUD
+ * ============================================================================
+ * A DOM overlay with the latitude, longitude and ground elevation under a
+ * position, and a "go to" field that accepts typed coordinates.
+ */
+export default function GeoHud({
+  position,
+  planetPosition,
+  surface,
+  onGoTo,
+}: GeoHudProps) {
+  const [query, setQuery] = useState('');
+  const [invalid, setInvalid] = useState(false);
+
+  const dir = position
+    .clone()
+    .sub(new THREE.Vector3(...planetPosition))
+    .normalize();
+  const elevation = surface?.elevationAt(dir);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const location = parseLatLon(query);
+    setInvalid(!location);
+    if (location) onGoTo?.(location);
+  };
+
+  return (
+    <div className="absolute top-4 left-4 rounded bg-black/60 px-3 py-2 font-mono text-sm text-white">
+      <div>{formatLatLon(directionToLatLon(dir))}</div>
+      {elevation !== undefined && (
+        <div>Elevation {Math.round(elevation).toLocaleString()} m</div>
+      )}
+      <form className="mt-2 flex gap-2" onSubmit={handleSubmit}>
+        <input
+          className={`w-48 rounded bg-white/10 px-2 py-1 outline-none ${
+            invalid ? 'ring-1 ring-red-500' : ''
+          }`}
+          placeholder="27.99 N, 86.93 E"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          aria-label="Go to latitude, longitude"
+        />
+        <button className="rounded bg-white/20 px-2 py-1" type="submit">
+          Go
+        </button>
+      </form>
+    </div>
+  );
+}
@@ -1,96 +1,206 @@
-import { useMemo, useState, useEffect } from 'react';
+import { useState, useEffect, useImperativeHandle, useRef } from 'react';
+import type { Ref } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
+import { loadHeightMap } from '../utils/heightmap';
+import type { HeightMapData, HeightSampling } from '../utils/heightmap';
+import { usePlanetMesh } from '../hooks/usePlanetMesh';
+import { useTerrainNormalMap } from '../hooks/useTerrainNormalMap';
+import { useElevationGrid } from '../hooks/useElevationGrid';
+import { useColorTexture } from '../hooks/useColorTexture';
+import Atmosphere from './Atmosphere';
+import type { AtmosphereSettings } from '../utils/atmosphere';
+import { DEFAULT_ELEVATION_SETTINGS } from '../utils/elevation';
 import {
-  loadHeightMap,
-  sampleHeight,
-  getCylindricalUV,
-} from '../utils/heightmap';
-import type { HeightMapData } from '../utils/heightmap';
-
-/**
- * ============================================================================
- * GEOMETRIC CONSTANTS
- * ============================================================================
- * We start with a Golden Ratio based Icosahedron as our base primitive.
- * An icosahedron is a regular polyhedron with 20 identical equilateral
- * triangular faces, 30 edges and 12 vertices.
- */
-const t = (1 + Math.sqrt(5)) / 2;
-
-const ICOSAHEDRON_VERTICES = [
-  [-1, t, 0],
-  [1, t, 0],
-  [-1, -t, 0],
-  [1, -t, 0],
-  [0, -1, t],
-  [0, 1, t],
-  [0, -1, -t],
-  [0, 1, -t],
-  [t, 0, -1],
-  [t, 0, 1],
-  [-t, 0, -1],
-  [-t, 0, 1],
-].map((v) => new THREE.Vector3(...v).normalize());
-
-const ICOSAHEDRON_FACES = [
-  [0, 11, 5],
-  [0, 5, 1],
-  [0, 1, 7],
-  [0, 7, 10],
-  [0, 10, 11],
-  [1, 5, 9],
-  [5, 11, 4],
-  [11, 10, 2],
-  [10, 7, 6],
-  [7, 1, 8],
-  [3, 9, 4],
-  [3, 4, 2],
-  [3, 2, 6],
-  [3, 6, 8],
-  [3, 8, 9],
-  [4, 9, 5],
-  [2, 4, 11],
-  [6, 2, 10],
-  [8, 6, 7],
-  [9, 8, 1],
-];
-
-/**
- * ============================================================================
- * SPHERICAL LINEAR INTERPOLATION (SLERP)
- * ============================================================================
- * Standard lerp (linear interpolation) doesn't work well on spheres because
- * it cuts through the volume. Slerp interpolates along the arc of the sphere,
- * maintaining a constant radius.
- */
-function slerp(v1: THREE.Vector3, v2: THREE.Vector3, t: number): THREE.Vector3 {
-  const dot = Math.max(-1, Math.min(1, v1.dot(v2)));
-
-  // If vectors are nearly identical, use standard lerp for stability
-  if (dot > 0.9999) {
-    return new THREE.Vector3().copy(v1).lerp(v2, t).normalize();
-  }
-
-  const theta = Math.acos(dot);
-  const sinTheta = Math.sin(theta);
-  const a = Math.sin((1 - t) * theta) / sinTheta;
-  const b = Math.sin(t * theta) / sinTheta;
+  getDisplacementEnvelope,
+  getGridElevation,
+} from '../utils/elevationGrid';
+import {
+  DEFAULT_COMPOSITE_TERRAIN,
+  DEFAULT_PROCEDURAL_TERRAIN,
+} from '../utils/heightSource';
+import type {
+  CompositeTerrainSettings,
+  HeightSourceConfig,
+  ProceduralTerrainSettings,
+  TerrainType,
+} from '../utils/heightSource';
+import {
+  ICOSAHEDRON_EDGE_ANGLE,
+  getBaseSubdivision,
+  getLodResolutions,
+} from '../utils/planetMesher';
+import type {
+  DisplacementMode,
+  LodMode,
+  PlanetCamera,
+  PlanetMeshData,
+  PlanetMeshParams,
+  PlanetMeshSpec,
+  PlanetTopology,
+} from '../utils/planetMesher';
+import { DEFAULT_QUADTREE_SETTINGS } from '../utils/cubeSphereMesher';
+import type { QuadtreeSettings } from '../utils/cubeSphereMesher';
+import { getPlanetCamera, hasViewChanged } from '../utils/planetCamera';
+import { createPlanetSurface } from '../utils/planetSurface';
+import type { PlanetSurface, SurfaceParams } from '../utils/planetSurface';
+import {
+  createFieldTerrainQuery,
+  createMeshTerrainQuery,
+} from '../utils/terrainQuery';
+import type { TerrainQuery, TerrainQueryMode } from '../utils/terrainQuery';
+import { DEFAULT_NORMAL_EPSILON } from '../utils/terrainNormals';
+import {
+  buildUniformPlanetMesh,
+  displaceExportMesh,
+  removeSkirts,
+} from '../utils/meshExport';
+import type { ExportMesh } from '../utils/meshExport';
+import {
+  DEFAULT_BIOME_RAMP,
+  MAX_LOD_STEPS,
+  applyGeomorph,
+  createBiomeUniforms,
+  createDisplacementUniforms,
+  createGeomorphUniforms,
+  createNightLightsUniforms,
+  injectBiomeShading,
+  injectDisplacement,
+  injectGeomorph,
+  injectNightLights,
+  injectTerrainNormalMap,
+  setBiomeRamp,
+  setDisplacement,
+} from '../utils/terrainShader';
+import type {
+  BiomeRamp,
+  GeomorphUniforms,
+  PlanetShading,
+} from '../utils/terrainShader';
+
+// Toward the home page's default light
+const DEFAULT_SUN_DIRECTION = new THREE.Vector3(100, 100, 50).normalize();
+
+/** Size of the mesh currently on screen. */
+export interface PlanetMeshStats {
+  vertices: number;
+  triangles: number;
+}
 
-  return new THREE.Vector3().addScaledVector(v1, a).addScaledVector(v2, b);
+/** Access to the planet's geometry, e.g. to export it. */
+export interface PlanetHandle {
+  /**
+   * The mesh on screen without cube-sphere skirts, or null before the first
+   * one arrives.
+   */
+  getMesh: () => ExportMesh | null;
+  /** The icosphere of the current terrain with every patch at resolution k. */
+  buildUniformMesh: (k: number) => PlanetMeshData;
+  /**
+   * Ground queries in the planet's local space, against the full-resolution
+   * height field or the mesh on screen (null before it arrives).
+   */
+  getTerrainQuery: (mode: TerrainQueryMode) => TerrainQuery | null;
 }
 
-interface PlanetProps {
+export interface PlanetProps {
+  ref?: Ref<PlanetHandle>;
+  /**
+   * Build an LOD icosphere, or a cube-sphere from six face quadtrees. The
+   * detail, LOD mode and geomorph props only apply to the icosphere.
+   */
+  topology?: PlanetTopology;
+  /** Overrides for the cube-sphere quadtrees. */
+  quadtree?: Partial<QuadtreeSettings>;
   radius?: number;
   minDetail?: number;
   maxDetail?: number;
   steps?: number;
   stepGamma?: number;
+  /**
+   * Colour the surface with `color`, by elevation and slope (`biomeRamp`),
+   * or with the `albedoUrl` texture, falling back to the ramp without it.
+   */
+  shading?: PlanetShading;
   color?: string;
+  /** Equirectangular colour imagery, e.g. Blue Marble. */
+  albedoUrl?: string;
+  biomeRamp?: BiomeRamp;
   wireframe?: boolean;
+  /** Centre in the parent's frame; LOD targets are in that frame too. */
   position?: [number, number, number];
   targetPosition?: THREE.Vector3;
+  /**
+   * Drive LOD by distance to `targetPosition`, by screen-space error from
+   * the active camera, or by whichever asks for more detail.
+   */
+  lodMode?: LodMode;
+  /** Largest projected triangle edge (pixels) in screen-space LOD. */
+  maxScreenError?: number;
+  /** Skip patches outside the view or behind the horizon. */
+  culling?: boolean;
   heightMapUrl?: string;
-  displacementScale?: number;
+  /**
+   * Displace from the heightmap image, from seeded procedural noise, or from
+   * the heightmap with procedural detail layered on top (`composite`).
+   */
+  terrain?: TerrainType;
+  sampling?: HeightSampling;
+  /** Overrides for the procedural terrain generator. */
+  procedural?: Partial<ProceduralTerrainSettings>;
+  /** Overrides for the detail layered over the heightmap in `composite`. */
+  composite?: Partial<CompositeTerrainSettings>;
+  /** Elevation (m) of the heightmap's black/white, if it has no units. */
+  minElevation?: number;
+  maxElevation?: number;
+  /** Elevation (m) that sits exactly at `radius`; lower ground dips below. */
+  seaLevel?: number;
+  /** Vertical exaggeration of the real-world relief. */
+  exaggeration?: number;
+  /** Real radius (m) the scene radius stands for; Earth by default. */
+  planetRadiusMeters?: number;
+  /** Surface distance (scene units) over which terrain normals are taken. */
+  normalEpsilon?: number;
+  /** Shade from a baked terrain normal map instead of vertex normals. */
+  normalMap?: boolean;
+  /** Width of the baked normal map; it is half as tall. */
+  normalMapSize?: number;
+  /**
+   * Bake the relief into the vertices on the CPU, or mesh the bare sphere
+   * and displace it in the vertex shader from a baked elevation grid, so
+   * sea level and exaggeration change without a rebuild. Icosphere only.
+   */
+  displacement?: DisplacementMode;
+  /** Width of the baked elevation grid; it is half as tall. */
+  displacementMapSize?: number;
+  /** Morph vertices between LOD levels instead of letting patches pop. */
+  geomorph?: boolean;
+  /** Fraction of a LOD step over which vertices morph to full detail. */
+  morphRange?: number;
+  /** Render a translucent ocean shell at sea level. */
+  ocean?: boolean;
+  oceanColor?: string;
+  /** Unit world-space direction toward the sun; match the scene's light. */
+  sunDirection?: THREE.Vector3;
+  /** Render a scattering atmosphere around the planet. */
+  atmosphere?: boolean;
+  atmosphereSettings?: Partial<AtmosphereSettings>;
+  /** Equirectangular city lights, shown on the night side. */
+  nightLightsUrl?: string;
+  nightLightsIntensity?: number;
+  /** Called when the heightmap can't be loaded; the terrain stays flat. */
+  onHeightMapError?: (error: Error) => void;
+  /** Called when a mesh can't be built; the last mesh stays on screen. */
+  onMeshError?: (error: Error) => void;
+  /** Called with the size of every new mesh, to compare triangle budgets. */
+  onMeshStats?: (stats: PlanetMeshStats) => void;
+  /**
+   * Called with a ground query whenever the terrain changes, and with
+   * `surfaceQuery: 'mesh'` whenever the mesh does.
+   */
+  onSurfaceChange?: (surface: TerrainQuery) => void;
+  /** What the query of `onSurfaceChange` follows: the field or the mesh. */
+  surfaceQuery?: TerrainQueryMode;
 }
 
 /**
@@ -99,20 +209,57 @@ interface PlanetProps {
  * ============================================================================
  * A dynamic, LOD-based planet renderer. It generates a spherical mesh
  * starting from an icosahedron and subdivides faces based on proximity
- * to a target position (e.g., the camera).
+ * to a target position (e.g., the camera). The cube-sphere topology swaps in
+ * a quadtree mesher on the same terrain.
  */
 export default function Planet({
+  ref,
+  topology = 'icosphere',
+  quadtree,
   radius = 1,
   minDetail = 0,
   maxDetail = 20,
   steps = 2,
   stepGamma = 1,
+  shading = 'color',
   color = 'royalblue',
+  albedoUrl,
+  biomeRamp = DEFAULT_BIOME_RAMP,
   wireframe = false,
   position = [0, 0, 0],
   targetPosition,
+  lodMode = 'distance',
+  maxScreenError = 8,
+  culling = false,
   heightMapUrl,
-  displacementScale = 1,
+  terrain = 'heightmap',
+  sampling = 'bilinear',
+  procedural,
+  composite,
+  minElevation = DEFAULT_ELEVATION_SETTINGS.minElevation,
+  maxElevation = DEFAULT_ELEVATION_SETTINGS.maxElevation,
+  seaLevel = DEFAULT_ELEVATION_SETTINGS.seaLevel,
+  exaggeration = DEFAULT_ELEVATION_SETTINGS.exaggeration,
+  planetRadiusMeters = DEFAULT_ELEVATION_SETTINGS.planetRadiusMeters,
+  normalEpsilon = DEFAULT_NORMAL_EPSILON,
+  normalMap = false,
+  normalMapSize = 1024,
+  displacement = 'cpu',
+  displacementMapSize = 2048,
+  geomorph = true,
+  morphRange = 0.5,
+  ocean = false,
+  oceanColor = '#1e4d8c',
+  sunDirection = DEFAULT_SUN_DIRECTION,
+  atmosphere = false,
+  atmosphereSettings,
+  nightLightsUrl,
+  nightLightsIntensity = 1,
+  onHeightMapError,
+  onMeshError,
+  onMeshStats,
+  onSurfaceChange,
+  surfaceQuery = 'field',
 }: PlanetProps) {
   // Heightmap data state for vertex displacement
   const [heightMapData, setHeightMapData] = useState<HeightMapData | null>(
@@ -122,239 +269,413 @@ export default function Planet({
   // Load heightmap when URL changes
   useEffect(() => {
     if (heightMapUrl) {
-      loadHeightMap(heightMapUrl).then(setHeightMapData);
+      loadHeightMap(heightMapUrl).then(setHeightMapData, onHeightMapError);
     }
-  }, [heightMapUrl]);
+  }, [heightMapUrl, onHeightMapError]);
+
+  const terrainConfig = getTerrainConfig(
+    terrain,
+    sampling,
+    procedural,
+    composite,
+  );
+  const elevation = {
+    minElevation,
+    maxElevation,
+    seaLevel,
+    exaggeration,
+    planetRadiusMeters,
+  };
 
   /**
    * ============================================================================
-   * GEOMETRY GENERATION
+   * CAMERA TRACKING
    * ============================================================================
-   * This useMemo block contains the heavy lifting for generating the
-   * planet's geometry. It recalculated whenever LOD parameters or
-   * position change.
+   * Screen-space LOD and culling need the active camera. It is snapshotted
+   * into state only when it has moved noticeably, which is what triggers a
+   * rebuild; the geomorph follows it every frame. Both see it from the
+   * parent's frame, so a planet inside a moving group, like a moon on its
+   * orbit, is meshed for where the camera is relative to it.
    */
-  const geometry = useMemo(() => {
-    const vertices: number[] = [];
-    const indices: number[] = [];
-    const vertexMap = new Map<string, number>();
-
-    const planetCenter = new THREE.Vector3(...position);
-
-    /**
-     * LOD Calculation Function (getK)
-     * Determines the subdivision level (k) for a given point on the sphere.
-     * Higher k = more detail (smaller triangles).
-     */
-    const getK = (v: THREE.Vector3) => {
-      // worldV is the point on the sphere in world space
-      const worldV = v.clone().multiplyScalar(radius).add(planetCenter);
-      // Default to top of sphere if no target provided
-      const target = targetPosition || new THREE.Vector3(0, radius, 0);
-
-      const dist = worldV.distanceTo(target);
-      const maxDist = radius * 2;
-      const t_dist = Math.max(0, Math.min(1, dist / maxDist));
-
-      // detailFactor increases as distance decreases
-      const detailFactor = Math.pow(1 - t_dist, stepGamma);
-      const levelIndex = Math.min(steps - 1, Math.floor(detailFactor * steps));
-
-      let res: number;
-      if (steps <= 1) {
-        res = maxDetail;
-      } else {
-        const stepSize = (maxDetail - minDetail) / (steps - 1);
-        res = minDetail + levelIndex * stepSize;
-      }
-      return Math.max(1, Math.round(res));
-    };
-
-    /**
-     * Vertex Index Management
-     * Ensures we don't create duplicate vertices and applies height displacement.
-     */
-    function getVertexIndex(v: THREE.Vector3): number {
-      const precision = 6;
-      const key = `${v.x.toFixed(precision)},${v.y.toFixed(precision)},${v.z.toFixed(precision)}`;
-
-      // Return existing index if vertex was already processed
-      if (vertexMap.has(key)) return vertexMap.get(key)!;
-
-      const index = vertices.length / 3;
+  const camera = useThree((state) => state.camera);
+  const viewportHeight = useThree((state) => state.size.height);
+  const isIcosphere = topology === 'icosphere';
+  const needsCamera = isIcosphere && (lodMode !== 'distance' || culling);
+  const morphing = geomorph && isIcosphere;
+  const [view, setView] = useState<PlanetCamera | null>(null);
+  const morphRef = useRef(createGeomorphUniforms());
+  const groupRef = useRef<THREE.Group>(null);
+  const centerRef = useRef(new THREE.Vector3());
+  const worldToLocalRef = useRef(new THREE.Matrix4());
+  const [cx, cy, cz] = position;
+
+  useFrame(() => {
+    const center = centerRef.current.set(cx, cy, cz);
+    const parent = groupRef.current?.parent;
+    // Parents may have moved since the last render
+    parent?.updateWorldMatrix(true, false);
+    const worldToLocal = parent
+      ? worldToLocalRef.current.copy(parent.matrixWorld).invert()
+      : undefined;
+
+    const next = getPlanetCamera(camera, viewportHeight, worldToLocal);
+    const morphUniforms = morphRef.current;
+    morphUniforms.morphCamera.value.fromArray(next.position).sub(center);
+
+    const pixelsPerUnit =
+      next.viewportHeight /
+      (2 * Math.tan(THREE.MathUtils.degToRad(next.fov) / 2));
+    morphUniforms.morphScreenScale.value =
+      (radius * ICOSAHEDRON_EDGE_ANGLE * pixelsPerUnit) /
+      (getBaseSubdivision(minDetail) * maxScreenError);
+    morphUniforms.morphNear.value = next.near;
+
+    if (needsCamera && (!view || hasViewChanged(view, next, center))) {
+      setView(next);
+    }
+  });
 
-      // Apply displacement from heightmap
-      let d = 0;
-      if (heightMapData) {
-        const { u, v: uvV } = getCylindricalUV(v);
-        d = sampleHeight(u, uvV, heightMapData) * displacementScale;
+  /**
+   * ============================================================================
+   * GEOMETRY GENERATION
+   * ============================================================================
+   * The heavy lifting happens in the planet mesher worker. It is re-requested
+   * whenever LOD parameters or the target position change, and the last
+   * finished mesh stays on screen until the new one arrives.
+   */
+  const shared = {
+    radius,
+    center: position,
+    target: targetPosition ? targetPosition.toArray() : null,
+    elevation,
+    terrain: terrainConfig,
+    normalEpsilon,
+  };
+  const gpu = displacement === 'gpu' && isIcosphere;
+  const icosphere: PlanetMeshParams = {
+    ...shared,
+    minDetail,
+    maxDetail,
+    steps,
+    stepGamma,
+    lodMode,
+    camera: needsCamera ? view : null,
+    maxScreenError,
+    culling,
+  };
+  const spec: PlanetMeshSpec = isIcosphere
+    ? {
+        topology,
+        params: gpu
+          ? {
+              ...icosphere,
+              displacement,
+              elevation: getDisplacementEnvelope(elevation),
+            }
+          : icosphere,
       }
+    : {
+        topology,
+        params: {
+          ...shared,
+          quadtree: { ...DEFAULT_QUADTREE_SETTINGS, ...quadtree },
+        },
+      };
+  const { geometry, error: meshError } = usePlanetMesh(spec, heightMapData);
 
-      // Add displaced vertex position to array
-      vertices.push(v.x * (radius + d), v.y * (radius + d), v.z * (radius + d));
-      vertexMap.set(key, index);
-      return index;
-    }
+  /**
+   * ============================================================================
+   * GPU DISPLACEMENT
+   * ============================================================================
+   * In GPU mode the worker meshes the bare sphere, culled against an upper
+   * bound of the relief, and the vertex shader lifts it from the elevation
+   * grid. Radius, sea level and exaggeration are uniforms; only a new
+   * terrain rebakes the grid. Surface queries read the same grid, so the
+   * capsule stands on the ground as drawn.
+   */
+  const elevationGrid = useElevationGrid(
+    gpu
+      ? {
+          terrain: terrainConfig,
+          elevation: getGridElevation(terrainConfig, elevation),
+          width: displacementMapSize,
+          height: displacementMapSize / 2,
+        }
+      : null,
+    heightMapData,
+  );
+  const grid = gpu ? (elevationGrid?.grid ?? null) : null;
+  const displacementRef = useRef(createDisplacementUniforms());
+  const elevationKey = JSON.stringify(elevation);
+  useEffect(() => {
+    const displacementUniforms = displacementRef.current;
+    displacementUniforms.displacementGrid.value =
+      elevationGrid?.texture ?? null;
+    displacementUniforms.displacementGridSize.value.set(
+      elevationGrid?.grid.width ?? 1,
+      elevationGrid?.grid.height ?? 1,
+    );
+    setDisplacement(
+      displacementUniforms,
+      radius,
+      JSON.parse(elevationKey),
+      normalEpsilon,
+    );
+  }, [elevationGrid, radius, elevationKey, normalEpsilon]);
 
-    // Base subdivision level for all faces
-    const baseSub = Math.max(1, Math.min(minDetail || 1, 5));
-
-    /**
-     * MAIN SUBDIVISION LOOP
-     * 1. Iterate through base icosahedron faces.
-     * 2. Subdivide each face into 'baseSub' chunks.
-     * 3. For each chunk, calculate LOD (k) and generate a grid of vertices.
-     * 4. Stitch vertices into triangles.
-     */
-    for (const faceIndices of ICOSAHEDRON_FACES) {
-      const A = ICOSAHEDRON_VERTICES[faceIndices[0]];
-      const B = ICOSAHEDRON_VERTICES[faceIndices[1]];
-      const C = ICOSAHEDRON_VERTICES[faceIndices[2]];
-
-      for (let i = 0; i < baseSub; i++) {
-        for (let j = 0; j <= i; j++) {
-          /**
-           * processSubFace: Handles the actual grid generation for a
-           * triangular patch.
-           */
-          const processSubFace = (
-            v1: THREE.Vector3,
-            v2: THREE.Vector3,
-            v3: THREE.Vector3,
-          ) => {
-            const center = new THREE.Vector3()
-              .add(v1)
-              .add(v2)
-              .add(v3)
-              .divideScalar(3);
-            const m12 = slerp(v1, v2, 0.5);
-            const m13 = slerp(v1, v3, 0.5);
-            const m23 = slerp(v2, v3, 0.5);
-
-            // Determine max k among edges and center for consistent borders
-            const k_f = getK(center);
-            const k_e1 = getK(m12);
-            const k_e2 = getK(m13);
-            const k_e3 = getK(m23);
-            const k = Math.max(k_f, k_e1, k_e2, k_e3);
-
-            // Generate vertex grid for the patch
-            const faceGrid: number[][] = [];
-            for (let r = 0; r <= k; r++) {
-              faceGrid[r] = [];
-              const t_r = r / k;
-              const rowStart = slerp(v1, v2, t_r);
-              const rowEnd = slerp(v1, v3, t_r);
-
-              for (let c = 0; c <= r; c++) {
-                let v: THREE.Vector3;
-
-                // Snap edges to ensure crack-free transitions between LOD levels
-                if (r === k) {
-                  const t = c / k;
-                  const t_snapped = Math.round(t * k_e3) / k_e3;
-                  v = slerp(v2, v3, t_snapped);
-                } else if (c === 0) {
-                  const t = r / k;
-                  const t_snapped = Math.round(t * k_e1) / k_e1;
-                  v = slerp(v1, v2, t_snapped);
-                } else if (c === r) {
-                  const t = r / k;
-                  const t_snapped = Math.round(t * k_e2) / k_e2;
-                  v = slerp(v1, v3, t_snapped);
-                } else {
-                  v = slerp(rowStart, rowEnd, r === 0 ? 0 : c / r);
-                }
-                faceGrid[r][c] = getVertexIndex(v);
-              }
-            }
+  useEffect(() => {
+    if (!geometry) return;
+    onMeshStats?.({
+      vertices: geometry.getAttribute('position').count,
+      triangles: (geometry.index?.count ?? 0) / 3,
+    });
+  }, [geometry, onMeshStats]);
 
-            // Create triangles from the grid
-            for (let r = 0; r < k; r++) {
-              for (let c = 0; c < r; c++) {
-                const i1 = faceGrid[r][c];
-                const i2 = faceGrid[r + 1][c];
-                const i3 = faceGrid[r + 1][c + 1];
-                const i4 = faceGrid[r][c + 1];
-
-                if (i1 !== i2 && i2 !== i3 && i3 !== i1)
-                  indices.push(i1, i2, i3);
-                if (i1 !== i3 && i3 !== i4 && i4 !== i1)
-                  indices.push(i1, i3, i4);
-              }
-              const i1 = faceGrid[r][r];
-              const i2 = faceGrid[r + 1][r];
-              const i3 = faceGrid[r + 1][r + 1];
-              if (i1 !== i2 && i2 !== i3 && i3 !== i1) indices.push(i1, i2, i3);
-            }
-          };
+  useEffect(() => {
+    if (meshError) onMeshError?.(meshError);
+  }, [meshError, onMeshError]);
 
-          // Calculate sub-patch corners
-          const v1 = slerp(
-            slerp(A, B, i / baseSub),
-            slerp(A, C, i / baseSub),
-            i === 0 ? 0 : j / i,
-          );
-          const v2 = slerp(
-            slerp(A, B, (i + 1) / baseSub),
-            slerp(A, C, (i + 1) / baseSub),
-            j / (i + 1),
-          );
-          const v3 = slerp(
-            slerp(A, B, (i + 1) / baseSub),
-            slerp(A, C, (i + 1) / baseSub),
-            (j + 1) / (i + 1),
+  // Ground queries for objects resting on the planet, e.g. the capsule
+  const surfaceKey = JSON.stringify({
+    radius,
+    elevation,
+    terrain: terrainConfig,
+    normalEpsilon,
+  });
+  const uniformKey = JSON.stringify(icosphere);
+  useImperativeHandle(ref, () => {
+    const params: SurfaceParams = JSON.parse(surfaceKey);
+    const getSurface = () => createPlanetSurface(params, heightMapData, grid);
+    return {
+      getMesh: () => {
+        const mesh =
+          geometry &&
+          readMesh(
+            geometry,
+            gpu ? getSurface() : null,
+            morphing ? morphRef.current : null,
           );
-          processSubFace(v1, v2, v3);
-
-          // Handle the "upside-down" triangle in the subdivision grid
-          if (j < i) {
-            const vd1 = v1;
-            const vd2 = v3;
-            const vd3 = slerp(
-              slerp(A, B, i / baseSub),
-              slerp(A, C, i / baseSub),
-              (j + 1) / i,
-            );
-            processSubFace(vd1, vd2, vd3);
-          }
+        const skirtStart: number | undefined = geometry?.userData.skirtStart;
+        return mesh && skirtStart !== undefined
+          ? removeSkirts(mesh, skirtStart)
+          : mesh;
+      },
+      buildUniformMesh: (k) =>
+        buildUniformPlanetMesh(JSON.parse(uniformKey), k, heightMapData),
+      getTerrainQuery: (mode) => {
+        const surface = getSurface();
+        if (mode === 'field') {
+          return createFieldTerrainQuery(surface, params.radius);
         }
-      }
-    }
+        const mesh =
+          geometry &&
+          readMesh(
+            geometry,
+            gpu ? surface : null,
+            morphing ? morphRef.current : null,
+          );
+        return mesh && createMeshTerrainQuery(mesh, params, surface);
+      },
+    };
+  }, [surfaceKey, uniformKey, geometry, gpu, grid, heightMapData, morphing]);
 
-    // Finalize BufferGeometry
-    const geo = new THREE.BufferGeometry();
-    geo.setAttribute(
-      'position',
-      new THREE.BufferAttribute(new Float32Array(vertices), 3),
+  const queryGeometry = surfaceQuery === 'mesh' ? geometry : null;
+  useEffect(() => {
+    const params: SurfaceParams = JSON.parse(surfaceKey);
+    const surface = createPlanetSurface(params, heightMapData, grid);
+    // Until the first mesh arrives, the field stands in for it. The mesh is
+    // read morphed as it is drawn when it arrives.
+    const mesh =
+      queryGeometry &&
+      readMesh(
+        queryGeometry,
+        gpu ? surface : null,
+        morphing ? morphRef.current : null,
+      );
+    onSurfaceChange?.(
+      mesh
+        ? createMeshTerrainQuery(mesh, params, surface)
+        : createFieldTerrainQuery(surface, params.radius),
     );
-    geo.setIndex(indices);
-    geo.computeVertexNormals();
-    return geo;
   }, [
+    surfaceKey,
+    heightMapData,
+    grid,
+    queryGeometry,
+    gpu,
+    morphing,
+    onSurfaceChange,
+  ]);
+
+  // Optional normal map, baked once per terrain rather than per LOD change
+  const normalTexture = useTerrainNormalMap(
+    normalMap
+      ? {
+          terrain: terrainConfig,
+          elevation,
+          radius,
+          width: normalMapSize,
+          height: normalMapSize / 2,
+          epsilon: normalEpsilon,
+        }
+      : null,
+    heightMapData,
+  );
+
+  /**
+   * ============================================================================
+   * GEOMORPHING
+   * ============================================================================
+   * The morph factor is evaluated in the vertex shader from the live target
+   * and camera, so transitions stay continuous between mesh rebuilds. The
+   * cube-sphere has no LOD levels to morph between.
+   */
+  useEffect(() => {
+    const morphUniforms = morphRef.current;
+    const target = morphUniforms.morphTarget.value;
+    if (targetPosition) target.copy(targetPosition);
+    else target.set(0, radius, 0);
+    target.sub(new THREE.Vector3(cx, cy, cz));
+    morphUniforms.morphRadius.value = radius;
+    morphUniforms.morphGamma.value = stepGamma;
+    morphUniforms.morphRange.value = morphRange;
+
+    // Without a camera snapshot the mesher falls back to distance LOD
+    const hasView = needsCamera && view !== null;
+    morphUniforms.morphUseDistance.value =
+      lodMode !== 'screenSpace' || !hasView ? 1 : 0;
+    morphUniforms.morphUseScreen.value =
+      lodMode !== 'distance' && hasView ? 1 : 0;
+
+    const resolutions = getLodResolutions(minDetail, maxDetail, steps);
+    morphUniforms.morphSteps.value = resolutions.length;
+    morphUniforms.morphResolutions.value.fill(0);
+    resolutions.forEach((k, i) => {
+      if (i < MAX_LOD_STEPS) morphUniforms.morphResolutions.value[i] = k;
+    });
+  }, [
+    targetPosition,
     radius,
     minDetail,
     maxDetail,
     steps,
     stepGamma,
-    color,
-    position,
-    targetPosition,
-    heightMapData,
-    displacementScale,
+    morphRange,
+    lodMode,
+    needsCamera,
+    view,
+    cx,
+    cy,
+    cz,
   ]);
 
+  /**
+   * ============================================================================
+   * SURFACE COLOUR
+   * ============================================================================
+   * The albedo texture is mapped with the mesh's seam-split UVs. Until it has
+   * loaded, or if it fails to, the biome ramp stands in for it.
+   */
+  const albedoTexture = useColorTexture(
+    shading === 'albedo' ? (albedoUrl ?? null) : null,
+  );
+
+  const biomeRef = useRef(createBiomeUniforms());
+  const biome =
+    shading === 'biome' || (shading === 'albedo' && albedoTexture === null);
+  const biomeKey = JSON.stringify(biomeRamp);
+  useEffect(() => {
+    const biomeUniforms = biomeRef.current;
+    setBiomeRamp(biomeUniforms, JSON.parse(biomeKey));
+    biomeUniforms.biomeRadius.value = radius;
+    // Without exaggeration there is no relief to read elevations from
+    biomeUniforms.biomeMetresPerUnit.value =
+      exaggeration > 0 ? planetRadiusMeters / (exaggeration * radius) : 0;
+  }, [biomeKey, radius, exaggeration, planetRadiusMeters]);
+
+  /**
+   * ============================================================================
+   * DAY AND NIGHT
+   * ============================================================================
+   * The scene's lights shade the planet; the sun direction only has to agree
+   * with them for the atmosphere and for where the city lights come on.
+   */
+  const nightTexture = useColorTexture(nightLightsUrl ?? null);
+  const nightRef = useRef(createNightLightsUniforms());
+  const { x: sunX, y: sunY, z: sunZ } = sunDirection;
+  useEffect(() => {
+    const nightUniforms = nightRef.current;
+    nightUniforms.nightLightsMap.value = nightTexture;
+    nightUniforms.nightSunDirection.value.set(sunX, sunY, sunZ).normalize();
+    nightUniforms.nightLightsIntensity.value = nightLightsIntensity;
+  }, [nightTexture, sunX, sunY, sunZ, nightLightsIntensity]);
+
+  // A bare sphere would flash up while the first grid bakes
+  if (!geometry || (gpu && !elevationGrid)) return null;
+
+  // Programs differ only by which patches are applied, not by their inputs
+  const programKey = [
+    morphing,
+    gpu,
+    normalTexture !== null,
+    biome,
+    nightTexture !== null,
+  ].join(':');
+  const patchTerrainShader = (
+    shader: THREE.WebGLProgramParametersWithUniforms,
+  ) => {
+    if (morphing) injectGeomorph(shader, morphRef.current);
+    if (gpu) injectDisplacement(shader, displacementRef.current);
+    if (normalTexture) injectTerrainNormalMap(shader, normalTexture);
+    if (biome) injectBiomeShading(shader, biomeRef.current);
+    if (nightTexture) injectNightLights(shader, nightRef.current);
+  };
+
   return (
-    <group position={position}>
+    <group ref={groupRef} position={position}>
       {/* Primary Planet Mesh */}
       <mesh geometry={geometry}>
-        <meshStandardMaterial color={color} />
+        <meshStandardMaterial
+          key={`${programKey}:${normalTexture?.uuid}:${albedoTexture?.uuid}`}
+          color={albedoTexture ? 'white' : color}
+          map={albedoTexture}
+          onBeforeCompile={patchTerrainShader}
+          customProgramCacheKey={() => programKey}
+        />
       </mesh>
 
+      {/* Optional Ocean Shell: sea level always sits at the base radius */}
+      {ocean && (
+        <mesh>
+          <sphereGeometry args={[radius, 128, 64]} />
+          <meshStandardMaterial
+            color={oceanColor}
+            transparent
+            opacity={0.75}
+            roughness={0.2}
+          />
+        </mesh>
+      )}
+
+      {/* Optional Scattering Shell, sized from the sea-level radius */}
+      {atmosphere && (
+        <Atmosphere
+          radius={radius}
+          sunDirection={sunDirection}
+          settings={atmosphereSettings}
+        />
+      )}
+
       {/* Optional Wireframe Overlay */}
       {wireframe && (
         <mesh geometry={geometry}>
           <meshBasicMaterial
+            key={`${morphing}:${gpu}`}
+            onBeforeCompile={(shader) => {
+              if (morphing) injectGeomorph(shader, morphRef.current);
+              if (gpu) injectDisplacement(shader, displacementRef.current);
+            }}
+            customProgramCacheKey={() => `${morphing}:${gpu}`}
             color="white"
             wireframe
             transparent
@@ -368,3 +689,56 @@ export default function Planet({
     </group>
   );
 }
+
+/**
+ * The mesh on screen as arrays. With `morph`, vertices are blended toward
+ * their parents as the geomorph currently draws them. Meshes displaced on
+ * the GPU then get the relief of `surface` put into their vertices, so they
+ * read as they are drawn.
+ */
+function readMesh(
+  geometry: THREE.BufferGeometry,
+  surface: PlanetSurface | null,
+  morph: GeomorphUniforms | null,
+): ExportMesh | null {
+  if (!geometry.index) return null;
+  const positions = geometry.getAttribute('position').array as Float32Array;
+  const mesh = {
+    positions: morph
+      ? applyGeomorph(
+          positions,
+          geometry.getAttribute('parentPosition').array as Float32Array,
+          geometry.getAttribute('morphLevel').array as Float32Array,
+          morph,
+        )
+      : positions,
+    normals: geometry.getAttribute('normal').array as Float32Array,
+    uvs: geometry.getAttribute('uv').array as Float32Array,
+    indices: geometry.index.array as Uint32Array,
+  };
+  return surface ? displaceExportMesh(mesh, surface) : mesh;
+}
+
+/** Serialisable height source description for the chosen terrain type. */
+function getTerrainConfig(
+  terrain: TerrainType,
+  sampling: HeightSampling,
+  procedural?: Partial<ProceduralTerrainSettings>,
+  composite?: Partial<CompositeTerrainSettings>,
+): HeightSourceConfig {
+  switch (terrain) {
+    case 'heightmap':
+      return { type: 'heightmap', sampling };
+    case 'procedural':
+      return {
+        type: 'procedural',
+        settings: { ...DEFAULT_PROCEDURAL_TERRAIN, ...procedural },
+      };
+    case 'composite':
+      return {
+        type: 'composite',
+        base: { type: 'heightmap', sampling },
+        settings: { ...DEFAULT_COMPOSITE_TERRAIN, ...composite },
+      };
+  }
+}
@@ -0,0 +1,166 @@
+import { useMemo, useRef } from 'react';
+import type { ReactNode } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Line } from '@react-three/drei';
+import * as THREE from 'three';
+import Planet from './Planet';
+import type { PlanetProps } from './Planet';
+import {
+  getOrbitPoints,
+  getOrbitPosition,
+  validatePlanetSystem,
+} from '../utils/planetSystem';
+import type { BodyDescription, SystemDescription } from '../utils/planetSystem';
+
+interface PlanetSystemProps {
+  system: SystemDescription;
+  /** Id of the body the capsule is on; the camera travels with it. */
+  attachedTo: string;
+  /** Scene seconds of orbital motion per real second. */
+  timeScale?: number;
+  showOrbits?: boolean;
+  /** Props every body shares, e.g. the LOD settings and the sun. */
+  planetProps?: Partial<PlanetProps>;
+  /** Props of single bodies by id, over their description. */
+  bodyProps?: Record<string, Partial<PlanetProps>>;
+  /** Props of the attached body only, e.g. its LOD target and handle. */
+  attachedProps?: Partial<PlanetProps>;
+  /** Placed in the attached body's frame, e.g. the capsule. */
+  children?: ReactNode;
+}
+
+// Bodies the capsule isn't on are meshed for the camera alone
+const DISTANT_PROPS: Partial<PlanetProps> = { lodMode: 'screenSpace' };
+
+/** The Planet props a body's description stands for. */
+function getSurfaceProps({ surface }: BodyDescription): Partial<PlanetProps> {
+  return {
+    terrain: surface.terrain,
+    heightMapUrl: surface.heightMapUrl,
+    procedural: surface.procedural,
+    exaggeration: surface.exaggeration,
+    planetRadiusMeters: surface.planetRadiusMeters,
+    shading: surface.shading,
+    color: surface.color,
+    ocean: surface.ocean ?? false,
+    atmosphere: surface.atmosphere ?? false,
+  };
+}
+
+/**
+ * ============================================================================
+ * PLANET SYSTEM
+ * ============================================================================
+ * Renders every body of a system description as its own LOD planet, nested
+ * in its parent's group so orbits add up. Each body meshes itself for where
+ * the camera is relative to it: the attached body by the panel's LOD
+ * target, the rest by screen-space error, so distant bodies stay coarse.
+ *
+ * The camera rides along with the attached body, keeping its offset, and
+ * the orbit controls pivot around it. Positions given to and reported by
+ * the children are in the attached body's frame.
+ */
+export default function PlanetSystem({
+  system,
+  attachedTo,
+  timeScale = 1,
+  showOrbits = true,
+  planetProps,
+  bodyProps,
+  attachedProps,
+  children,
+}: PlanetSystemProps) {
+  const rootRef = useRef<THREE.Group>(null);
+  const groups = useRef(new Map<string, THREE.Group>());
+  const time = useRef(0);
+  // The body the camera followed last frame, and where it was
+  const followed = useRef<{ id: string; position: THREE.Vector3 } | null>(null);
+
+  validatePlanetSystem(system);
+  const orbits = useMemo(
+    () =>
+      new Map(
+        system.bodies.map((body) => [
+          body.id,
+          body.orbit ? getOrbitPoints(body.orbit) : null,
+        ]),
+      ),
+    [system],
+  );
+
+  // Before the planets and controls, so they all see this frame's positions
+  useFrame((state, delta) => {
+    time.current += delta * timeScale;
+    for (const body of system.bodies) {
+      const group = groups.current.get(body.id);
+      if (group && body.orbit) {
+        getOrbitPosition(body.orbit, time.current, group.position);
+      }
+    }
+    rootRef.current?.updateMatrixWorld();
+
+    const group = groups.current.get(attachedTo);
+    if (!group) return;
+    const position = group.getWorldPosition(new THREE.Vector3());
+    // The camera starts out placed relative to the attached body
+    const last = followed.current ?? {
+      id: attachedTo,
+      position: new THREE.Vector3(),
+    };
+    const offset = state.camera.position.clone().sub(last.position);
+    if (last.id !== attachedTo) {
+      // Keep the same view of a body of a different size
+      const radius = (id: string) =>
+        system.bodies.find((body) => body.id === id)?.radius ?? 1;
+      offset.multiplyScalar(radius(attachedTo) / radius(last.id));
+    }
+    state.camera.position.copy(position).add(offset);
+    followed.current = { id: attachedTo, position };
+
+    const controls = state.controls as { target?: THREE.Vector3 } | null;
+    controls?.target?.copy(position);
+  }, -2);
+
+  const renderBody = (body: BodyDescription): ReactNode => {
+    const attached = body.id === attachedTo;
+    const points = orbits.get(body.id);
+    return [
+      showOrbits && points && (
+        <Line
+          key={`${body.id}:orbit`}
+          points={points}
+          color="white"
+          lineWidth={1}
+          transparent
+          opacity={0.25}
+        />
+      ),
+      <group
+        key={body.id}
+        ref={(group) => {
+          if (group) groups.current.set(body.id, group);
+          else groups.current.delete(body.id);
+        }}
+      >
+        <Planet
+          {...planetProps}
+          {...getSurfaceProps(body)}
+          {...bodyProps?.[body.id]}
+          {...(attached ? attachedProps : DISTANT_PROPS)}
+          radius={body.radius}
+          position={[0, 0, 0]}
+        />
+        {attached && children}
+        {system.bodies
+          .filter((child) => child.parent === body.id)
+          .map(renderBody)}
+      </group>,
+    ];
+  };
+
+  return (
+    <group ref={rootRef}>
+      {system.bodies.filter((body) => !body.parent).map(renderBody)}
+    </group>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState } from 'react';
+import type { ChangeEvent } from 'react';
+import {
+  BUILT_IN_PRESETS,
+  loadUserPresets,
+  parsePresetJson,
+  saveUserPresets,
+  stringifyPreset,
+} from '../utils/presets';
+import type { PlanetPreset } from '../utils/presets';
+import { downloadFile } from '../utils/download';
+
+interface PresetPanelProps {
+  /** A preset of the current view, named `name`. */
+  capture: (name: string) => PlanetPreset;
+  /** Called with a preset to switch the view to. */
+  onApply: (preset: PlanetPreset) => void;
+}
+
+// Select values keep built-in and user presets with the same name apart
+const BUILT_IN = 'built-in:';
+const USER = 'user:';
+
+/**
+ * ============================================================================
+ * PRESET PANEL
+ * ============================================================================
+ * A DOM overlay to apply the built-in presets, save the current view as a
+ * named preset in localStorage, export it as a JSON file and import one.
+ * Files that don't validate are reported in the panel, not applied.
+ */
+export default function PresetPanel({ capture, onApply }: PresetPanelProps) {
+  const [userPresets, setUserPresets] = useState(() => loadUserPresets());
+  const [selected, setSelected] = useState(BUILT_IN + BUILT_IN_PRESETS[0].name);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const updateUserPresets = (presets: PlanetPreset[]) => {
+    setUserPresets(presets);
+    saveUserPresets(presets);
+  };
+
+  const find = (value: string) =>
+    value.startsWith(USER)
+      ? userPresets.find((p) => USER + p.name === value)
+      : BUILT_IN_PRESETS.find((p) => BUILT_IN + p.name === value);
+
+  // Saving under an existing name replaces that preset
+  const store = (preset: PlanetPreset) => {
+    updateUserPresets([
+      ...userPresets.filter((p) => p.name !== preset.name),
+      preset,
+    ]);
+    setSelected(USER + preset.name);
+  };
+
+  const handleApply = () => {
+    const preset = find(selected);
+    if (preset) onApply(preset);
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setError('Enter a name to save the preset under');
+      return;
+    }
+    store(capture(trimmed));
+    setName('');
+    setError(null);
+  };
+
+  const handleDelete = () => {
+    updateUserPresets(userPresets.filter((p) => USER + p.name !== selected));
+    setSelected(BUILT_IN + BUILT_IN_PRESETS[0].name);
+  };
+
+  const handleExport = () => {
+    const preset = capture(name.trim() || 'planet');
+    downloadFile(
+      stringifyPreset(preset),
+      `${preset.name}.planet.json`,
+      'application/json',
+    );
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again after fixing it
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const preset = parsePresetJson(await file.text());
+      store(preset);
+      onApply(preset);
+      setError(null);
+    } catch (err) {
+      setError(`${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  const button = 'rounded bg-white/20 px-2 py-1 disabled:opacity-40';
+
+  return (
+    <div className="absolute right-4 bottom-4 flex w-72 flex-col gap-2 rounded bg-black/60 px-3 py-2 font-mono text-sm text-white">
+      <div className="flex gap-2">
+        <select
+          className="min-w-0 flex-1 rounded bg-white/10 px-2 py-1"
+          value={selected}
+          onChange={(e) => setSelected(e.target.value)}
+          aria-label="Preset"
+        >
+          <optgroup label="Built-in">
+            {BUILT_IN_PRESETS.map((p) => (
+              <option key={p.name} value={BUILT_IN + p.name}>
+                {p.name}
+              </option>
+            ))}
+          </optgroup>
+          {userPresets.length > 0 && (
+            <optgroup label="Saved">
+              {userPresets.map((p) => (
+                <option key={p.name} value={USER + p.name}>
+                  {p.name}
+                </option>
+              ))}
+            </optgroup>
+          )}
+        </select>
+        <button className={button} type="button" onClick={handleApply}>
+          Apply
+        </button>
+        <button
+          className={button}
+          type="button"
+          onClick={handleDelete}
+          disabled={!selected.startsWith(USER)}
+        >
+          Delete
+        </button>
+      </div>
+      <div className="flex gap-2">
+        <input
+          className="min-w-0 flex-1 rounded bg-white/10 px-2 py-1 outline-none"
+          placeholder="Preset name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          aria-label="Preset name"
+        />
+        <button className={button} type="button" onClick={handleSave}>
+          Save
+        </button>
+      </div>
+      <div className="flex gap-2">
+        <button className={button} type="button" onClick={handleExport}>
+          Export
+        </button>
+        <label className={`${button} cursor-pointer`}>
+          Import
+          <input
+            className="hidden"
+            type="file"
+            accept=".json,application/json"
+            onChange={handleImport}
+          />
+        </label>
+      </div>
+      {error && <div className="text-red-400">{error}</div>}
+    </div>
+  );
+}
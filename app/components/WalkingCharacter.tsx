@@ -0,0 +1,162 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { useFrame, useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+import { usePressedKeys } from '../hooks/usePressedKeys';
+import {
+  DEFAULT_CHARACTER_SETTINGS,
+  createCharacterState,
+  stepCharacter,
+} from '../utils/characterController';
+import type {
+  CharacterSettings,
+  CharacterState,
+} from '../utils/characterController';
+import type { PlanetSurface } from '../utils/planetSurface';
+
+/** Follow the capsule from behind, or look out from its eyes. */
+export type CharacterView = 'thirdPerson' | 'firstPerson';
+
+interface WalkingCharacterProps {
+  /** Planet centre in the capsule's parent frame, like every position here. */
+  planetPosition: [number, number, number];
+  surface: PlanetSurface;
+  view?: CharacterView;
+  settings?: Partial<CharacterSettings>;
+  /** Position to start from; the capsule lands on the ground below. */
+  startPosition?: THREE.Vector3;
+  onPositionChange?: (position: THREE.Vector3) => void;
+}
+
+// Same capsule as DraggableCapsule: 1.4 tall
+const HALF_HEIGHT = 0.7;
+const EYE_HEIGHT = 1.2;
+// Third-person camera offset behind and above the capsule
+const FOLLOW_DISTANCE = 4;
+const FOLLOW_HEIGHT = 1.5;
+// Fraction of the way the camera catches up per 60th of a second
+const FOLLOW_SMOOTHING = 0.15;
+// Movement before a new position is reported, e.g. to retarget the LOD
+const REPORT_DISTANCE = 0.25;
+// Longest frame simulated in one step, e.g. after a background tab
+const MAX_STEP = 0.1;
+const UP = new THREE.Vector3(0, 1, 0);
+const IDENTITY = new THREE.Matrix4();
+
+// Scratch vectors for the frame loop, so it allocates nothing per frame
+const up = new THREE.Vector3();
+const center = new THREE.Vector3();
+const normal = new THREE.Vector3();
+const eye = new THREE.Vector3();
+const target = new THREE.Vector3();
+
+const isHeld = (keys: Set<string>, ...codes: string[]) =>
+  codes.some((code) => keys.has(code)) ? 1 : 0;
+
+/**
+ * ============================================================================
+ * WALKING CHARACTER
+ * ============================================================================
+ * The capsule as a keyboard-driven character: W/S or the arrow keys walk and
+ * turn, Space jumps. It takes over the default camera, whose up vector
+ * follows the terrain normal under the capsule, and hands it back upright
+ * when unmounted. The capsule lives in its parent's frame, which may move
+ * with a body of a planet system; the camera is placed in the world.
+ */
+export default function WalkingCharacter({
+  planetPosition,
+  surface,
+  view = 'thirdPerson',
+  settings,
+  startPosition,
+  onPositionChange,
+}: WalkingCharacterProps) {
+  const meshRef = useRef<THREE.Mesh>(null);
+  const camera = useThree((state) => state.camera);
+  const keys = usePressedKeys();
+  const character = useRef<CharacterState | null>(null);
+  const reported = useRef<THREE.Vector3 | null>(null);
+  const planetCenter = useMemo(
+    () => new THREE.Vector3(...planetPosition),
+    [planetPosition],
+  );
+  const resolved = { ...DEFAULT_CHARACTER_SETTINGS, ...settings };
+
+  // Leave the camera upright for the orbit controls
+  useEffect(() => () => void camera.up.copy(UP), [camera]);
+
+  useFrame((_, delta) => {
+    const dt = Math.min(delta, MAX_STEP);
+    if (!character.current) {
+      const dir = startPosition
+        ? startPosition.clone().sub(planetCenter).normalize()
+        : UP.clone();
+      character.current = createCharacterState(surface, dir);
+    }
+    const state = character.current;
+
+    const held = keys.current;
+    stepCharacter(
+      state,
+      {
+        forward:
+          isHeld(held, 'KeyW', 'ArrowUp') - isHeld(held, 'KeyS', 'ArrowDown'),
+        turn:
+          isHeld(held, 'KeyD', 'ArrowRight') -
+          isHeld(held, 'KeyA', 'ArrowLeft'),
+        jump: held.has('Space'),
+      },
+      surface,
+      resolved,
+      dt,
+    );
+
+    // The capsule stands against gravity, straight up from the centre
+    up.copy(state.position).normalize();
+    center
+      .copy(state.position)
+      .addScaledVector(up, HALF_HEIGHT)
+      .add(planetCenter);
+    if (meshRef.current) {
+      meshRef.current.position.copy(center);
+      meshRef.current.quaternion.setFromUnitVectors(UP, up);
+    }
+
+    // Frame-rate independent easing toward the camera's goal
+    const ease = 1 - Math.pow(1 - FOLLOW_SMOOTHING, dt * 60);
+    const toWorld = meshRef.current?.parent?.matrixWorld ?? IDENTITY;
+    surface.normalAt(up, normal).transformDirection(toWorld);
+    camera.up.lerp(normal, ease).normalize();
+    if (view === 'firstPerson') {
+      eye
+        .copy(state.position)
+        .addScaledVector(up, EYE_HEIGHT)
+        .add(planetCenter);
+      target.copy(eye).add(state.heading).applyMatrix4(toWorld);
+      camera.position.copy(eye.applyMatrix4(toWorld));
+      camera.lookAt(target);
+    } else {
+      eye
+        .copy(center)
+        .addScaledVector(state.heading, -FOLLOW_DISTANCE)
+        .addScaledVector(up, FOLLOW_HEIGHT)
+        .applyMatrix4(toWorld);
+      camera.position.lerp(eye, ease);
+      camera.lookAt(target.copy(center).applyMatrix4(toWorld));
+    }
+
+    if (
+      !reported.current ||
+      reported.current.distanceTo(center) > REPORT_DISTANCE
+    ) {
+      reported.current = center.clone();
+      onPositionChange?.(center.clone());
+    }
+  });
+
+  return (
+    <mesh ref={meshRef} visible={view === 'thirdPerson'}>
+      <capsuleGeometry args={[0.2, 1, 4, 16]} />
+      <meshStandardMaterial color="orange" />
+    </mesh>
+  );
+}
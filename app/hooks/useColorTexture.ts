@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import * as THREE from 'three';
+
+/**
+ * Loads a colour image (sRGB) as a texture. Pass null to skip loading.
+ * Returns null until the image for the current URL has loaded, or if it
+ * failed to, so callers can fall back to something else in the meantime.
+ */
+export function useColorTexture(url: string | null): THREE.Texture | null {
+  const [loaded, setLoaded] = useState<{
+    url: string;
+    texture: THREE.Texture;
+  } | null>(null);
+
+  useEffect(() => {
+    if (!url) return;
+    let texture: THREE.Texture | null = null;
+    let cancelled = false;
+    new THREE.TextureLoader().load(
+      url,
+      (result) => {
+        if (cancelled) {
+          result.dispose();
+          return;
+        }
+        result.colorSpace = THREE.SRGBColorSpace;
+        result.anisotropy = 8;
+        texture = result;
+        setLoaded({ url, texture: result });
+      },
+      undefined,
+      () => console.warn(`Could not load texture ${url}`),
+    );
+    return () => {
+      cancelled = true;
+      texture?.dispose();
+    };
+  }, [url]);
+
+  return loaded && loaded.url === url ? loaded.texture : null;
+}
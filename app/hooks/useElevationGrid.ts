@@ -0,0 +1,89 @@
+import { useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import type { HeightMapData } from '../utils/heightmap';
+import type { ElevationGrid } from '../utils/elevationGrid';
+import type {
+  ElevationGridRequest,
+  PlanetMesherRequest,
+  PlanetMesherResponse,
+} from '../workers/planetMesher.worker';
+
+/** A baked elevation grid and the float texture the vertex shader reads. */
+export interface ElevationGridTexture {
+  grid: ElevationGrid;
+  texture: THREE.DataTexture;
+}
+
+/**
+ * Bakes the elevation grid of GPU displacement in a Web Worker. Pass null to
+ * skip baking. The previous grid stays in use until the new one is finished.
+ */
+export function useElevationGrid(
+  request: ElevationGridRequest | null,
+  heightMapData: HeightMapData | null,
+): ElevationGridTexture | null {
+  const [baked, setBaked] = useState<ElevationGridTexture | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const requestId = useRef(0);
+  const enabled = request !== null;
+
+  // The bake gets its own worker so it never holds up mesh builds
+  useEffect(() => {
+    if (!enabled) return;
+    const worker = new Worker(
+      new URL('../workers/planetMesher.worker.ts', import.meta.url),
+      { type: 'module' },
+    );
+    worker.onmessage = (e: MessageEvent<PlanetMesherResponse>) => {
+      if (e.data.type !== 'elevationGrid') return;
+      const { id, data, width, height } = e.data;
+      if (id !== requestId.current) return;
+
+      // The shader fetches and interpolates texels itself, as the CPU does
+      const texture = new THREE.DataTexture(
+        data,
+        width,
+        height,
+        THREE.RedFormat,
+        THREE.FloatType,
+      );
+      texture.minFilter = THREE.NearestFilter;
+      texture.magFilter = THREE.NearestFilter;
+      texture.generateMipmaps = false;
+      texture.needsUpdate = true;
+      setBaked({ grid: { data, width, height }, texture });
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      setBaked(null);
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    const message: PlanetMesherRequest = {
+      type: 'heightMap',
+      heightMap: heightMapData,
+    };
+    workerRef.current?.postMessage(message);
+  }, [heightMapData, enabled]);
+
+  const requestKey = JSON.stringify(request);
+
+  useEffect(() => {
+    const parsed: ElevationGridRequest | null = JSON.parse(requestKey);
+    if (!parsed) return;
+    const message: PlanetMesherRequest = {
+      type: 'elevationGrid',
+      id: ++requestId.current,
+      request: parsed,
+    };
+    workerRef.current?.postMessage(message);
+  }, [requestKey, heightMapData]);
+
+  // Release the GPU texture once it has been replaced
+  useEffect(() => () => baked?.texture.dispose(), [baked]);
+
+  return baked;
+}
@@ -0,0 +1,103 @@
+import { useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import type { PlanetMeshSpec } from '../utils/planetMesher';
+import type { HeightMapData } from '../utils/heightmap';
+import type {
+  PlanetMesherRequest,
+  PlanetMesherResponse,
+} from '../workers/planetMesher.worker';
+
+export interface PlanetMeshResult {
+  geometry: THREE.BufferGeometry | null;
+  /** Why the latest build failed; cleared by the next finished mesh. */
+  error: Error | null;
+}
+
+/**
+ * Builds the planet mesh in a Web Worker and returns the latest finished
+ * geometry. While a new mesh is being generated the previous one stays on
+ * screen; responses for requests that have since been superseded are dropped.
+ * A build that throws, or a worker that fails, is reported as the error.
+ */
+export function usePlanetMesh(
+  spec: PlanetMeshSpec,
+  heightMapData: HeightMapData | null,
+): PlanetMeshResult {
+  const [geometry, setGeometry] = useState<THREE.BufferGeometry | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const requestId = useRef(0);
+
+  // Spin up the worker once per mounted planet
+  useEffect(() => {
+    const worker = new Worker(
+      new URL('../workers/planetMesher.worker.ts', import.meta.url),
+      { type: 'module' },
+    );
+    worker.onmessage = (e: MessageEvent<PlanetMesherResponse>) => {
+      if (e.data.type !== 'mesh' && e.data.type !== 'error') return;
+      // Ignore stale results, a newer request is already in flight
+      if (e.data.id !== requestId.current) return;
+      if (e.data.type === 'error') {
+        setError(new Error(e.data.message));
+        return;
+      }
+      const { mesh } = e.data;
+
+      const geo = new THREE.BufferGeometry();
+      geo.setAttribute(
+        'position',
+        new THREE.BufferAttribute(mesh.positions, 3),
+      );
+      geo.setAttribute('normal', new THREE.BufferAttribute(mesh.normals, 3));
+      geo.setAttribute(
+        'parentPosition',
+        new THREE.BufferAttribute(mesh.parentPositions, 3),
+      );
+      geo.setAttribute(
+        'morphLevel',
+        new THREE.BufferAttribute(mesh.morphLevels, 1),
+      );
+      geo.setAttribute('uv', new THREE.BufferAttribute(mesh.uvs, 2));
+      geo.setIndex(new THREE.BufferAttribute(mesh.indices, 1));
+      geo.userData.skirtStart = mesh.skirtStart;
+      geo.computeBoundingSphere();
+      setGeometry(geo);
+      setError(null);
+    };
+    worker.onerror = (e) =>
+      setError(new Error(e.message || 'The mesher worker failed'));
+    worker.onmessageerror = () =>
+      setError(new Error('The mesher worker sent an unreadable message'));
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const request: PlanetMesherRequest = {
+      type: 'heightMap',
+      heightMap: heightMapData,
+    };
+    workerRef.current?.postMessage(request);
+  }, [heightMapData]);
+
+  // Specs arrive as fresh objects every render, so key requests by content
+  const specKey = JSON.stringify(spec);
+
+  useEffect(() => {
+    const request: PlanetMesherRequest = {
+      type: 'build',
+      id: ++requestId.current,
+      spec: JSON.parse(specKey),
+    };
+    workerRef.current?.postMessage(request);
+  }, [specKey, heightMapData]);
+
+  // Release GPU buffers of a mesh once it has been replaced
+  useEffect(() => () => geometry?.dispose(), [geometry]);
+
+  return { geometry, error };
+}
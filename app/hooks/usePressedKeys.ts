@@ -0,0 +1,36 @@
+import { useEffect, useRef } from 'react';
+
+// Elements that take typed text, and anything inside them
+const FORM_FIELDS = 'input, textarea, select, [contenteditable]';
+
+/**
+ * Tracks which keys are held down, by `KeyboardEvent.code`. The set lives in
+ * a ref so a useFrame loop can read it without re-rendering on every key.
+ * Everything is released when the window loses focus, so no key stays stuck.
+ */
+export function usePressedKeys() {
+  const pressed = useRef(new Set<string>());
+
+  useEffect(() => {
+    const keys = pressed.current;
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Typing into a form field (e.g. the control panel) isn't movement
+      if (e.target instanceof Element && e.target.closest(FORM_FIELDS)) return;
+      keys.add(e.code);
+    };
+    const onKeyUp = (e: KeyboardEvent) => keys.delete(e.code);
+    const onBlur = () => keys.clear();
+
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+      keys.clear();
+    };
+  }, []);
+
+  return pressed;
+}
@@ -0,0 +1,79 @@
+import { useEffect, useRef, useState } from 'react';
+import * as THREE from 'three';
+import type { HeightMapData } from '../utils/heightmap';
+import type {
+  NormalMapRequest,
+  PlanetMesherRequest,
+  PlanetMesherResponse,
+} from '../workers/planetMesher.worker';
+
+/**
+ * Bakes an equirectangular object-space normal map of the terrain in a Web
+ * Worker. Pass null to skip baking. The previous texture stays in use until
+ * the new one is finished.
+ */
+export function useTerrainNormalMap(
+  request: NormalMapRequest | null,
+  heightMapData: HeightMapData | null,
+): THREE.DataTexture | null {
+  const [texture, setTexture] = useState<THREE.DataTexture | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const requestId = useRef(0);
+  const enabled = request !== null;
+
+  // The bake gets its own worker so it never holds up mesh builds
+  useEffect(() => {
+    if (!enabled) return;
+    const worker = new Worker(
+      new URL('../workers/planetMesher.worker.ts', import.meta.url),
+      { type: 'module' },
+    );
+    worker.onmessage = (e: MessageEvent<PlanetMesherResponse>) => {
+      if (e.data.type !== 'normalMap') return;
+      const { id, data, width, height } = e.data;
+      if (id !== requestId.current) return;
+
+      const map = new THREE.DataTexture(data, width, height);
+      map.wrapS = THREE.RepeatWrapping;
+      // The shader computes texture coordinates per fragment, and mipmaps
+      // would pick the wrong level across the longitude seam
+      map.minFilter = THREE.LinearFilter;
+      map.magFilter = THREE.LinearFilter;
+      map.generateMipmaps = false;
+      map.needsUpdate = true;
+      setTexture(map);
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      setTexture(null);
+    };
+  }, [enabled]);
+
+  useEffect(() => {
+    const message: PlanetMesherRequest = {
+      type: 'heightMap',
+      heightMap: heightMapData,
+    };
+    workerRef.current?.postMessage(message);
+  }, [heightMapData, enabled]);
+
+  const requestKey = JSON.stringify(request);
+
+  useEffect(() => {
+    const parsed: NormalMapRequest | null = JSON.parse(requestKey);
+    if (!parsed) return;
+    const message: PlanetMesherRequest = {
+      type: 'normalMap',
+      id: ++requestId.current,
+      request: parsed,
+    };
+    workerRef.current?.postMessage(message);
+  }, [requestKey, heightMapData]);
+
+  // Release the GPU texture once it has been replaced
+  useEffect(() => () => texture?.dispose(), [texture]);
+
+  return texture;
+}
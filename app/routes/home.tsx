@@ -1,91 +1,509 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { ComponentRef } from 'react';
+import { useSearchParams } from 'react-router';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, PerspectiveCamera } from '@react-three/drei';
-import { useControls } from 'leva';
+import { button, useControls } from 'leva';
 import * as THREE from 'three';
-import Planet from '../components/Planet';
+import PlanetSystem from '../components/PlanetSystem';
+import type { PlanetHandle, PlanetMeshStats } from '../components/Planet';
 import DraggableCapsule from '../components/DraggableCapsule';
+import WalkingCharacter from '../components/WalkingCharacter';
+import GeoHud from '../components/GeoHud';
+import PresetPanel from '../components/PresetPanel';
+import type { TerrainQuery } from '../utils/terrainQuery';
+import {
+  directionToLatLon,
+  latLonToDirection,
+  wrapLongitude,
+} from '../utils/geodesy';
+import type { LatLon } from '../utils/geodesy';
+import {
+  formatParam,
+  parseNumberList,
+  readControlParams,
+  writeControlParams,
+} from '../utils/urlState';
+import { withControlValues } from '../utils/controlSchema';
+import type { ControlValues } from '../utils/controlSchema';
+import {
+  BIOME_CONTROLS,
+  CHARACTER_CONTROLS,
+  DETAIL_CONTROLS,
+  EXPORT_CONTROLS,
+  PLANET_CONTROLS,
+  PROCEDURAL_CONTROLS,
+  QUADTREE_CONTROLS,
+  SKY_CONTROLS,
+  SYSTEM_CONTROLS,
+} from '../utils/planetControls';
+import { createPreset, getPresetValues } from '../utils/presets';
+import type { PlanetPreset } from '../utils/presets';
+import { DEFAULT_COMPOSITE_TERRAIN } from '../utils/heightSource';
+import { MESH_EXPORT_MIME_TYPES, exportMesh } from '../utils/meshExport';
+import type { MeshExportFormat } from '../utils/meshExport';
+import { downloadFile } from '../utils/download';
+import { BIOME_STOPS } from '../utils/terrainShader';
+import type { BiomeRamp, BiomeStop } from '../utils/terrainShader';
+import { getSunDirection, parseUtcDate } from '../utils/solar';
+import { DEFAULT_SYSTEM } from '../utils/planetSystem';
+
+type PlanetControls = ControlValues<typeof PLANET_CONTROLS>;
+
+/** The biome ramp of the Biomes folder. */
+function getBiomeRamp(values: ControlValues<typeof BIOME_CONTROLS>) {
+  const ramp: BiomeRamp = {
+    colors: {} as Record<BiomeStop, string>,
+    elevations: {} as Record<BiomeStop, number>,
+    slopeStart: values.slopeStart,
+    slopeEnd: values.slopeEnd,
+  };
+  for (const stop of BIOME_STOPS) {
+    ramp.colors[stop] = values[`${stop}Color`];
+    ramp.elevations[stop] = values[`${stop}Elevation`];
+  }
+  return ramp;
+}
+
+/**
+ * ============================================================================
+ * URL STATE
+ * ============================================================================
+ * The main controls, the capsule's location and the orbit camera position
+ * are mirrored into the URL, so a link reproduces the view. Params are read
+ * once on load; afterwards the URL follows the view, not the other way round.
+ * The capsule and the camera are stored relative to the body the capsule is
+ * on, which may be moving.
+ */
+const DEFAULT_CAPSULE: LatLon = { lat: 90, lon: 0 };
+const DEFAULT_CAMERA: [number, number, number] = [0, 20, 20];
+// Wait for changes to settle before rewriting the URL
+const URL_SYNC_DELAY_MS = 500;
+
+// The sun's direction and distance when day/night is off
+const FIXED_SUN_DIRECTION = new THREE.Vector3(100, 100, 50).normalize();
+const SUN_DISTANCE = 150;
+
+function readUrlState(params: URLSearchParams) {
+  const controls = readControlParams(PLANET_CONTROLS, params);
+  const capsule = parseNumberList(params.get('capsule'), 2);
+  const camera = parseNumberList(params.get('camera'), 3);
+  return {
+    controls,
+    capsule: capsule
+      ? {
+          lat: THREE.MathUtils.clamp(capsule[0], -90, 90),
+          lon: wrapLongitude(capsule[1]),
+        }
+      : DEFAULT_CAPSULE,
+    // A camera at the planet centre has nowhere to look
+    camera:
+      camera && camera.some((c) => c !== 0)
+        ? (camera as [number, number, number])
+        : DEFAULT_CAMERA,
+  };
+}
+
+function writeUrlState(
+  controls: PlanetControls,
+  capsule: LatLon,
+  camera: [number, number, number],
+) {
+  const params = writeControlParams(
+    PLANET_CONTROLS,
+    controls,
+    new URLSearchParams(),
+  );
+  const list = (values: number[]) => values.map(formatParam).join(',');
+  if (capsule.lat !== DEFAULT_CAPSULE.lat) {
+    params.set('capsule', list([capsule.lat, capsule.lon]));
+  }
+  if (camera.some((c, i) => c !== DEFAULT_CAMERA[i])) {
+    params.set('camera', list(camera));
+  }
+  return params;
+}
 
 export default function Home() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [initialState] = useState(() => readUrlState(searchParams));
   const [controlsEnabled, setControlsEnabled] = useState(true);
-  const [capsulePosition, setCapsulePosition] = useState<THREE.Vector3>(
-    new THREE.Vector3(0, 10.7, 0),
+  const [capsulePosition, setCapsulePosition] = useState(() =>
+    latLonToDirection(initialState.capsule).multiplyScalar(
+      (initialState.controls.radius ?? PLANET_CONTROLS.radius.value) + 0.7,
+    ),
+  );
+  const cameraRef = useRef<THREE.PerspectiveCamera>(null);
+  const controlsRef = useRef<ComponentRef<typeof OrbitControls>>(null);
+  const planetRef = useRef<PlanetHandle>(null);
+  const [cameraPosition, setCameraPosition] = useState(initialState.camera);
+  const [meshStats, setMeshStats] = useState<PlanetMeshStats | null>(null);
+  const [meshError, setMeshError] = useState<string | null>(null);
+  const onMeshError = useCallback(
+    (err: Error) => setMeshError(`Mesh: ${err.message}`),
+    [],
   );
+  // A mesh that finished replaces the error of the build that failed
+  const onMeshStats = useCallback((stats: PlanetMeshStats) => {
+    setMeshStats(stats);
+    setMeshError(null);
+  }, []);
+  const [heightMapError, setHeightMapError] = useState<string | null>(null);
+  const onHeightMapError = useCallback(
+    (err: Error) => setHeightMapError(`Heightmap: ${err.message}`),
+    [],
+  );
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [surface, setSurface] = useState<{
+    body: string;
+    surface: TerrainQuery;
+  } | null>(null);
+  // Bumped to remount the capsule at a new start position
+  const [teleports, setTeleports] = useState(0);
 
+  const [controls, setControls] = useControls(() =>
+    withControlValues(PLANET_CONTROLS, initialState.controls),
+  );
   const {
+    view,
+    topology,
     minResolution,
     maxResolution,
     steps,
     stepGamma,
     radius,
+    lodMode,
+    maxScreenError,
+    culling,
+    shading,
     color,
     wireframe,
-    displacementScale,
-  } = useControls({
-    minResolution: {
-      value: 4,
-      min: 0,
-      max: 100,
-      step: 1,
-      label: 'Min Resolution',
-    },
-    maxResolution: {
-      value: 12,
-      min: 1,
-      max: 100,
-      step: 1,
-      label: 'Max Resolution',
-    },
-    steps: { value: 4, min: 1, max: 10, step: 1, label: 'Steps' },
-    stepGamma: {
-      value: 2.0,
-      min: 0.1,
-      max: 5.0,
-      step: 0.1,
-      label: 'Step Gamma',
+    terrain,
+    sampling,
+    minElevation,
+    maxElevation,
+    seaLevel,
+    exaggeration,
+    normalEpsilon,
+    normalMap,
+    displacement,
+    geomorph,
+    ocean,
+    capsuleAlign,
+    surfaceQuery,
+    body,
+  } = controls;
+
+  // The attached body's ground; the previous body's until it reports
+  const onSurfaceChange = useCallback(
+    (next: TerrainQuery) => setSurface({ body, surface: next }),
+    [body],
+  );
+  const bodySurface = surface?.body === body ? surface.surface : null;
+
+  const [procedural, setProcedural] = useControls(
+    'Procedural Terrain',
+    () => PROCEDURAL_CONTROLS,
+  );
+
+  const [character, setCharacter] = useControls(
+    'Character',
+    () => CHARACTER_CONTROLS,
+  );
+
+  const [quadtree, setQuadtree] = useControls(
+    'Quadtree',
+    () => QUADTREE_CONTROLS,
+  );
+
+  const [detail, setDetail] = useControls(
+    'Terrain Detail',
+    () => DETAIL_CONTROLS,
+  );
+  const { detailAmplitude, detailFrequency, ...compositeControls } = detail;
+
+  const [biome, setBiome] = useControls('Biomes', () => BIOME_CONTROLS);
+
+  const [orbits, setOrbits] = useControls('System', () => SYSTEM_CONTROLS);
+  // The panel's planet is the system's first body
+  const system = useMemo(
+    () => ({
+      bodies: DEFAULT_SYSTEM.bodies.map((description, i) =>
+        i === 0 ? { ...description, radius } : description,
+      ),
+    }),
+    [radius],
+  );
+  const attachedRadius =
+    system.bodies.find((description) => description.id === body)?.radius ??
+    radius;
+
+  const [sky, setSky] = useControls('Sun & Atmosphere', () => SKY_CONTROLS);
+  useControls(
+    'Sun & Atmosphere',
+    {
+      Now: button(() => {
+        const now = new Date();
+        setSky({
+          date: now.toISOString().slice(0, 10),
+          time: now.getUTCHours() + now.getUTCMinutes() / 60,
+        });
+      }),
     },
-    radius: { value: 10, min: 1, max: 10 },
-    displacementScale: { value: 1.0, min: 0, max: 5.0, step: 0.1 },
-    color: '#4169e1',
-    wireframe: true,
-  });
+    [setSky],
+  );
+  // A date that doesn't parse leaves the sun at its fixed position
+  const sunDate = sky.dayNight ? parseUtcDate(sky.date, sky.time) : null;
+  const sunDirection = sunDate ? getSunDirection(sunDate) : FIXED_SUN_DIRECTION;
+
+  // The button reads the settings when clicked, so they are never stale
+  useControls('Export', () => ({
+    ...EXPORT_CONTROLS,
+    Download: button((get) => {
+      const planet = planetRef.current;
+      const format: MeshExportFormat = get('Export.exportFormat');
+      // Cube-sphere leaves don't share vertices and crack where their depth
+      // changes, so a print always gets the watertight uniform icosphere
+      const uniform =
+        get('Export.exportMesh') === 'uniform' ||
+        (format === 'stl' && get('topology') === 'cubeSphere');
+      try {
+        const mesh = uniform
+          ? planet?.buildUniformMesh(get('Export.exportResolution'))
+          : planet?.getMesh();
+        if (!mesh) return;
+        const data = exportMesh(mesh, format, {
+          normals: get('Export.exportNormals'),
+          uvs: get('Export.exportUVs'),
+        });
+        downloadFile(data, `planet.${format}`, MESH_EXPORT_MIME_TYPES[format]);
+        setExportError(null);
+      } catch (err) {
+        setExportError(`Export: ${(err as Error).message}`);
+      }
+    }),
+  }));
+
+  // Mirror the view into the URL once it has stopped changing
+  const urlQuery = writeUrlState(
+    controls,
+    directionToLatLon(capsulePosition),
+    cameraPosition,
+  ).toString();
+  useEffect(() => {
+    if (urlQuery === searchParams.toString()) return;
+    const timer = setTimeout(
+      () =>
+        setSearchParams(new URLSearchParams(urlQuery), {
+          replace: true,
+          preventScrollReset: true,
+        }),
+      URL_SYNC_DELAY_MS,
+    );
+    return () => clearTimeout(timer);
+  }, [urlQuery, searchParams, setSearchParams]);
+
+  const goTo = (location: LatLon) => {
+    setCapsulePosition(latLonToDirection(location).multiplyScalar(radius));
+    setTeleports((count) => count + 1);
+  };
+
+  const capturePreset = (name: string) =>
+    createPreset(
+      name,
+      {
+        planet: controls,
+        procedural,
+        detail,
+        quadtree,
+        character,
+        biome,
+        sky,
+        system: orbits,
+      },
+      directionToLatLon(capsulePosition),
+      cameraPosition,
+    );
+
+  // Every control is set, so nothing from the previous view carries over
+  const applyPreset = (preset: PlanetPreset) => {
+    const planet = getPresetValues(preset, 'planet');
+    setControls(planet);
+    setProcedural(getPresetValues(preset, 'procedural'));
+    setDetail(getPresetValues(preset, 'detail'));
+    setQuadtree(getPresetValues(preset, 'quadtree'));
+    setCharacter(getPresetValues(preset, 'character'));
+    setBiome(getPresetValues(preset, 'biome'));
+    setSky(getPresetValues(preset, 'sky'));
+    setOrbits(getPresetValues(preset, 'system'));
+
+    setCapsulePosition(
+      latLonToDirection(preset.capsule ?? DEFAULT_CAPSULE).multiplyScalar(
+        planet.radius,
+      ),
+    );
+    setTeleports((count) => count + 1);
+
+    // Around the body the camera currently follows
+    const camera = preset.camera ?? DEFAULT_CAMERA;
+    const target = controlsRef.current?.target ?? new THREE.Vector3();
+    cameraRef.current?.position.set(...camera).add(target);
+    setCameraPosition(camera);
+  };
 
   return (
-    <div className="h-screen w-full bg-black">
+    <div className="relative h-screen w-full bg-black">
       <Canvas gl={{ antialias: true }}>
         <PerspectiveCamera
+          ref={cameraRef}
           makeDefault
-          position={[0, 20, 20]}
+          position={initialState.camera}
           near={0.01}
           far={1000}
         />
-        <OrbitControls target={[0, 0, 0]} enabled={controlsEnabled} />
-
-        <ambientLight intensity={0.5} />
-        <directionalLight position={[100, 100, 50]} intensity={1.5} />
-
-        <Planet
-          minDetail={minResolution}
-          maxDetail={maxResolution}
-          steps={steps}
-          stepGamma={stepGamma}
-          radius={radius}
-          color={color}
-          wireframe={wireframe}
-          position={[0, 0, 0]}
-          targetPosition={capsulePosition}
-          heightMapUrl={`${import.meta.env.BASE_URL}earth_maps/earth_height.png`}
-          displacementScale={displacementScale}
-        />
+        {view === 'orbit' && (
+          <OrbitControls
+            ref={controlsRef}
+            makeDefault
+            enabled={controlsEnabled}
+            onEnd={() => {
+              const camera = cameraRef.current;
+              const orbit = controlsRef.current;
+              if (camera && orbit) {
+                setCameraPosition(
+                  camera.position.clone().sub(orbit.target).toArray() as [
+                    number,
+                    number,
+                    number,
+                  ],
+                );
+              }
+            }}
+          />
+        )}
 
-        <DraggableCapsule
-          planetPosition={[0, 0, 0]}
-          planetRadius={radius}
-          onDragStart={() => setControlsEnabled(false)}
-          onDragEnd={() => setControlsEnabled(true)}
-          onPositionChange={setCapsulePosition}
+        {/* Night sides stay dark once the sun moves with the clock */}
+        <ambientLight intensity={sky.dayNight ? 0.04 : 0.5} />
+        <directionalLight
+          position={sunDirection.clone().multiplyScalar(SUN_DISTANCE)}
+          intensity={1.5}
         />
+
+        <PlanetSystem
+          system={system}
+          attachedTo={body}
+          timeScale={orbits.timeScale}
+          showOrbits={orbits.showOrbits}
+          planetProps={{
+            topology,
+            quadtree,
+            minDetail: minResolution,
+            maxDetail: maxResolution,
+            steps,
+            stepGamma,
+            biomeRamp: getBiomeRamp(biome),
+            wireframe,
+            maxScreenError,
+            culling,
+            sampling,
+            normalEpsilon,
+            normalMap,
+            displacement,
+            geomorph,
+            sunDirection,
+            onHeightMapError,
+            onMeshError,
+            atmosphereSettings: {
+              height: sky.atmosphereHeight,
+              rayleigh: sky.rayleigh,
+              mie: sky.mie,
+              sunIntensity: sky.sunIntensity,
+            },
+          }}
+          bodyProps={{
+            [system.bodies[0].id]: {
+              shading,
+              color,
+              albedoUrl: `${import.meta.env.BASE_URL}earth_maps/earth_albedo.jpg`,
+              heightMapUrl: `${import.meta.env.BASE_URL}earth_maps/earth_height.png`,
+              terrain,
+              procedural,
+              composite: {
+                ...compositeControls,
+                detail: {
+                  ...DEFAULT_COMPOSITE_TERRAIN.detail,
+                  amplitude: detailAmplitude,
+                  frequency: detailFrequency,
+                },
+              },
+              minElevation,
+              maxElevation,
+              seaLevel,
+              exaggeration,
+              ocean,
+              atmosphere: sky.atmosphere,
+              nightLightsUrl: sky.cityLights
+                ? `${import.meta.env.BASE_URL}earth_maps/earth_night.jpg`
+                : undefined,
+            },
+          }}
+          attachedProps={{
+            ref: planetRef,
+            targetPosition: capsulePosition,
+            lodMode,
+            onMeshStats,
+            onSurfaceChange,
+            surfaceQuery,
+          }}
+        >
+          {view === 'orbit' ? (
+            <DraggableCapsule
+              key={`${body}:${teleports}`}
+              planetPosition={[0, 0, 0]}
+              planetRadius={attachedRadius}
+              surface={bodySurface}
+              align={capsuleAlign}
+              startPosition={capsulePosition}
+              onDragStart={() => setControlsEnabled(false)}
+              onDragEnd={() => setControlsEnabled(true)}
+              onPositionChange={setCapsulePosition}
+            />
+          ) : (
+            bodySurface && (
+              <WalkingCharacter
+                key={`${body}:${teleports}`}
+                planetPosition={[0, 0, 0]}
+                surface={bodySurface}
+                view={view}
+                settings={character}
+                startPosition={capsulePosition}
+                onPositionChange={setCapsulePosition}
+              />
+            )
+          )}
+        </PlanetSystem>
       </Canvas>
+
+      <GeoHud
+        position={capsulePosition}
+        planetPosition={[0, 0, 0]}
+        surface={bodySurface}
+        onGoTo={goTo}
+      />
+
+      <PresetPanel capture={capturePreset} onApply={applyPreset} />
+
+      <div className="pointer-events-none absolute bottom-4 left-4 font-mono text-sm text-white">
+        {heightMapError && <div className="text-red-400">{heightMapError}</div>}
+        {meshError && <div className="text-red-400">{meshError}</div>}
+        {exportError && <div className="text-red-400">{exportError}</div>}
+        {meshStats && (
+          <div>
+            {meshStats.triangles.toLocaleString()} triangles,{' '}
+            {meshStats.vertices.toLocaleString()} vertices
+          </div>
+        )}
+      </div>
     </div>
   );
 }
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_ATMOSPHERE_SETTINGS,
+  createAtmosphereUniforms,
+  setAtmosphere,
+} from './atmosphere';
+
+function shell(radius: number, settings = DEFAULT_ATMOSPHERE_SETTINGS) {
+  const uniforms = createAtmosphereUniforms();
+  setAtmosphere(uniforms, radius, settings);
+  return uniforms;
+}
+
+describe('setAtmosphere', () => {
+  it('sizes the shell from the planet radius', () => {
+    const uniforms = shell(10);
+    expect(uniforms.planetRadius.value).toBe(10);
+    expect(uniforms.atmosphereRadius.value).toBeCloseTo(
+      10 * (1 + DEFAULT_ATMOSPHERE_SETTINGS.height),
+    );
+  });
+
+  it('keeps the optical depth of the Earth at any scale', () => {
+    // Vertical optical depth at sea level: scattering times scale height
+    const depth = (uniforms: ReturnType<typeof shell>) =>
+      uniforms.rayleighBeta.value.z * uniforms.rayleighHeight.value;
+    expect(depth(shell(1))).toBeCloseTo(depth(shell(250)));
+    expect(depth(shell(10))).toBeCloseTo(33.1e-6 * 8000);
+    expect(
+      depth(shell(10, { ...DEFAULT_ATMOSPHERE_SETTINGS, height: 0.4 })),
+    ).toBeCloseTo(depth(shell(10)));
+  });
+
+  it('scales Rayleigh and Mie scattering separately', () => {
+    const base = shell(10);
+    const hazy = shell(10, { ...DEFAULT_ATMOSPHERE_SETTINGS, mie: 3 });
+    expect(hazy.mieBeta.value).toBeCloseTo(base.mieBeta.value * 3);
+    expect(hazy.rayleighBeta.value).toEqual(base.rayleighBeta.value);
+  });
+});
@@ -0,0 +1,200 @@
+import * as THREE from 'three';
+
+/**
+ * ============================================================================
+ * ATMOSPHERE
+ * ============================================================================
+ * Single scattering of sunlight in a shell around the planet, after Nishita
+ * et al.: Rayleigh scattering by air molecules colours the sky blue and the
+ * sunset red, Mie scattering by aerosols adds haze and the glow around the
+ * sun. Both thin out exponentially with height. The shell is drawn behind
+ * everything else, like a sky dome: from orbit it shows as a glow around the
+ * limb, from the surface as the sky.
+ *
+ * Scale: the shell stands for Earth's 100 km of atmosphere whatever its
+ * scene thickness, so its optical depth, and with it the colours, stay
+ * Earth-like at any planet radius.
+ */
+
+export interface AtmosphereSettings {
+  /** Thickness of the shell as a fraction of the planet radius. */
+  height: number;
+  /** Multipliers of the Earth's Rayleigh and Mie scattering. */
+  rayleigh: number;
+  mie: number;
+  /** Henyey-Greenstein asymmetry of Mie scattering, toward the sun. */
+  mieAnisotropy: number;
+  sunIntensity: number;
+}
+
+export const DEFAULT_ATMOSPHERE_SETTINGS: AtmosphereSettings = {
+  height: 0.15,
+  rayleigh: 1,
+  mie: 1,
+  mieAnisotropy: 0.76,
+  sunIntensity: 20,
+};
+
+/** Sea-level scattering coefficients (1/m) and scale heights (m). */
+const EARTH_ATMOSPHERE = {
+  thickness: 100_000,
+  rayleighBeta: [5.8e-6, 13.5e-6, 33.1e-6],
+  mieBeta: 21e-6,
+  rayleighHeight: 8_000,
+  mieHeight: 1_200,
+};
+
+// A type rather than an interface, so it passes as a ShaderMaterial's uniforms
+export type AtmosphereUniforms = {
+  sunDirection: { value: THREE.Vector3 };
+  planetRadius: { value: number };
+  atmosphereRadius: { value: number };
+  /** Scattering coefficients per scene unit. */
+  rayleighBeta: { value: THREE.Vector3 };
+  mieBeta: { value: number };
+  /** Scale heights in scene units. */
+  rayleighHeight: { value: number };
+  mieHeight: { value: number };
+  mieAnisotropy: { value: number };
+  sunIntensity: { value: number };
+};
+
+export function createAtmosphereUniforms(): AtmosphereUniforms {
+  return {
+    sunDirection: { value: new THREE.Vector3(0, 1, 0) },
+    planetRadius: { value: 1 },
+    atmosphereRadius: { value: 1 },
+    rayleighBeta: { value: new THREE.Vector3() },
+    mieBeta: { value: 0 },
+    rayleighHeight: { value: 1 },
+    mieHeight: { value: 1 },
+    mieAnisotropy: { value: 0 },
+    sunIntensity: { value: 0 },
+  };
+}
+
+/** Writes the shell of a planet of `radius` into the uniforms. */
+export function setAtmosphere(
+  uniforms: AtmosphereUniforms,
+  radius: number,
+  settings: AtmosphereSettings,
+) {
+  const thickness = radius * Math.max(settings.height, 1e-3);
+  const metresPerUnit = EARTH_ATMOSPHERE.thickness / thickness;
+  const [r, g, b] = EARTH_ATMOSPHERE.rayleighBeta;
+
+  uniforms.planetRadius.value = radius;
+  uniforms.atmosphereRadius.value = radius + thickness;
+  uniforms.rayleighBeta.value
+    .set(r, g, b)
+    .multiplyScalar(settings.rayleigh * metresPerUnit);
+  uniforms.mieBeta.value =
+    EARTH_ATMOSPHERE.mieBeta * settings.mie * metresPerUnit;
+  uniforms.rayleighHeight.value =
+    EARTH_ATMOSPHERE.rayleighHeight / metresPerUnit;
+  uniforms.mieHeight.value = EARTH_ATMOSPHERE.mieHeight / metresPerUnit;
+  uniforms.mieAnisotropy.value = settings.mieAnisotropy;
+  uniforms.sunIntensity.value = settings.sunIntensity;
+}
+
+export const ATMOSPHERE_VERTEX_SHADER = `
+varying vec3 vWorldPosition;
+varying vec3 vCenter;
+
+void main() {
+  vWorldPosition = (modelMatrix * vec4(position, 1.0)).xyz;
+  vCenter = (modelMatrix * vec4(0.0, 0.0, 0.0, 1.0)).xyz;
+  gl_Position = projectionMatrix * viewMatrix * vec4(vWorldPosition, 1.0);
+}
+`;
+
+/**
+ * Marches the view ray through the shell, stopping at sea level, and at
+ * each sample marches toward the sun for the light that reaches it. Samples
+ * in the planet's shadow get no light, which gives the terminator its
+ * twilight band.
+ */
+export const ATMOSPHERE_FRAGMENT_SHADER = `
+#include <common>
+#define PRIMARY_STEPS 16
+#define LIGHT_STEPS 8
+uniform vec3 sunDirection;
+uniform float planetRadius;
+uniform float atmosphereRadius;
+uniform vec3 rayleighBeta;
+uniform float mieBeta;
+uniform float rayleighHeight;
+uniform float mieHeight;
+uniform float mieAnisotropy;
+uniform float sunIntensity;
+varying vec3 vWorldPosition;
+varying vec3 vCenter;
+
+// Distances along a ray to where it enters and leaves a sphere around the
+// origin; x > y if it misses
+vec2 raySphere(vec3 origin, vec3 dir, float radius) {
+  float b = dot(origin, dir);
+  float c = dot(origin, origin) - radius * radius;
+  float d = b * b - c;
+  if (d < 0.0) return vec2(1e9, -1e9);
+  d = sqrt(d);
+  return vec2(-b - d, -b + d);
+}
+
+void main() {
+  vec3 origin = cameraPosition - vCenter;
+  vec3 dir = normalize(vWorldPosition - cameraPosition);
+  vec3 sun = normalize(sunDirection);
+
+  vec2 shell = raySphere(origin, dir, atmosphereRadius);
+  vec2 ground = raySphere(origin, dir, planetRadius);
+  float start = max(shell.x, 0.0);
+  float end = shell.y;
+  if (ground.x < ground.y && ground.x > 0.0) end = min(end, ground.x);
+  if (end <= start) discard;
+
+  float ds = (end - start) / float(PRIMARY_STEPS);
+  vec3 sumR = vec3(0.0);
+  vec3 sumM = vec3(0.0);
+  float depthR = 0.0;
+  float depthM = 0.0;
+  for (int i = 0; i < PRIMARY_STEPS; i++) {
+    vec3 p = origin + dir * (start + (float(i) + 0.5) * ds);
+    float h = max(length(p) - planetRadius, 0.0);
+    float densityR = exp(-h / rayleighHeight) * ds;
+    float densityM = exp(-h / mieHeight) * ds;
+    depthR += densityR;
+    depthM += densityM;
+
+    vec2 shadow = raySphere(p, sun, planetRadius);
+    if (shadow.x < shadow.y && shadow.x > 0.0) continue;
+
+    float ls = raySphere(p, sun, atmosphereRadius).y / float(LIGHT_STEPS);
+    float lightR = 0.0;
+    float lightM = 0.0;
+    for (int j = 0; j < LIGHT_STEPS; j++) {
+      vec3 q = p + sun * ((float(j) + 0.5) * ls);
+      float hq = max(length(q) - planetRadius, 0.0);
+      lightR += exp(-hq / rayleighHeight) * ls;
+      lightM += exp(-hq / mieHeight) * ls;
+    }
+    vec3 attenuation = exp(
+      -(rayleighBeta * (depthR + lightR) + mieBeta * 1.1 * (depthM + lightM))
+    );
+    sumR += densityR * attenuation;
+    sumM += densityM * attenuation;
+  }
+
+  float mu = dot(dir, sun);
+  float g = mieAnisotropy;
+  float phaseR = 3.0 / (16.0 * PI) * (1.0 + mu * mu);
+  float phaseM = 3.0 / (8.0 * PI) * ((1.0 - g * g) * (1.0 + mu * mu)) /
+    ((2.0 + g * g) * pow(1.0 + g * g - 2.0 * g * mu, 1.5));
+  vec3 color =
+    sunIntensity * (sumR * rayleighBeta * phaseR + sumM * mieBeta * phaseM);
+
+  // Exposure, so the glow saturates instead of clipping
+  gl_FragColor = vec4(1.0 - exp(-color), 1.0);
+  #include <colorspace_fragment>
+}
+`;
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import {
+  DEFAULT_CHARACTER_SETTINGS,
+  createCharacterState,
+  stepCharacter,
+} from './characterController';
+import type { CharacterInput, CharacterState } from './characterController';
+import type { PlanetSurface } from './planetSurface';
+
+// Ground of the given radius along each direction; normals don't matter here
+function groundOf(radiusAt: (dir: THREE.Vector3) => number): PlanetSurface {
+  return {
+    elevationAt: () => 0,
+    radiusAt,
+    normalAt: (dir, out = new THREE.Vector3()) => out.copy(dir),
+    raycast: () => null,
+  };
+}
+
+const settings = DEFAULT_CHARACTER_SETTINGS;
+const idle: CharacterInput = { forward: 0, turn: 0, jump: false };
+const walk: CharacterInput = { forward: 1, turn: 0, jump: false };
+const DT = 1 / 60;
+
+function run(
+  state: CharacterState,
+  input: CharacterInput,
+  surface: PlanetSurface,
+  seconds: number,
+) {
+  for (let t = 0; t < seconds; t += DT) {
+    stepCharacter(state, input, surface, settings, DT);
+  }
+}
+
+describe('stepCharacter', () => {
+  const flat = groundOf(() => 10);
+  const top = new THREE.Vector3(0, 1, 0);
+
+  it('walks along the ground at walking speed', () => {
+    const state = createCharacterState(flat, top);
+    run(state, walk, flat, 1);
+    expect(state.grounded).toBe(true);
+    expect(state.position.length()).toBeCloseTo(10, 6);
+    const arc = 10 * state.position.clone().normalize().angleTo(top);
+    expect(arc).toBeCloseTo(settings.walkSpeed, 1);
+  });
+
+  it('keeps the heading tangent and unit length', () => {
+    const state = createCharacterState(flat, top);
+    run(state, { forward: 1, turn: 1, jump: false }, flat, 3);
+    const up = state.position.clone().normalize();
+    expect(state.heading.length()).toBeCloseTo(1, 6);
+    expect(state.heading.dot(up)).toBeCloseTo(0, 6);
+  });
+
+  it('jumps and lands back on the ground under gravity', () => {
+    const state = createCharacterState(flat, top);
+    stepCharacter(state, { ...idle, jump: true }, flat, settings, DT);
+    expect(state.grounded).toBe(false);
+
+    let airtime = DT;
+    let peak = 0;
+    while (!state.grounded && airtime < 5) {
+      stepCharacter(state, idle, flat, settings, DT);
+      peak = Math.max(peak, state.position.length() - 10);
+      airtime += DT;
+    }
+    expect(state.grounded).toBe(true);
+    expect(state.position.length()).toBe(10);
+    const { jumpSpeed, gravity } = settings;
+    expect(airtime).toBeCloseTo((2 * jumpSpeed) / gravity, 1);
+    expect(peak).toBeCloseTo(jumpSpeed ** 2 / (2 * gravity), 1);
+  });
+
+  it('is stopped by ground steeper than the slope limit', () => {
+    // A wall 1 unit high a short walk away from the top
+    const wall = groundOf((dir) => (dir.z < -0.2 ? 11 : 10));
+    const state = createCharacterState(wall, top);
+    run(state, walk, wall, 2);
+    expect(state.position.length()).toBe(10);
+    expect(state.position.z).toBeGreaterThanOrEqual(-2);
+  });
+
+  it('walks up gentle slopes', () => {
+    // Rising 0.1 units per unit walked toward -z
+    const ramp = groundOf((dir) => 10 + Math.max(0, -dir.z));
+    const state = createCharacterState(ramp, top);
+    run(state, walk, ramp, 1);
+    expect(state.grounded).toBe(true);
+    const dir = state.position.clone().normalize();
+    expect(state.position.length()).toBeCloseTo(ramp.radiusAt(dir), 6);
+    expect(dir.z).toBeLessThan(-0.2);
+  });
+
+  it('falls off ledges onto the ground below', () => {
+    const ledge = groundOf((dir) => (dir.z < -0.2 ? 9 : 10));
+    const state = createCharacterState(ledge, top);
+    run(state, walk, ledge, 0.8);
+    expect(state.grounded).toBe(false);
+    run(state, idle, ledge, 1);
+    expect(state.grounded).toBe(true);
+    expect(state.position.length()).toBe(9);
+  });
+});
@@ -0,0 +1,156 @@
+import * as THREE from 'three';
+import type { PlanetSurface } from './planetSurface';
+
+/**
+ * ============================================================================
+ * CHARACTER CONTROLLER
+ * ============================================================================
+ * Walking on the planet under spherical gravity. The character is a point at
+ * its feet, in the planet's local space: it moves along great circles in the
+ * direction it faces, falls toward the centre while airborne and collides
+ * with the terrain height field (see PlanetSurface). Ground that rises more
+ * steeply than the slope limit blocks the way. Pure and frame-rate agnostic,
+ * so it can be stepped from useFrame or from tests alike.
+ */
+
+export interface CharacterSettings {
+  /** Walking speed, in scene units per second. */
+  walkSpeed: number;
+  /** Turning speed, in radians per second. */
+  turnSpeed: number;
+  /** Take-off speed of a jump, in scene units per second. */
+  jumpSpeed: number;
+  /** Acceleration toward the planet centre, in scene units per second². */
+  gravity: number;
+  /** Steepest ground (degrees) the character can walk up. */
+  maxSlope: number;
+  /** Largest drop (scene units) walked down without leaving the ground. */
+  stepDown: number;
+}
+
+export const DEFAULT_CHARACTER_SETTINGS: CharacterSettings = {
+  walkSpeed: 3,
+  turnSpeed: 2,
+  jumpSpeed: 4,
+  gravity: 9.8,
+  maxSlope: 45,
+  stepDown: 0.1,
+};
+
+/** Movement requested for one step, e.g. from the keyboard. */
+export interface CharacterInput {
+  /** Walk forward (1) or backward (-1). */
+  forward: number;
+  /** Turn right (1) or left (-1). */
+  turn: number;
+  jump: boolean;
+}
+
+export interface CharacterState {
+  /** Feet position, relative to the planet centre. */
+  position: THREE.Vector3;
+  /** Unit facing direction, kept tangent to the sphere. */
+  heading: THREE.Vector3;
+  /** Speed away from the planet centre while airborne. */
+  verticalSpeed: number;
+  grounded: boolean;
+}
+
+const X_AXIS = new THREE.Vector3(1, 0, 0);
+const Z_AXIS = new THREE.Vector3(0, 0, 1);
+const up = new THREE.Vector3();
+const next = new THREE.Vector3();
+
+/** Removes the radial part of `heading` so it stays tangent at `up`. */
+function alignHeading(heading: THREE.Vector3, up: THREE.Vector3) {
+  heading.addScaledVector(up, -heading.dot(up));
+  // Facing straight up or down has no tangent part left, pick any
+  if (heading.lengthSq() < 1e-12) {
+    heading.crossVectors(Math.abs(up.x) < 0.9 ? X_AXIS : Z_AXIS, up);
+  }
+  heading.normalize();
+}
+
+/** A character standing on the ground along the unit direction `dir`. */
+export function createCharacterState(
+  surface: PlanetSurface,
+  dir: THREE.Vector3,
+): CharacterState {
+  const heading = new THREE.Vector3(0, 0, -1);
+  alignHeading(heading, dir);
+  return {
+    position: dir.clone().multiplyScalar(surface.radiusAt(dir)),
+    heading,
+    verticalSpeed: 0,
+    grounded: true,
+  };
+}
+
+/** Advances `state` by `dt` seconds, in place. */
+export function stepCharacter(
+  state: CharacterState,
+  input: CharacterInput,
+  surface: PlanetSurface,
+  settings: CharacterSettings,
+  dt: number,
+) {
+  const { position, heading } = state;
+  up.copy(position).normalize();
+
+  // Turning spins the heading about the local vertical
+  heading.applyAxisAngle(up, -input.turn * settings.turnSpeed * dt);
+
+  // Walking moves along the great circle through the heading
+  const distance = input.forward * settings.walkSpeed * dt;
+  if (distance !== 0) {
+    const radius = position.length();
+    const angle = distance / radius;
+    next
+      .copy(up)
+      .multiplyScalar(Math.cos(angle))
+      .addScaledVector(heading, Math.sin(angle))
+      .normalize();
+
+    const rise = surface.radiusAt(next) - radius;
+    const slope = THREE.MathUtils.radToDeg(
+      Math.atan2(rise, Math.abs(distance)),
+    );
+    const blocked = state.grounded && slope > settings.maxSlope;
+    if (!blocked) {
+      // Carry the heading along so it keeps pointing the same way
+      heading
+        .multiplyScalar(Math.cos(angle))
+        .addScaledVector(up, -Math.sin(angle));
+      position.copy(next).multiplyScalar(radius);
+      up.copy(next);
+    }
+  }
+
+  if (state.grounded && input.jump) {
+    state.grounded = false;
+    state.verticalSpeed = settings.jumpSpeed;
+  }
+
+  const ground = surface.radiusAt(up);
+  let radius = position.length();
+  if (state.grounded) {
+    // Follow the ground down gentle drops, fall off anything steeper
+    if (radius - ground > settings.stepDown) {
+      state.grounded = false;
+      state.verticalSpeed = 0;
+    } else {
+      radius = ground;
+    }
+  } else {
+    state.verticalSpeed -= settings.gravity * dt;
+    radius += state.verticalSpeed * dt;
+    if (radius <= ground) {
+      radius = ground;
+      state.verticalSpeed = 0;
+      state.grounded = true;
+    }
+  }
+
+  position.copy(up).multiplyScalar(radius);
+  alignHeading(heading, up);
+}
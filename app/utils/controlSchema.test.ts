@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkControlValue,
+  describeControl,
+  getControlDefault,
+  withControlValues,
+} from './controlSchema';
+
+const schema = {
+  radius: { value: 10, min: 1, max: 10 },
+  steps: { value: 4, min: 1, max: 10, step: 1, label: 'Steps' },
+  mode: { value: 'distance', options: ['distance', 'screenSpace'] },
+  view: { value: 'orbit', options: { Orbit: 'orbit', Walk: 'walk' } },
+  wireframe: false,
+  color: '#4169e1',
+  name: 'earth',
+};
+
+describe('checkControlValue', () => {
+  it('accepts values of the right type', () => {
+    expect(checkControlValue(schema.radius, 5)).toBe(5);
+    expect(checkControlValue(schema.mode, 'screenSpace')).toBe('screenSpace');
+    expect(checkControlValue(schema.view, 'walk')).toBe('walk');
+    expect(checkControlValue(schema.wireframe, true)).toBe(true);
+    expect(checkControlValue(schema.color, '#00FF00')).toBe('#00FF00');
+    expect(checkControlValue(schema.name, 'mars')).toBe('mars');
+  });
+
+  it('clamps numbers to the control range', () => {
+    expect(checkControlValue(schema.radius, 0)).toBe(1);
+    expect(checkControlValue(schema.steps, 100)).toBe(10);
+  });
+
+  it('snaps numbers to the control step from its minimum', () => {
+    expect(checkControlValue(schema.steps, 3.4)).toBe(3);
+    expect(checkControlValue({ value: 0.5, min: 0.1, step: 0.2 }, 0.62)).toBe(
+      0.7,
+    );
+    expect(
+      checkControlValue({ value: 1, min: 0, max: 1.5, step: 1 }, 1.5),
+    ).toBe(1);
+  });
+
+  it('rejects wrong types, unknown options and non-colours', () => {
+    expect(checkControlValue(schema.radius, '5')).toBeUndefined();
+    expect(checkControlValue(schema.radius, NaN)).toBeUndefined();
+    expect(checkControlValue(schema.mode, 'fastest')).toBeUndefined();
+    expect(checkControlValue(schema.view, 'Walk')).toBeUndefined();
+    expect(checkControlValue(schema.wireframe, 1)).toBeUndefined();
+    expect(checkControlValue(schema.color, 'red')).toBeUndefined();
+  });
+});
+
+describe('control helpers', () => {
+  it('reads defaults of both control shapes', () => {
+    expect(getControlDefault(schema.radius)).toBe(10);
+    expect(getControlDefault(schema.wireframe)).toBe(false);
+  });
+
+  it('describes what a control accepts', () => {
+    expect(describeControl(schema.radius)).toBe('a number');
+    expect(describeControl(schema.view)).toBe('one of "orbit", "walk"');
+    expect(describeControl(schema.wireframe)).toBe('true or false');
+    expect(describeControl(schema.color)).toMatch(/colour/);
+  });
+});
+
+describe('withControlValues', () => {
+  it('replaces defaults and keeps the rest of each control', () => {
+    const result = withControlValues(schema, { steps: 2, wireframe: true });
+    expect(result.steps).toEqual({ ...schema.steps, value: 2 });
+    expect(result.wireframe).toBe(true);
+    expect(result.radius).toBe(schema.radius);
+  });
+});
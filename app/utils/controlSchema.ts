@@ -0,0 +1,117 @@
+import * as THREE from 'three';
+
+/**
+ * ============================================================================
+ * CONTROL SCHEMA
+ * ============================================================================
+ * Validation of control values against the Leva schema that declares the
+ * controls, for values that come from outside the panel (URLs, preset
+ * files). Numbers are clamped to their slider range and snapped to its
+ * step, so integer controls stay integers; options must be one of
+ * the listed values and colours must stay colours.
+ */
+
+/** The Leva input shapes that can be stored outside the panel. */
+export type ControlSpec =
+  | number
+  | boolean
+  | string
+  | {
+      value: number | boolean | string;
+      min?: number;
+      max?: number;
+      step?: number;
+      options?: readonly string[] | Record<string, string>;
+    };
+
+export type ControlSchema = Record<string, ControlSpec>;
+
+export type ControlValues<S extends ControlSchema> = {
+  [K in keyof S]: S[K] extends { value: infer V } ? V : S[K];
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export function getControlDefault(spec: ControlSpec) {
+  return typeof spec === 'object' ? spec.value : spec;
+}
+
+function getOptions(spec: ControlSpec) {
+  const options = typeof spec === 'object' ? spec.options : undefined;
+  if (!options) return null;
+  return Array.isArray(options) ? options : Object.values(options);
+}
+
+/**
+ * `value` as a valid value of the control, or undefined if it has the wrong
+ * type or isn't one of the options.
+ */
+export function checkControlValue(
+  spec: ControlSpec,
+  value: unknown,
+): string | number | boolean | undefined {
+  const fallback = getControlDefault(spec);
+  const options = getOptions(spec);
+
+  if (options) {
+    return typeof value === 'string' && options.includes(value)
+      ? value
+      : undefined;
+  }
+  if (typeof fallback === 'boolean') {
+    return typeof value === 'boolean' ? value : undefined;
+  }
+  if (typeof fallback === 'number') {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+    const min = typeof spec === 'object' ? (spec.min ?? -Infinity) : -Infinity;
+    const max = typeof spec === 'object' ? (spec.max ?? Infinity) : Infinity;
+    const step = typeof spec === 'object' ? spec.step : undefined;
+    const clamped = THREE.MathUtils.clamp(value, min, max);
+    return step ? snapToStep(clamped, step, min, max) : clamped;
+  }
+  if (typeof value !== 'string') return undefined;
+  // Colours have to stay colours, other strings pass as they are
+  if (HEX_COLOR.test(fallback))
+    return HEX_COLOR.test(value) ? value : undefined;
+  return value;
+}
+
+// The nearest value min + n * step within the range, without float noise
+// like 0.30000000000000004
+function snapToStep(value: number, step: number, min: number, max: number) {
+  const origin = Number.isFinite(min) ? min : 0;
+  let snapped = origin + Math.round((value - origin) / step) * step;
+  if (snapped > max) snapped -= step;
+  const decimals = Math.max(
+    (String(step).split('.')[1] ?? '').length,
+    (String(origin).split('.')[1] ?? '').length,
+  );
+  return Number(snapped.toFixed(decimals));
+}
+
+/** What a control accepts, for error messages. */
+export function describeControl(spec: ControlSpec) {
+  const fallback = getControlDefault(spec);
+  const options = getOptions(spec);
+  if (options) return `one of ${options.map((o) => `"${o}"`).join(', ')}`;
+  if (typeof fallback === 'boolean') return 'true or false';
+  if (typeof fallback === 'number') return 'a number';
+  if (HEX_COLOR.test(fallback)) return 'a colour like "#4169e1"';
+  return 'a string';
+}
+
+/** The schema with its default values replaced by `values`. */
+export function withControlValues<S extends ControlSchema>(
+  schema: S,
+  values: Partial<ControlValues<S>>,
+): S {
+  const result: ControlSchema = { ...schema };
+  for (const key of Object.keys(values)) {
+    const spec = schema[key];
+    result[key] =
+      typeof spec === 'object'
+        ? { ...spec, value: values[key] as string | number | boolean }
+        : (values[key] as string | number | boolean);
+  }
+  return result as S;
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { CubeSphereMesher, buildCubeSphereMesh } from './cubeSphereMesher';
+import type { CubeSphereMeshParams } from './cubeSphereMesher';
+import type { PlanetMeshData } from './planetMesher';
+import { DEFAULT_ELEVATION_SETTINGS } from './elevation';
+import { DEFAULT_NORMAL_EPSILON } from './terrainNormals';
+
+const baseParams: CubeSphereMeshParams = {
+  radius: 10,
+  center: [0, 0, 0],
+  target: [0, 10.7, 0],
+  elevation: { ...DEFAULT_ELEVATION_SETTINGS, exaggeration: 0 },
+  terrain: { type: 'heightmap', sampling: 'bilinear' },
+  normalEpsilon: DEFAULT_NORMAL_EPSILON,
+  quadtree: { minDepth: 1, maxDepth: 4, patchResolution: 4, splitFactor: 1.5 },
+};
+
+// Corners of triangle t
+function triangle({ positions, indices }: PlanetMeshData, t: number) {
+  return [0, 1, 2].map((c) =>
+    new THREE.Vector3().fromArray(positions, indices[t * 3 + c] * 3),
+  );
+}
+
+// Triangles with every corner on the sphere, i.e. not part of a skirt
+function surfaceTriangles(mesh: PlanetMeshData, radius: number) {
+  const triangles: THREE.Vector3[][] = [];
+  for (let t = 0; t < mesh.indices.length / 3; t++) {
+    const corners = triangle(mesh, t);
+    if (corners.every((p) => Math.abs(p.length() - radius) < 1e-4)) {
+      triangles.push(corners);
+    }
+  }
+  return triangles;
+}
+
+const area = ([a, b, c]: THREE.Vector3[]) =>
+  new THREE.Vector3()
+    .subVectors(b, a)
+    .cross(new THREE.Vector3().subVectors(c, a))
+    .length() / 2;
+
+describe('buildCubeSphereMesh', () => {
+  it('splits every face down to the minimum depth', () => {
+    const n = 4;
+    const mesh = buildCubeSphereMesh(
+      {
+        ...baseParams,
+        quadtree: { ...baseParams.quadtree, minDepth: 2, maxDepth: 2 },
+      },
+      null,
+    );
+    const leaves = 6 * 4 ** 2;
+    // Grid cells plus a skirt quad per border cell
+    expect(mesh.indices.length / 3).toBe(leaves * (2 * n * n + 2 * 4 * n));
+    expect(surfaceTriangles(mesh, 10)).toHaveLength(leaves * 2 * n * n);
+  });
+
+  it('faces every surface triangle outward', () => {
+    const mesh = buildCubeSphereMesh(baseParams, null);
+    for (const [a, b, c] of surfaceTriangles(mesh, 10)) {
+      const normal = new THREE.Vector3()
+        .subVectors(b, a)
+        .cross(new THREE.Vector3().subVectors(c, a));
+      const centroid = a.clone().add(b).add(c);
+      expect(normal.dot(centroid)).toBeGreaterThan(0);
+    }
+  });
+
+  it('refines leaves around the target', () => {
+    const mesh = buildCubeSphereMesh(baseParams, null);
+    const near: number[] = [];
+    const far: number[] = [];
+    for (const corners of surfaceTriangles(mesh, 10)) {
+      if (corners[0].y > 9.9) near.push(area(corners));
+      if (corners[0].y < -9.9) far.push(area(corners));
+    }
+    // Three levels deeper, so cells a 64th of the size
+    expect(Math.max(...near) * 16).toBeLessThan(Math.min(...far));
+
+    const coarse = buildCubeSphereMesh(
+      {
+        ...baseParams,
+        quadtree: { ...baseParams.quadtree, maxDepth: 1 },
+      },
+      null,
+    );
+    expect(mesh.indices.length).toBeGreaterThan(coarse.indices.length);
+  });
+
+  it('hangs skirts below the surface along leaf borders', () => {
+    const mesh = buildCubeSphereMesh(baseParams, null);
+    let below = 0;
+    for (let i = 0; i < mesh.positions.length; i += 3) {
+      const r = Math.hypot(
+        mesh.positions[i],
+        mesh.positions[i + 1],
+        mesh.positions[i + 2],
+      );
+      expect(r).toBeLessThanOrEqual(10 + 1e-4);
+      if (r < 10 - 1e-4) below++;
+    }
+    expect(below).toBeGreaterThan(0);
+  });
+
+  it('puts every skirt triangle after the surface', () => {
+    const mesh = buildCubeSphereMesh(baseParams, null);
+    const skirtStart = mesh.skirtStart!;
+    const surface = surfaceTriangles(mesh, 10).length;
+    expect(skirtStart).toBe(surface * 3);
+    expect(mesh.indices.length).toBeGreaterThan(skirtStart);
+    for (let t = skirtStart / 3; t < mesh.indices.length / 3; t++) {
+      const below = triangle(mesh, t).some((p) => p.length() < 10 - 1e-4);
+      expect(below).toBe(true);
+    }
+  });
+
+  it('matches a fresh build after the target moves', () => {
+    const mesher = new CubeSphereMesher();
+    mesher.build(baseParams, null);
+    const moved = {
+      ...baseParams,
+      target: [7, 7, 3] as [number, number, number],
+    };
+    const cached = mesher.build(moved, null);
+    const fresh = buildCubeSphereMesh(moved, null);
+    expect(cached.positions).toEqual(fresh.positions);
+    expect(cached.normals).toEqual(fresh.normals);
+    expect(cached.indices).toEqual(fresh.indices);
+  });
+
+  it('drops cached leaves the quadtree merged away', () => {
+    const mesher = new CubeSphereMesher();
+    const moved = {
+      ...baseParams,
+      target: [0, -10.7, 0] as [number, number, number],
+    };
+    mesher.build(baseParams, null);
+    const before = mesher.getCachedLeafCount();
+    mesher.build(moved, null);
+    const fresh = new CubeSphereMesher();
+    fresh.build(moved, null);
+    expect(mesher.getCachedLeafCount()).toBe(fresh.getCachedLeafCount());
+    mesher.build(baseParams, null);
+    expect(mesher.getCachedLeafCount()).toBe(before);
+  });
+
+  it('leaves vertices unmorphed', () => {
+    const mesh = buildCubeSphereMesh(baseParams, null);
+    expect(mesh.parentPositions).toEqual(mesh.positions);
+    expect(mesh.morphLevels.every((level) => level === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,325 @@
+import * as THREE from 'three';
+import type { HeightMapData } from './heightmap';
+import { elevationToDisplacement } from './elevation';
+import { createHeightSource } from './heightSource';
+import type { PlanetMeshData, PlanetMeshParams } from './planetMesher';
+import { CUBE_FACES, projectToSphere } from './sphereProjection';
+import type { CubeFace } from './sphereProjection';
+import { getElevationGradient, getTerrainNormal } from './terrainNormals';
+import type { HeightField } from './terrainNormals';
+
+/**
+ * ============================================================================
+ * CUBE-SPHERE QUADTREE MESHER
+ * ============================================================================
+ * The second planet topology, for comparing against the icosphere on the
+ * same terrain. Each of the six cube faces of projectToSphere is the root of
+ * a quadtree: nodes split while the target is close compared to their size
+ * and merge back once it moves away. Every leaf is a regular grid patch.
+ * Neighbouring leaves at different depths don't share their border
+ * vertices, so each leaf hangs a skirt below its border to hide the cracks.
+ */
+
+export interface QuadtreeSettings {
+  /** Depth every face is split to, wherever the target is. */
+  minDepth: number;
+  maxDepth: number;
+  /** Grid cells along each side of a leaf patch. */
+  patchResolution: number;
+  /** Split a node while the target is within this many node sizes of it. */
+  splitFactor: number;
+}
+
+export const DEFAULT_QUADTREE_SETTINGS: QuadtreeSettings = {
+  minDepth: 1,
+  maxDepth: 6,
+  patchResolution: 16,
+  splitFactor: 1.5,
+};
+
+export interface CubeSphereMeshParams extends Pick<
+  PlanetMeshParams,
+  'radius' | 'center' | 'target' | 'elevation' | 'terrain' | 'normalEpsilon'
+> {
+  quadtree: QuadtreeSettings;
+}
+
+// Skirt depth in grid cells of the leaf it hangs from
+const SKIRT_CELLS = 2;
+
+/** A cached leaf patch: its grid and skirt, with leaf-local indices. */
+interface LeafChunk {
+  positions: number[];
+  normals: number[];
+  indices: number[];
+  /** Where the skirt triangles start in `indices`. */
+  skirtStart: number;
+}
+
+/** A quadtree node: cell (x, y) of a 2^depth by 2^depth split of a face. */
+interface QuadNode {
+  face: CubeFace;
+  depth: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Leaf Patch Generation
+ * Builds the (n + 1)^2 vertex grid of a leaf, then walks its border
+ * counter-clockwise (seen from outside) to add the skirt.
+ */
+function processLeaf(
+  { face, depth, x, y }: QuadNode,
+  n: number,
+  radius: number,
+  sample: (dir: THREE.Vector3, normal: THREE.Vector3) => number,
+): LeafChunk {
+  const chunk: LeafChunk = {
+    positions: [],
+    normals: [],
+    indices: [],
+    skirtStart: 0,
+  };
+  const size = 2 / 2 ** depth;
+  const u0 = -1 + x * size;
+  const v0 = -1 + y * size;
+  const radii: number[] = [];
+  const dirs: THREE.Vector3[] = [];
+  const normal = new THREE.Vector3();
+
+  for (let i = 0; i <= n; i++) {
+    for (let j = 0; j <= n; j++) {
+      const dir = projectToSphere(
+        u0 + (i / n) * size,
+        v0 + (j / n) * size,
+        1,
+        face,
+      );
+      const r = sample(dir, normal);
+      chunk.positions.push(dir.x * r, dir.y * r, dir.z * r);
+      chunk.normals.push(normal.x, normal.y, normal.z);
+      radii.push(r);
+      dirs.push(dir);
+    }
+  }
+
+  // Every projectToSphere face maps (u, v) to an inward-facing frame, so
+  // (i, j) -> (i, j + 1) -> (i + 1, j) runs counter-clockwise from outside
+  const index = (i: number, j: number) => i * (n + 1) + j;
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      const a = index(i, j);
+      const b = index(i + 1, j);
+      const c = index(i, j + 1);
+      const d = index(i + 1, j + 1);
+      chunk.indices.push(a, c, b, b, c, d);
+    }
+  }
+
+  // Skirt: a wall hanging below the border, facing away from the leaf
+  chunk.skirtStart = chunk.indices.length;
+  const border: number[] = [];
+  for (let j = 0; j < n; j++) border.push(index(0, j));
+  for (let i = 0; i < n; i++) border.push(index(i, n));
+  for (let j = n; j > 0; j--) border.push(index(n, j));
+  for (let i = n; i > 0; i--) border.push(index(i, 0));
+
+  const cell = (radius * (Math.PI / 2) * size) / 2 / n;
+  const skirtStart = chunk.positions.length / 3;
+  for (const top of border) {
+    const r = radii[top] - SKIRT_CELLS * cell;
+    const dir = dirs[top];
+    chunk.positions.push(dir.x * r, dir.y * r, dir.z * r);
+    chunk.normals.push(...chunk.normals.slice(top * 3, top * 3 + 3));
+  }
+  for (let e = 0; e < border.length; e++) {
+    const next = (e + 1) % border.length;
+    const p = border[e];
+    const q = border[next];
+    const pSkirt = skirtStart + e;
+    const qSkirt = skirtStart + next;
+    chunk.indices.push(p, pSkirt, q, q, pSkirt, qSkirt);
+  }
+
+  return chunk;
+}
+
+/**
+ * ============================================================================
+ * CUBE-SPHERE MESHER
+ * ============================================================================
+ * Leaves are cached across builds by their quadtree address, so moving the
+ * target only generates the leaves that split or merged. The cache only
+ * keeps the leaves of the last build: quadtree addresses are unbounded, so
+ * leaves that merged away are dropped rather than kept for a return that
+ * may never come. Anything that changes every vertex drops the cache.
+ */
+export class CubeSphereMesher {
+  private leaves = new Map<string, LeafChunk>();
+  private surfaceKey = '';
+  private surfaceHeightMap: HeightMapData | null = null;
+
+  /**
+   * Builds the mesh, yielding after every leaf that had to be generated so
+   * the caller can spread the work over several tasks.
+   */
+  *generate(
+    params: CubeSphereMeshParams,
+    heightMapData: HeightMapData | null,
+  ): Generator<void, PlanetMeshData, void> {
+    const { radius, elevation, terrain, normalEpsilon, quadtree } = params;
+    const { minDepth, maxDepth, patchResolution, splitFactor } = quadtree;
+    const n = Math.max(1, Math.round(patchResolution));
+
+    const surfaceKey = JSON.stringify([
+      radius,
+      elevation,
+      terrain,
+      normalEpsilon,
+      n,
+    ]);
+    if (
+      surfaceKey !== this.surfaceKey ||
+      heightMapData !== this.surfaceHeightMap
+    ) {
+      this.leaves.clear();
+      this.surfaceKey = surfaceKey;
+      this.surfaceHeightMap = heightMapData;
+    }
+
+    // Surface radius and height-field normal at a direction, see
+    // PlanetMesher. Leaves are always built at full LOD-faded detail.
+    const source = createHeightSource(terrain, heightMapData, elevation);
+    const height: HeightField = (dir) => (source ? source.heightAt(dir) : 0);
+    const angle = normalEpsilon / radius;
+    const gradient = new THREE.Vector3();
+    const sample = (dir: THREE.Vector3, normal: THREE.Vector3) => {
+      const h = height(dir);
+      getElevationGradient(height, dir, angle, gradient);
+      getTerrainNormal(dir, h, gradient, elevation, radius, normal);
+      return radius + elevationToDisplacement(h, elevation, radius);
+    };
+
+    const planetCenter = new THREE.Vector3(...params.center);
+    // Default to top of sphere if no target provided
+    const target = params.target
+      ? new THREE.Vector3(...params.target)
+      : new THREE.Vector3(0, radius, 0);
+
+    // A node splits while the target is near compared to its arc length
+    const shouldSplit = ({ face, depth, x, y }: QuadNode) => {
+      if (depth < minDepth) return true;
+      if (depth >= maxDepth) return false;
+      const size = 2 / 2 ** depth;
+      const center = projectToSphere(
+        -1 + (x + 0.5) * size,
+        -1 + (y + 0.5) * size,
+        1,
+        face,
+      )
+        .multiplyScalar(radius)
+        .add(planetCenter);
+      const nodeSize = (radius * (Math.PI / 2)) / 2 ** depth;
+      return center.distanceTo(target) < splitFactor * nodeSize;
+    };
+
+    // The leaves of this build by address, in mesh order
+    const leaves = new Map<string, LeafChunk>();
+    const cache = this.leaves;
+
+    function* collect(node: QuadNode): Generator<void, void, void> {
+      if (shouldSplit(node)) {
+        for (const [dx, dy] of [
+          [0, 0],
+          [1, 0],
+          [0, 1],
+          [1, 1],
+        ]) {
+          yield* collect({
+            face: node.face,
+            depth: node.depth + 1,
+            x: node.x * 2 + dx,
+            y: node.y * 2 + dy,
+          });
+        }
+        return;
+      }
+      const key = `${node.face}:${node.depth}:${node.x}:${node.y}`;
+      let leaf = cache.get(key);
+      if (!leaf) {
+        leaf = processLeaf(node, n, radius, sample);
+        cache.set(key, leaf);
+        yield;
+      }
+      leaves.set(key, leaf);
+    }
+
+    for (const face of CUBE_FACES) {
+      yield* collect({ face, depth: 0, x: 0, y: 0 });
+    }
+    this.leaves = leaves;
+
+    // Concatenate leaves; they share no vertices, the skirts cover the seams.
+    // Every surface triangle comes first and every skirt triangle after.
+    let positionCount = 0;
+    let indexCount = 0;
+    let skirtStart = 0;
+    for (const leaf of leaves.values()) {
+      positionCount += leaf.positions.length;
+      indexCount += leaf.indices.length;
+      skirtStart += leaf.skirtStart;
+    }
+    const positions = new Float32Array(positionCount);
+    const normals = new Float32Array(positionCount);
+    const indices = new Uint32Array(indexCount);
+    let positionOffset = 0;
+    let surfaceOffset = 0;
+    let skirtOffset = skirtStart;
+    for (const leaf of leaves.values()) {
+      positions.set(leaf.positions, positionOffset);
+      normals.set(leaf.normals, positionOffset);
+      const vertexOffset = positionOffset / 3;
+      for (let i = 0; i < leaf.indices.length; i++) {
+        const index = leaf.indices[i] + vertexOffset;
+        if (i < leaf.skirtStart) indices[surfaceOffset++] = index;
+        else indices[skirtOffset++] = index;
+      }
+      positionOffset += leaf.positions.length;
+    }
+
+    // No geomorphing here: every vertex is its own parent
+    return {
+      positions,
+      normals,
+      parentPositions: positions.slice(),
+      morphLevels: new Float32Array(positions.length / 3),
+      indices,
+      skirtStart,
+    };
+  }
+
+  /** Number of leaves cached for the next build. */
+  getCachedLeafCount() {
+    return this.leaves.size;
+  }
+
+  /** Synchronously runs `generate` to completion. */
+  build(
+    params: CubeSphereMeshParams,
+    heightMapData: HeightMapData | null,
+  ): PlanetMeshData {
+    const job = this.generate(params, heightMapData);
+    let step = job.next();
+    while (!step.done) step = job.next();
+    return step.value;
+  }
+}
+
+/** Builds a cube-sphere mesh from scratch. */
+export function buildCubeSphereMesh(
+  params: CubeSphereMeshParams,
+  heightMapData: HeightMapData | null,
+): PlanetMeshData {
+  return new CubeSphereMesher().build(params, heightMapData);
+}
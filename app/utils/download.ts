@@ -0,0 +1,13 @@
+/** Saves `data` as a file through a temporary object URL. Browser only. */
+export function downloadFile(
+  data: string | Uint8Array<ArrayBuffer>,
+  fileName: string,
+  type: string,
+) {
+  const url = URL.createObjectURL(new Blob([data], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
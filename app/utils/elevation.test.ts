@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_ELEVATION_SETTINGS,
+  EARTH_RADIUS_METERS,
+  elevationToDisplacement,
+  getElevationRange,
+  heightToElevation,
+} from './elevation';
+import type { HeightMapData } from './heightmap';
+
+const map = (elevation: HeightMapData['elevation']): HeightMapData => ({
+  data: new Float32Array(1),
+  width: 1,
+  height: 1,
+  elevation,
+});
+
+describe('elevation', () => {
+  it("prefers the heightmap's own units over the configured range", () => {
+    expect(
+      getElevationRange(map({ min: -5, max: 5 }), DEFAULT_ELEVATION_SETTINGS),
+    ).toEqual({ min: -5, max: 5 });
+    expect(getElevationRange(map(null), DEFAULT_ELEVATION_SETTINGS)).toEqual({
+      min: DEFAULT_ELEVATION_SETTINGS.minElevation,
+      max: DEFAULT_ELEVATION_SETTINGS.maxElevation,
+    });
+  });
+
+  it('maps normalised heights linearly onto the range', () => {
+    const range = { min: -4000, max: 6000 };
+    expect(heightToElevation(0, range)).toBe(-4000);
+    expect(heightToElevation(0.4, range)).toBeCloseTo(0, 9);
+    expect(heightToElevation(1, range)).toBe(6000);
+  });
+
+  it('displaces relative to sea level in true proportion', () => {
+    const settings = { ...DEFAULT_ELEVATION_SETTINGS, exaggeration: 1 };
+    // Everest on an Earth drawn with radius 1
+    expect(elevationToDisplacement(8848, settings, 1)).toBeCloseTo(
+      8848 / EARTH_RADIUS_METERS,
+      12,
+    );
+    expect(elevationToDisplacement(0, settings, 10)).toBe(0);
+    expect(elevationToDisplacement(-4000, settings, 10)).toBeLessThan(0);
+  });
+
+  it('scales with exaggeration and shifts with sea level', () => {
+    const settings = {
+      ...DEFAULT_ELEVATION_SETTINGS,
+      seaLevel: 100,
+      exaggeration: 10,
+      planetRadiusMeters: 1000,
+    };
+    expect(elevationToDisplacement(100, settings, 5)).toBe(0);
+    expect(elevationToDisplacement(50, settings, 5)).toBeCloseTo(-2.5, 9);
+  });
+});
@@ -0,0 +1,74 @@
+import type { ElevationRange, HeightMapData } from './heightmap';
+
+/**
+ * ============================================================================
+ * ELEVATION
+ * ============================================================================
+ * Converts normalised heightmap samples into real elevations (metres) and
+ * then into scene-space displacement relative to sea level. The planet's
+ * scene radius stands in for its real radius, so relief keeps Earth's true
+ * proportions before vertical exaggeration is applied.
+ */
+
+/** Mean radius of the Earth in metres. */
+export const EARTH_RADIUS_METERS = 6_371_000;
+
+export interface ElevationSettings {
+  /**
+   * Elevation (metres) of normalised heights 0 and 1, for heightmaps that
+   * don't carry their own units (8-bit images, plain PNGs).
+   */
+  minElevation: number;
+  maxElevation: number;
+  /** Elevation (metres) that ends up exactly at the planet radius. */
+  seaLevel: number;
+  /** Vertical exaggeration; 1 keeps real-world proportions. */
+  exaggeration: number;
+  /** Real radius (metres) of the planet the scene radius stands for. */
+  planetRadiusMeters: number;
+}
+
+/** GEBCO-style range, from the Challenger Deep to the top of Everest. */
+export const DEFAULT_ELEVATION_SETTINGS: ElevationSettings = {
+  minElevation: -10_994,
+  maxElevation: 8_848,
+  seaLevel: 0,
+  exaggeration: 50,
+  planetRadiusMeters: EARTH_RADIUS_METERS,
+};
+
+/**
+ * The elevation range of a heightmap: its own units when it has them, the
+ * configured fallback otherwise.
+ */
+export function getElevationRange(
+  heightMap: HeightMapData,
+  settings: ElevationSettings,
+): ElevationRange {
+  return (
+    heightMap.elevation ?? {
+      min: settings.minElevation,
+      max: settings.maxElevation,
+    }
+  );
+}
+
+/** Normalised height (0-1) to elevation in metres. */
+export function heightToElevation(h: number, range: ElevationRange): number {
+  return range.min + h * (range.max - range.min);
+}
+
+/**
+ * Elevation in metres to radial displacement in scene units, negative below
+ * sea level.
+ */
+export function elevationToDisplacement(
+  elevation: number,
+  settings: ElevationSettings,
+  radius: number,
+): number {
+  return (
+    ((elevation - settings.seaLevel) * settings.exaggeration * radius) /
+    settings.planetRadiusMeters
+  );
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import {
+  bakeElevationGrid,
+  createElevationGridSource,
+  getDisplacementEnvelope,
+  getGridElevation,
+} from './elevationGrid';
+import { DEFAULT_ELEVATION_SETTINGS } from './elevation';
+import {
+  DEFAULT_COMPOSITE_TERRAIN,
+  DEFAULT_PROCEDURAL_TERRAIN,
+  createProceduralSource,
+} from './heightSource';
+import { getCylindricalDirection } from './heightmap';
+
+const source = createProceduralSource(DEFAULT_PROCEDURAL_TERRAIN);
+const grid = bakeElevationGrid(source, { width: 64, height: 32 });
+
+describe('bakeElevationGrid', () => {
+  it('samples the source at texel centres', () => {
+    const dir = new THREE.Vector3();
+    for (const [x, y] of [
+      [0, 0],
+      [17, 9],
+      [63, 31],
+    ]) {
+      getCylindricalDirection((x + 0.5) / 64, (y + 0.5) / 32, dir);
+      expect(grid.data[y * 64 + x]).toBeCloseTo(source.heightAt(dir), 3);
+    }
+  });
+});
+
+describe('createElevationGridSource', () => {
+  const gridSource = createElevationGridSource(grid);
+
+  it('reads back the texels at their centres', () => {
+    const dir = getCylindricalDirection(
+      (17 + 0.5) / 64,
+      (9 + 0.5) / 32,
+      new THREE.Vector3(),
+    );
+    expect(gridSource.heightAt(dir)).toBeCloseTo(grid.data[9 * 64 + 17], 3);
+  });
+
+  it('bounds the grid from its texels', () => {
+    expect(gridSource.bounds.min).toBe(Math.min(...grid.data));
+    expect(gridSource.bounds.max).toBe(Math.max(...grid.data));
+  });
+});
+
+describe('getGridElevation', () => {
+  const elevation = { ...DEFAULT_ELEVATION_SETTINGS, seaLevel: 200 };
+
+  it('leaves out the settings the shader applies', () => {
+    expect(
+      getGridElevation({ type: 'heightmap', sampling: 'bilinear' }, elevation),
+    ).toEqual({ ...elevation, seaLevel: 0, exaggeration: 1 });
+  });
+
+  it('keeps the sea level a composite coastline depends on', () => {
+    const composite = getGridElevation(
+      {
+        type: 'composite',
+        base: { type: 'heightmap', sampling: 'bilinear' },
+        settings: DEFAULT_COMPOSITE_TERRAIN,
+      },
+      elevation,
+    );
+    expect(composite.seaLevel).toBe(200);
+  });
+});
+
+describe('getDisplacementEnvelope', () => {
+  it('bounds the relief for any sea level', () => {
+    for (const exaggeration of [0.3, 1, 7, 50]) {
+      const envelope = getDisplacementEnvelope({
+        ...DEFAULT_ELEVATION_SETTINGS,
+        exaggeration,
+      });
+      expect(envelope.seaLevel).toBe(0);
+      expect(envelope.exaggeration).toBeGreaterThanOrEqual(2 * exaggeration);
+    }
+  });
+
+  it('changes only when the exaggeration crosses a power of two', () => {
+    const at = (exaggeration: number) =>
+      getDisplacementEnvelope({ ...DEFAULT_ELEVATION_SETTINGS, exaggeration })
+        .exaggeration;
+    expect(at(5)).toBe(at(8));
+    expect(at(9)).toBeGreaterThan(at(8));
+    expect(at(0)).toBe(0);
+  });
+});
@@ -0,0 +1,110 @@
+import * as THREE from 'three';
+import type { ElevationSettings } from './elevation';
+import {
+  getCylindricalDirection,
+  getCylindricalUV,
+  sampleHeight,
+} from './heightmap';
+import type { HeightGrid } from './heightmap';
+import type { HeightSource, HeightSourceConfig } from './heightSource';
+
+/**
+ * ============================================================================
+ * ELEVATION GRID
+ * ============================================================================
+ * The terrain baked into an equirectangular grid of elevations (metres), for
+ * displacing the planet in the vertex shader. The shader and the CPU sample
+ * the grid the same way, bilinearly between texel centres like sampleHeight,
+ * so what is drawn and what surface queries return agree to float
+ * precision. Sea level, exaggeration and radius stay out of the bake: the
+ * GPU applies them as uniforms, which is what makes them free to change.
+ */
+
+/** Elevations (m) in the layout of getCylindricalUV, row 0 at the north. */
+export type ElevationGrid = HeightGrid;
+
+export interface ElevationGridOptions {
+  width: number;
+  height: number;
+}
+
+/**
+ * Samples the source at every texel centre at full LOD-faded detail.
+ * Yields after every row so a worker can time-slice or abandon the bake.
+ */
+export function* generateElevationGrid(
+  source: HeightSource,
+  { width, height }: ElevationGridOptions,
+): Generator<void, Float32Array<ArrayBuffer>, void> {
+  const data = new Float32Array(width * height);
+  const dir = new THREE.Vector3();
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      getCylindricalDirection((x + 0.5) / width, (y + 0.5) / height, dir);
+      data[y * width + x] = source.heightAt(dir);
+    }
+    yield;
+  }
+  return data;
+}
+
+/** Synchronously runs `generateElevationGrid` to completion. */
+export function bakeElevationGrid(
+  source: HeightSource,
+  options: ElevationGridOptions,
+): ElevationGrid {
+  const job = generateElevationGrid(source, options);
+  let step = job.next();
+  while (!step.done) step = job.next();
+  return { data: step.value, ...options };
+}
+
+/** A height source that reads the grid back the way the shader does. */
+export function createElevationGridSource(grid: ElevationGrid): HeightSource {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const h of grid.data) {
+    min = Math.min(min, h);
+    max = Math.max(max, h);
+  }
+  return {
+    heightAt(dir) {
+      const { u, v } = getCylindricalUV(dir);
+      return sampleHeight(u, v, grid, 'bilinear');
+    },
+    bounds: grid.data.length > 0 ? { min, max } : { min: 0, max: 0 },
+  };
+}
+
+/**
+ * The elevation settings a bake of `terrain` depends on. Exaggeration never
+ * enters the grid and sea level only does for composite terrain, whose
+ * detail mask follows the coastline, so neither rebakes it otherwise.
+ */
+export function getGridElevation(
+  terrain: HeightSourceConfig,
+  elevation: ElevationSettings,
+): ElevationSettings {
+  return {
+    ...elevation,
+    exaggeration: 1,
+    seaLevel: terrain.type === 'composite' ? elevation.seaLevel : 0,
+  };
+}
+
+/**
+ * Elevation settings for meshing with GPU displacement. The mesh stays on
+ * the sphere and only its culling needs the relief, as an upper bound: the
+ * exaggeration is rounded up to the second power of two above it, which
+ * also leaves room for any sea level within the elevation range. Dragging
+ * the sliders then only rebuilds the mesh when the bound changes.
+ */
+export function getDisplacementEnvelope(
+  elevation: ElevationSettings,
+): ElevationSettings {
+  const exaggeration =
+    elevation.exaggeration > 0
+      ? 2 ** (Math.ceil(Math.log2(elevation.exaggeration)) + 1)
+      : 0;
+  return { ...elevation, seaLevel: 0, exaggeration };
+}
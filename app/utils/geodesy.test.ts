@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import {
+  directionToLatLon,
+  formatLatLon,
+  getBearing,
+  getDestination,
+  greatCircleDistance,
+  latLonToDirection,
+  parseLatLon,
+  wrapLongitude,
+} from './geodesy';
+import { getCylindricalUV } from './heightmap';
+
+const LONDON = { lat: 51.5074, lon: -0.1278 };
+const PARIS = { lat: 48.8566, lon: 2.3522 };
+const EARTH_KM = 6371;
+
+describe('latLonToDirection', () => {
+  it('follows the heightmap layout', () => {
+    for (const [lat, lon] of [
+      [0, 0],
+      [45, 90],
+      [-30, -120],
+      [60, 170],
+    ]) {
+      const { u, v } = getCylindricalUV(latLonToDirection({ lat, lon }));
+      expect(u).toBeCloseTo((lon + 180) / 360, 10);
+      expect(v).toBeCloseTo((90 - lat) / 180, 10);
+    }
+  });
+
+  it('puts the North Pole on +y and longitude 90 E on +x', () => {
+    const pole = latLonToDirection({ lat: 90, lon: 0 });
+    expect(pole.distanceTo(new THREE.Vector3(0, 1, 0))).toBeCloseTo(0, 10);
+    const east = latLonToDirection({ lat: 0, lon: 90 });
+    expect(east.distanceTo(new THREE.Vector3(1, 0, 0))).toBeCloseTo(0, 10);
+  });
+
+  it('round-trips through directionToLatLon', () => {
+    const back = directionToLatLon(latLonToDirection(LONDON).multiplyScalar(7));
+    expect(back.lat).toBeCloseTo(LONDON.lat, 10);
+    expect(back.lon).toBeCloseTo(LONDON.lon, 10);
+  });
+});
+
+describe('great circles', () => {
+  it('measures distances along the sphere', () => {
+    const pole = { lat: 90, lon: 0 };
+    const equator = { lat: 0, lon: 42 };
+    expect(greatCircleDistance(pole, equator, 2)).toBeCloseTo(Math.PI, 10);
+    expect(greatCircleDistance(LONDON, PARIS, EARTH_KM)).toBeCloseTo(343.6, 0);
+  });
+
+  it('gives bearings clockwise from north', () => {
+    const origin = { lat: 0, lon: 0 };
+    expect(getBearing(origin, { lat: 10, lon: 0 })).toBeCloseTo(0, 10);
+    expect(getBearing(origin, { lat: 0, lon: 10 })).toBeCloseTo(90, 10);
+    expect(getBearing(origin, { lat: 0, lon: -10 })).toBeCloseTo(270, 10);
+  });
+
+  it('walks a bearing and distance to the destination', () => {
+    const distance = greatCircleDistance(LONDON, PARIS, EARTH_KM);
+    const bearing = getBearing(LONDON, PARIS);
+    const end = getDestination(LONDON, bearing, distance, EARTH_KM);
+    expect(end.lat).toBeCloseTo(PARIS.lat, 8);
+    expect(end.lon).toBeCloseTo(PARIS.lon, 8);
+  });
+
+  it('wraps destinations across the antimeridian', () => {
+    const end = getDestination({ lat: 0, lon: 170 }, 90, Math.PI / 9);
+    expect(end.lon).toBeCloseTo(-170, 8);
+    expect(wrapLongitude(190)).toBe(-170);
+    expect(wrapLongitude(-180)).toBe(-180);
+  });
+});
+
+describe('parseLatLon', () => {
+  it('reads signed decimal degrees', () => {
+    expect(parseLatLon('27.9881, 86.925')).toEqual({
+      lat: 27.9881,
+      lon: 86.925,
+    });
+    expect(parseLatLon('-33.87 151.21')).toEqual({ lat: -33.87, lon: 151.21 });
+  });
+
+  it('reads hemisphere suffixes', () => {
+    expect(parseLatLon('33.87° S, 70.5° W')).toEqual({
+      lat: -33.87,
+      lon: -70.5,
+    });
+    expect(parseLatLon('10n 20e')).toEqual({ lat: 10, lon: 20 });
+  });
+
+  it('rejects anything else', () => {
+    expect(parseLatLon('')).toBeNull();
+    expect(parseLatLon('12')).toBeNull();
+    expect(parseLatLon('91, 0')).toBeNull();
+    expect(parseLatLon('0, 181')).toBeNull();
+    expect(parseLatLon('10 E, 20 N')).toBeNull();
+    expect(parseLatLon('north, south')).toBeNull();
+  });
+
+  it('reads back what formatLatLon writes', () => {
+    expect(parseLatLon(formatLatLon({ lat: -12.5, lon: 100.25 }))).toEqual({
+      lat: -12.5,
+      lon: 100.25,
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import * as THREE from 'three';
+
+/**
+ * ============================================================================
+ * GEODESY
+ * ============================================================================
+ * Latitude and longitude on the planet, in degrees. The axes match the
+ * heightmap layout of getCylindricalUV: +y is the North Pole, longitude 0
+ * lies along +z and longitude grows eastward toward +x. Distances are in
+ * whatever unit the radius is given in (scene units, or metres with the
+ * real planet radius); the sphere is perfect, terrain is ignored.
+ */
+
+export interface LatLon {
+  /** Degrees north of the equator, -90 to 90. */
+  lat: number;
+  /** Degrees east of the prime meridian, -180 to 180. */
+  lon: number;
+}
+
+const toRad = THREE.MathUtils.degToRad;
+const toDeg = THREE.MathUtils.radToDeg;
+
+/** Unit direction from the planet centre through a location. */
+export function latLonToDirection(
+  { lat, lon }: LatLon,
+  out = new THREE.Vector3(),
+) {
+  const phi = toRad(lat);
+  const lambda = toRad(lon);
+  return out.set(
+    Math.cos(phi) * Math.sin(lambda),
+    Math.sin(phi),
+    Math.cos(phi) * Math.cos(lambda),
+  );
+}
+
+/** Location of a direction from the planet centre; needn't be unit length. */
+export function directionToLatLon(dir: THREE.Vector3): LatLon {
+  const horizontal = Math.hypot(dir.x, dir.z);
+  return {
+    lat: toDeg(Math.atan2(dir.y, horizontal)),
+    // The poles have no longitude of their own, call it 0
+    lon: horizontal > 0 ? toDeg(Math.atan2(dir.x, dir.z)) : 0,
+  };
+}
+
+/** Length of the shortest path along the sphere (haversine formula). */
+export function greatCircleDistance(a: LatLon, b: LatLon, radius = 1) {
+  const dPhi = toRad(b.lat - a.lat);
+  const dLambda = toRad(b.lon - a.lon);
+  const h =
+    Math.sin(dPhi / 2) ** 2 +
+    Math.cos(toRad(a.lat)) *
+      Math.cos(toRad(b.lat)) *
+      Math.sin(dLambda / 2) ** 2;
+  return 2 * radius * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Initial bearing of the great circle from `a` to `b`, in degrees clockwise
+ * from north (0 to 360).
+ */
+export function getBearing(a: LatLon, b: LatLon) {
+  const phi1 = toRad(a.lat);
+  const phi2 = toRad(b.lat);
+  const dLambda = toRad(b.lon - a.lon);
+  const y = Math.sin(dLambda) * Math.cos(phi2);
+  const x =
+    Math.cos(phi1) * Math.sin(phi2) -
+    Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLambda);
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+}
+
+/**
+ * Where a great circle leaving `start` on `bearing` (degrees clockwise from
+ * north) ends up after `distance`.
+ */
+export function getDestination(
+  start: LatLon,
+  bearing: number,
+  distance: number,
+  radius = 1,
+): LatLon {
+  const delta = distance / radius;
+  const theta = toRad(bearing);
+  const phi1 = toRad(start.lat);
+  const lambda1 = toRad(start.lon);
+
+  const sinPhi2 =
+    Math.sin(phi1) * Math.cos(delta) +
+    Math.cos(phi1) * Math.sin(delta) * Math.cos(theta);
+  const phi2 = Math.asin(THREE.MathUtils.clamp(sinPhi2, -1, 1));
+  const lambda2 =
+    lambda1 +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(delta) * Math.cos(phi1),
+      Math.cos(delta) - Math.sin(phi1) * sinPhi2,
+    );
+  return { lat: toDeg(phi2), lon: wrapLongitude(toDeg(lambda2)) };
+}
+
+/** Longitude folded into [-180, 180). */
+export function wrapLongitude(lon: number) {
+  return ((((lon + 180) % 360) + 360) % 360) - 180;
+}
+
+/** e.g. "27.9881° N, 86.9250° E". */
+export function formatLatLon({ lat, lon }: LatLon, digits = 4) {
+  const ns = lat >= 0 ? 'N' : 'S';
+  const ew = lon >= 0 ? 'E' : 'W';
+  return `${Math.abs(lat).toFixed(digits)}° ${ns}, ${Math.abs(lon).toFixed(digits)}° ${ew}`;
+}
+
+// A signed decimal number, optionally followed by a degree sign and a
+// hemisphere letter
+const COORDINATE = /^([+-]?\d+(?:\.\d*)?|[+-]?\.\d+)\s*°?\s*([NSEW])?$/i;
+
+/**
+ * Reads a typed location: "lat, lon" in decimal degrees, each optionally
+ * suffixed with a hemisphere ("27.99 N, 86.93 E"). Returns null if the text
+ * isn't a valid location.
+ */
+export function parseLatLon(text: string): LatLon | null {
+  const parts = text
+    .split(/[,;]|\s+(?=[+-]?[\d.])/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (parts.length !== 2) return null;
+
+  const values: number[] = [];
+  for (const [i, part] of parts.entries()) {
+    const match = COORDINATE.exec(part);
+    if (!match) return null;
+    const hemisphere = match[2]?.toUpperCase();
+    // The hemisphere has to fit the position: N/S first, E/W second
+    if (hemisphere && 'NS'.includes(hemisphere) !== (i === 0)) return null;
+    const value = Number(match[1]);
+    values.push(hemisphere === 'S' || hemisphere === 'W' ? -value : value);
+  }
+
+  const [lat, lon] = values;
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { lat, lon };
+}
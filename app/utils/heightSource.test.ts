@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import {
+  DEFAULT_COMPOSITE_TERRAIN,
+  DEFAULT_PROCEDURAL_TERRAIN,
+  createCompositeSource,
+  createHeightSource,
+  createProceduralSource,
+  getLodDetailWeight,
+} from './heightSource';
+import type { HeightSource } from './heightSource';
+import { DEFAULT_ELEVATION_SETTINGS } from './elevation';
+import type { HeightMapData } from './heightmap';
+
+const directions = Array.from({ length: 100 }, (_, i) =>
+  new THREE.Vector3(
+    Math.sin(i * 1.7),
+    Math.cos(i * 2.3),
+    Math.sin(i * 0.9 + 1),
+  ).normalize(),
+);
+
+describe('procedural height source', () => {
+  it('gives identical output for the same seed', () => {
+    const a = createProceduralSource(DEFAULT_PROCEDURAL_TERRAIN);
+    const b = createProceduralSource({ ...DEFAULT_PROCEDURAL_TERRAIN });
+    for (const dir of directions) expect(a.heightAt(dir)).toBe(b.heightAt(dir));
+  });
+
+  it('differs between seeds and fractal types', () => {
+    const base = createProceduralSource(DEFAULT_PROCEDURAL_TERRAIN);
+    const reseeded = createProceduralSource({
+      ...DEFAULT_PROCEDURAL_TERRAIN,
+      seed: DEFAULT_PROCEDURAL_TERRAIN.seed + 1,
+    });
+    const ridged = createProceduralSource({
+      ...DEFAULT_PROCEDURAL_TERRAIN,
+      type: 'ridged',
+    });
+    const dir = directions[0];
+    expect(reseeded.heightAt(dir)).not.toBe(base.heightAt(dir));
+    expect(ridged.heightAt(dir)).not.toBe(base.heightAt(dir));
+  });
+
+  it('stays within the configured amplitude', () => {
+    const source = createProceduralSource({
+      ...DEFAULT_PROCEDURAL_TERRAIN,
+      type: 'ridged',
+      amplitude: 500,
+    });
+    for (const dir of directions) {
+      expect(Math.abs(source.heightAt(dir))).toBeLessThanOrEqual(500);
+    }
+  });
+});
+
+describe('createHeightSource', () => {
+  it('has no heightmap source until the map is loaded', () => {
+    expect(
+      createHeightSource(
+        { type: 'heightmap', sampling: 'bilinear' },
+        null,
+        DEFAULT_ELEVATION_SETTINGS,
+      ),
+    ).toBeNull();
+  });
+
+  it('converts heightmap samples to metres', () => {
+    const map: HeightMapData = {
+      data: new Float32Array(8).fill(0.25),
+      width: 4,
+      height: 2,
+      elevation: { min: -1000, max: 3000 },
+    };
+    const source = createHeightSource(
+      { type: 'heightmap', sampling: 'bilinear' },
+      map,
+      DEFAULT_ELEVATION_SETTINGS,
+    );
+    expect(source?.heightAt(directions[3])).toBeCloseTo(0, 6);
+  });
+});
+
+describe('composite height source', () => {
+  // Land in the northern hemisphere, ocean in the southern one
+  const base: HeightSource = {
+    heightAt: (dir) => (dir.y > 0 ? 2000 : -3000),
+    bounds: { min: -3000, max: 2000 },
+  };
+
+  it('adds nothing at zero detail', () => {
+    const source = createCompositeSource(base, DEFAULT_COMPOSITE_TERRAIN, 0);
+    for (const dir of directions) {
+      expect(source.heightAt(dir, 0)).toBe(base.heightAt(dir));
+    }
+  });
+
+  it('is affine in the detail weight', () => {
+    const source = createCompositeSource(
+      base,
+      { ...DEFAULT_COMPOSITE_TERRAIN, mask: 'none' },
+      0,
+    );
+    for (const dir of directions) {
+      const coarse = source.heightAt(dir, 0);
+      const fine = source.heightAt(dir, 1);
+      expect(source.heightAt(dir, 0.3)).toBeCloseTo(
+        coarse + 0.3 * (fine - coarse),
+        6,
+      );
+    }
+  });
+
+  it('only roughens the masked side of the coastline', () => {
+    const land = createCompositeSource(base, DEFAULT_COMPOSITE_TERRAIN, 0);
+    const ocean = createCompositeSource(
+      base,
+      { ...DEFAULT_COMPOSITE_TERRAIN, mask: 'ocean' },
+      0,
+    );
+    for (const dir of directions) {
+      const onLand = dir.y > 0;
+      expect(land.heightAt(dir) === base.heightAt(dir)).toBe(!onLand);
+      expect(ocean.heightAt(dir) === base.heightAt(dir)).toBe(onLand);
+    }
+  });
+
+  it('scales relief with the multiply operator', () => {
+    const source = createCompositeSource(
+      { heightAt: () => 0, bounds: { min: 0, max: 0 } },
+      { ...DEFAULT_COMPOSITE_TERRAIN, operator: 'multiply', mask: 'none' },
+      0,
+    );
+    for (const dir of directions) expect(source.heightAt(dir)).toBe(0);
+  });
+
+  it('fades detail in across the configured LOD range', () => {
+    const source = createCompositeSource(base, DEFAULT_COMPOSITE_TERRAIN, 0);
+    const { fadeStart, fadeEnd } = DEFAULT_COMPOSITE_TERRAIN;
+    expect(getLodDetailWeight(source, fadeStart)).toBe(0);
+    expect(getLodDetailWeight(source, (fadeStart + fadeEnd) / 2)).toBe(0.5);
+    expect(getLodDetailWeight(source, fadeEnd)).toBe(1);
+    expect(getLodDetailWeight(base, 0)).toBe(1);
+  });
+
+  it('widens the base bounds by the detail it can add', () => {
+    const source = createCompositeSource(base, DEFAULT_COMPOSITE_TERRAIN, 0);
+    const { amplitude } = DEFAULT_COMPOSITE_TERRAIN.detail;
+    expect(source.bounds).toEqual({
+      min: -3000 - amplitude,
+      max: 2000 + amplitude,
+    });
+  });
+});
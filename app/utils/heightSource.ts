@@ -0,0 +1,278 @@
+import * as THREE from 'three';
+import { getCylindricalUV, sampleHeight } from './heightmap';
+import type {
+  ElevationRange,
+  HeightMapData,
+  HeightSampling,
+} from './heightmap';
+import { getElevationRange, heightToElevation } from './elevation';
+import type { ElevationSettings } from './elevation';
+import {
+  createSimplexNoise3D,
+  domainWarp,
+  fbm,
+  ridgedMultifractal,
+} from './noise';
+
+/**
+ * ============================================================================
+ * HEIGHT SOURCES
+ * ============================================================================
+ * The mesher asks a height source for the elevation under every vertex
+ * instead of reading the heightmap directly. Sources are described by plain,
+ * serialisable configs so the same terrain can be rebuilt inside the mesher
+ * worker, on the main thread or in Node.
+ */
+export interface HeightSource {
+  /**
+   * Elevation in metres at a unit direction from the planet centre.
+   * `detail` (0-1, default 1) scales LOD-faded detail; the result must be
+   * affine in it, so meshers can evaluate 0 and 1 once and blend cheaply.
+   */
+  heightAt(dir: THREE.Vector3, detail?: number): number;
+  /**
+   * LOD resolution range (k) over which detail fades in. Absent for sources
+   * whose height doesn't depend on LOD.
+   */
+  lodFade?: { start: number; end: number };
+  /** Elevation range (m) the source stays within, for culling bounds. */
+  bounds: ElevationRange;
+}
+
+export type FractalType = 'fbm' | 'ridged';
+
+export const FRACTAL_TYPES: FractalType[] = ['fbm', 'ridged'];
+
+export interface ProceduralTerrainSettings {
+  seed: number;
+  type: FractalType;
+  octaves: number;
+  /** Base frequency on the unit sphere; 1 gives continent-sized features. */
+  frequency: number;
+  lacunarity: number;
+  gain: number;
+  /** Domain warp strength, 0 disables warping. */
+  warp: number;
+  /** Elevation (m) of a full-strength noise peak; troughs go as deep. */
+  amplitude: number;
+}
+
+export const DEFAULT_PROCEDURAL_TERRAIN: ProceduralTerrainSettings = {
+  seed: 1337,
+  type: 'fbm',
+  octaves: 6,
+  frequency: 1.5,
+  lacunarity: 2,
+  gain: 0.5,
+  warp: 0.4,
+  amplitude: 6000,
+};
+
+export type CompositeOperator = 'add' | 'multiply';
+
+export const COMPOSITE_OPERATORS: CompositeOperator[] = ['add', 'multiply'];
+
+export type DetailMask = 'none' | 'land' | 'ocean';
+
+export const DETAIL_MASKS: DetailMask[] = ['none', 'land', 'ocean'];
+
+/**
+ * Procedural detail layered on top of a base source. The detail fades in
+ * with LOD level, so it only appears where the mesh is fine enough to show
+ * it, and can be masked to land or ocean.
+ */
+export interface CompositeTerrainSettings {
+  detail: ProceduralTerrainSettings;
+  /**
+   * `add`: base + noise * detail.amplitude (metres).
+   * `multiply`: base * (1 + noise * multiplyStrength), scaling the relief.
+   */
+  operator: CompositeOperator;
+  multiplyStrength: number;
+  /** Restrict detail to terrain above (`land`) or below (`ocean`) sea level. */
+  mask: DetailMask;
+  /** Elevation band (m) over which the mask ramps in at the coastline. */
+  maskBlend: number;
+  /** LOD resolution (k) where detail starts to appear and is at full strength. */
+  fadeStart: number;
+  fadeEnd: number;
+}
+
+export const DEFAULT_COMPOSITE_TERRAIN: CompositeTerrainSettings = {
+  detail: {
+    ...DEFAULT_PROCEDURAL_TERRAIN,
+    frequency: 24,
+    octaves: 5,
+    warp: 0,
+    amplitude: 400,
+  },
+  operator: 'add',
+  multiplyStrength: 0.25,
+  mask: 'land',
+  maskBlend: 50,
+  fadeStart: 4,
+  fadeEnd: 12,
+};
+
+/** Terrain choices offered by the Planet component. */
+export type TerrainType = 'heightmap' | 'procedural' | 'composite';
+
+export const TERRAIN_TYPES: TerrainType[] = [
+  'heightmap',
+  'procedural',
+  'composite',
+];
+
+export type HeightSourceConfig =
+  | { type: 'heightmap'; sampling: HeightSampling }
+  | { type: 'procedural'; settings: ProceduralTerrainSettings }
+  | {
+      type: 'composite';
+      base: HeightSourceConfig;
+      settings: CompositeTerrainSettings;
+    };
+
+/** Samples a loaded heightmap and converts it to metres. */
+export function createHeightMapSource(
+  heightMap: HeightMapData,
+  sampling: HeightSampling,
+  elevation: ElevationSettings,
+): HeightSource {
+  const range = getElevationRange(heightMap, elevation);
+  // Bicubic sampling overshoots the samples a little at sharp steps
+  const overshoot =
+    sampling === 'bicubic' ? 0.125 * (range.max - range.min) : 0;
+  return {
+    heightAt(dir) {
+      const { u, v } = getCylindricalUV(dir);
+      return heightToElevation(sampleHeight(u, v, heightMap, sampling), range);
+    },
+    bounds: { min: range.min - overshoot, max: range.max + overshoot },
+  };
+}
+
+// Normalised (-1 to 1) fractal noise on the unit sphere
+function createFractalField(settings: ProceduralTerrainSettings) {
+  const noise = createSimplexNoise3D(settings.seed);
+  const fractal = settings.type === 'ridged' ? ridgedMultifractal : fbm;
+  const options = {
+    octaves: settings.octaves,
+    lacunarity: settings.lacunarity,
+    gain: settings.gain,
+  };
+  const f = settings.frequency;
+  return (dir: THREE.Vector3) =>
+    domainWarp(
+      noise,
+      dir.x * f,
+      dir.y * f,
+      dir.z * f,
+      settings.warp,
+      options,
+      fractal,
+    );
+}
+
+/** Seeded fractal noise evaluated on the unit sphere. */
+export function createProceduralSource(
+  settings: ProceduralTerrainSettings,
+): HeightSource {
+  const field = createFractalField(settings);
+  return {
+    heightAt: (dir) => field(dir) * settings.amplitude,
+    bounds: { min: -settings.amplitude, max: settings.amplitude },
+  };
+}
+
+function smoothstep(edge0: number, edge1: number, x: number) {
+  if (edge0 === edge1) return x < edge0 ? 0 : 1;
+  const t = Math.max(0, Math.min(1, (x - edge0) / (edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+}
+
+/**
+ * Detail weight (0-1) of a source at a LOD resolution: 1 for sources that
+ * don't fade, a smooth ramp across `lodFade` for those that do.
+ */
+export function getLodDetailWeight(source: HeightSource, level: number) {
+  if (!source.lodFade) return 1;
+  return smoothstep(source.lodFade.start, source.lodFade.end, level);
+}
+
+/**
+ * Layers LOD-faded procedural detail over a base source. Everything is a
+ * pure function of the direction, so vertices shared between patches get
+ * exactly the same height and edge snapping keeps lining up.
+ */
+export function createCompositeSource(
+  base: HeightSource,
+  settings: CompositeTerrainSettings,
+  seaLevel: number,
+): HeightSource {
+  const field = createFractalField(settings.detail);
+  const { maskBlend } = settings;
+
+  const maskAt = (elevation: number) => {
+    switch (settings.mask) {
+      case 'none':
+        return 1;
+      case 'land':
+        return smoothstep(seaLevel, seaLevel + maskBlend, elevation);
+      case 'ocean':
+        return 1 - smoothstep(seaLevel - maskBlend, seaLevel, elevation);
+    }
+  };
+
+  return {
+    heightAt(dir, detail = 1) {
+      const h = base.heightAt(dir);
+      const weight = detail * maskAt(h);
+      if (weight === 0) return h;
+      const n = field(dir);
+      return settings.operator === 'multiply'
+        ? h * (1 + weight * n * settings.multiplyStrength)
+        : h + weight * n * settings.detail.amplitude;
+    },
+    lodFade: { start: settings.fadeStart, end: settings.fadeEnd },
+    bounds: getCompositeBounds(base.bounds, settings),
+  };
+}
+
+function getCompositeBounds(
+  { min, max }: ElevationRange,
+  { operator, multiplyStrength, detail }: CompositeTerrainSettings,
+): ElevationRange {
+  if (operator === 'add') {
+    return { min: min - detail.amplitude, max: max + detail.amplitude };
+  }
+  const scaled = [1 - multiplyStrength, 1 + multiplyStrength].flatMap((f) => [
+    min * f,
+    max * f,
+  ]);
+  return { min: Math.min(...scaled), max: Math.max(...scaled) };
+}
+
+/**
+ * Builds the source a config describes. Heightmap sources need the decoded
+ * map; until it has loaded there is no source and the planet stays smooth.
+ */
+export function createHeightSource(
+  config: HeightSourceConfig,
+  heightMap: HeightMapData | null,
+  elevation: ElevationSettings,
+): HeightSource | null {
+  switch (config.type) {
+    case 'heightmap':
+      return heightMap
+        ? createHeightMapSource(heightMap, config.sampling, elevation)
+        : null;
+    case 'procedural':
+      return createProceduralSource(config.settings);
+    case 'composite': {
+      const base = createHeightSource(config.base, heightMap, elevation);
+      return base
+        ? createCompositeSource(base, config.settings, elevation.seaLevel)
+        : null;
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { getBasePatches } from './planetMesher';
+import {
+  DEFAULT_PROCEDURAL_TERRAIN,
+  createProceduralSource,
+} from './heightSource';
+import {
+  HEIGHT_TILE_VERSION,
+  bakeHeightTile,
+  decodeHeightTile,
+  encodeHeightTile,
+  getHeightTileDirections,
+  getHeightTileFileName,
+  getHeightTileIndex,
+  getHeightTileRange,
+  getHeightTileSize,
+  parseHeightTileManifest,
+} from './heightTiles';
+
+const source = createProceduralSource(DEFAULT_PROCEDURAL_TERRAIN);
+const patches = getBasePatches(2);
+
+describe('height tile layout', () => {
+  it('stores rows of growing length back to back', () => {
+    expect(getHeightTileSize(0)).toBe(1);
+    expect(getHeightTileSize(4)).toBe(15);
+    expect(getHeightTileIndex(0, 0)).toBe(0);
+    expect(getHeightTileIndex(1, 1)).toBe(2);
+    expect(getHeightTileIndex(4, 4)).toBe(getHeightTileSize(4) - 1);
+  });
+
+  it('puts the patch corners at the tile corners', () => {
+    const patch = patches[5];
+    const dirs = getHeightTileDirections(patch, 4);
+    const [v1, v2, v3] = patch.corners;
+    expect(dirs[getHeightTileIndex(0, 0)].distanceTo(v1)).toBeLessThan(1e-9);
+    expect(dirs[getHeightTileIndex(4, 0)].distanceTo(v2)).toBeLessThan(1e-9);
+    expect(dirs[getHeightTileIndex(4, 4)].distanceTo(v3)).toBeLessThan(1e-9);
+  });
+
+  it('names files without colons', () => {
+    expect(getHeightTileFileName('3:1:0:d')).toBe('3-1-0-d.f32');
+  });
+});
+
+describe('bakeHeightTile', () => {
+  it('samples the source at every grid point', () => {
+    const tile = bakeHeightTile(source, patches[0], 4);
+    const dirs = getHeightTileDirections(patches[0], 4);
+    expect(tile).toHaveLength(15);
+    dirs.forEach((dir, i) =>
+      expect(tile[i]).toBeCloseTo(source.heightAt(dir), 2),
+    );
+  });
+
+  it('agrees with neighbouring tiles along shared edges', () => {
+    // Upright patch 0:1:0 and upside-down patch 0:1:0:d share the edge v1-v3
+    const upright = patches.find((p) => p.id === '0:1:0')!;
+    const inverted = patches.find((p) => p.id === '0:1:0:d')!;
+    const a = bakeHeightTile(source, upright, 4);
+    const b = bakeHeightTile(source, inverted, 4);
+    for (let r = 0; r <= 4; r++) {
+      expect(a[getHeightTileIndex(r, r)]).toBeCloseTo(
+        b[getHeightTileIndex(r, 0)],
+        2,
+      );
+    }
+  });
+});
+
+describe('height tile files', () => {
+  it('round-trips through bytes', () => {
+    const tile = bakeHeightTile(source, patches[1], 6);
+    const bytes = encodeHeightTile(tile);
+    expect(decodeHeightTile(bytes.buffer, 6)).toEqual(tile);
+    expect(() => decodeHeightTile(bytes.buffer, 5)).toThrow('expected');
+  });
+
+  it('validates manifests', () => {
+    const tiles = [bakeHeightTile(source, patches[0], 2)];
+    const manifest = {
+      version: HEIGHT_TILE_VERSION,
+      baseSubdivision: 2,
+      resolution: 2,
+      elevation: getHeightTileRange(tiles),
+      tiles: { '0:0:0': '0-0-0.f32' },
+    };
+    expect(parseHeightTileManifest(manifest)).toEqual(manifest);
+    expect(manifest.elevation.min).toBe(Math.min(...tiles[0]));
+    expect(() => parseHeightTileManifest({ ...manifest, version: 2 })).toThrow(
+      'manifest',
+    );
+    expect(() => parseHeightTileManifest(null)).toThrow('manifest');
+  });
+});
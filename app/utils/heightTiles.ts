@@ -0,0 +1,131 @@
+import * as THREE from 'three';
+import type { ElevationRange } from './heightmap';
+import type { HeightSource } from './heightSource';
+import { slerp } from './planetMesher';
+import type { BasePatch } from './planetMesher';
+
+/**
+ * ============================================================================
+ * HEIGHT TILES
+ * ============================================================================
+ * Pre-baked elevations for every base patch of the icosphere, so a client
+ * can fetch the tiles it needs instead of decoding one large heightmap. A
+ * tile holds the elevation (metres) at each point of its patch's triangular
+ * grid at `resolution`, the grid processSubFace builds at k = resolution:
+ * row r runs from slerp(v1, v2, r / s) to slerp(v1, v3, r / s) and has r + 1
+ * points. Rows are stored one after another as little-endian Float32.
+ */
+
+export const HEIGHT_TILE_VERSION = 1;
+
+/** Index of a tile set, stored as JSON next to the tile files. */
+export interface HeightTileManifest {
+  version: typeof HEIGHT_TILE_VERSION;
+  /** Base subdivision the patches come from (see getBaseSubdivision). */
+  baseSubdivision: number;
+  /** Grid resolution of every tile. */
+  resolution: number;
+  /** Lowest and highest elevation over all tiles, in metres. */
+  elevation: ElevationRange;
+  /** Tile file of every base patch id, relative to the manifest. */
+  tiles: Record<string, string>;
+}
+
+/** Number of grid points in a tile. */
+export function getHeightTileSize(resolution: number) {
+  return ((resolution + 1) * (resolution + 2)) / 2;
+}
+
+/** Position of grid point (row, column) in a tile. */
+export function getHeightTileIndex(row: number, column: number) {
+  return (row * (row + 1)) / 2 + column;
+}
+
+/** File name of a patch's tile, without the colons of its id. */
+export function getHeightTileFileName(patchId: string) {
+  return `${patchId.replaceAll(':', '-')}.f32`;
+}
+
+/** Unit direction of every grid point of a patch, in tile order. */
+export function getHeightTileDirections(
+  { corners: [v1, v2, v3] }: BasePatch,
+  resolution: number,
+): THREE.Vector3[] {
+  const dirs: THREE.Vector3[] = [];
+  for (let r = 0; r <= resolution; r++) {
+    const rowStart = slerp(v1, v2, r / resolution);
+    const rowEnd = slerp(v1, v3, r / resolution);
+    for (let c = 0; c <= r; c++) {
+      dirs.push(slerp(rowStart, rowEnd, r === 0 ? 0 : c / r));
+    }
+  }
+  return dirs;
+}
+
+/** Samples the elevation at every grid point of a patch. */
+export function bakeHeightTile(
+  source: HeightSource,
+  patch: BasePatch,
+  resolution: number,
+): Float32Array {
+  return Float32Array.from(getHeightTileDirections(patch, resolution), (dir) =>
+    source.heightAt(dir),
+  );
+}
+
+/** The bytes of a tile file. */
+export function encodeHeightTile(tile: Float32Array): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(tile.length * 4);
+  const view = new DataView(bytes.buffer);
+  tile.forEach((h, i) => view.setFloat32(i * 4, h, true));
+  return bytes;
+}
+
+/** Reads a tile file, checking it has the size of `resolution`. */
+export function decodeHeightTile(
+  buffer: ArrayBuffer,
+  resolution: number,
+): Float32Array {
+  const size = getHeightTileSize(resolution);
+  if (buffer.byteLength !== size * 4) {
+    throw new Error(
+      `Height tile is ${buffer.byteLength} bytes, expected ${size * 4} for resolution ${resolution}`,
+    );
+  }
+  const view = new DataView(buffer);
+  return Float32Array.from({ length: size }, (_, i) =>
+    view.getFloat32(i * 4, true),
+  );
+}
+
+/** Validates parsed manifest JSON. */
+export function parseHeightTileManifest(json: unknown): HeightTileManifest {
+  const m = json as Partial<HeightTileManifest> | null;
+  if (
+    !m ||
+    m.version !== HEIGHT_TILE_VERSION ||
+    !Number.isInteger(m.baseSubdivision) ||
+    !Number.isInteger(m.resolution) ||
+    typeof m.elevation?.min !== 'number' ||
+    typeof m.elevation?.max !== 'number' ||
+    typeof m.tiles !== 'object' ||
+    m.tiles === null
+  ) {
+    throw new Error(
+      `Height tile manifest needs version ${HEIGHT_TILE_VERSION}, integer baseSubdivision/resolution, an elevation range and tiles`,
+    );
+  }
+  return m as HeightTileManifest;
+}
+
+/** Elevation range over a set of tiles. */
+export function getHeightTileRange(tiles: Iterable<Float32Array>) {
+  const range: ElevationRange = { min: Infinity, max: -Infinity };
+  for (const tile of tiles) {
+    for (const h of tile) {
+      range.min = Math.min(range.min, h);
+      range.max = Math.max(range.max, h);
+    }
+  }
+  return range;
+}
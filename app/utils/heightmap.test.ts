@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { getCylindricalUV, sampleHeight } from './heightmap';
+import type { HeightMapData } from './heightmap';
+
+// Builds a height map with 8-bit style heights fn(x, y) / 255
+function syntheticMap(
+  width: number,
+  height: number,
+  fn: (x: number, y: number) => number,
+): HeightMapData {
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      data[y * width + x] = fn(x, y) / 255;
+    }
+  }
+  return { data, width, height, elevation: null };
+}
+
+// UV of the centre of texel (x, y)
+const centre = (map: HeightMapData, x: number, y: number) =>
+  [(x + 0.5) / map.width, (y + 0.5) / map.height] as const;
+
+describe('sampleHeight', () => {
+  const ramp = syntheticMap(8, 4, (x, y) => x * 20 + y * 10);
+
+  it('returns exact texel values at texel centres in every mode', () => {
+    for (const mode of ['nearest', 'bilinear', 'bicubic'] as const) {
+      expect(sampleHeight(...centre(ramp, 2, 1), ramp, mode)).toBeCloseTo(
+        50 / 255,
+        6,
+      );
+    }
+  });
+
+  it('snaps to the closest texel with nearest sampling', () => {
+    const [u, v] = centre(ramp, 3, 2);
+    expect(sampleHeight(u + 0.04, v, ramp, 'nearest')).toBeCloseTo(80 / 255, 6);
+  });
+
+  it('interpolates linearly between texel centres', () => {
+    const [u0, v] = centre(ramp, 2, 1);
+    const [u1] = centre(ramp, 3, 1);
+    expect(sampleHeight((u0 + u1) / 2, v, ramp, 'bilinear')).toBeCloseTo(
+      60 / 255,
+      6,
+    );
+  });
+
+  it('reproduces a linear ramp exactly with bicubic sampling', () => {
+    const [u0, v0] = centre(ramp, 2, 1);
+    const [u1, v1] = centre(ramp, 3, 2);
+    const u = u0 + (u1 - u0) * 0.3;
+    const v = v0 + (v1 - v0) * 0.6;
+    expect(sampleHeight(u, v, ramp, 'bicubic')).toBeCloseTo(
+      (2.3 * 20 + 1.6 * 10) / 255,
+      6,
+    );
+  });
+
+  it('wraps horizontally instead of clamping at the antimeridian', () => {
+    const seam = syntheticMap(8, 4, (x) => (x === 0 ? 200 : x === 7 ? 100 : 0));
+    for (const mode of ['nearest', 'bilinear', 'bicubic'] as const) {
+      expect(sampleHeight(0, 0.5, seam, mode)).toBeCloseTo(
+        sampleHeight(1, 0.5, seam, mode),
+        6,
+      );
+    }
+    // Halfway between the last and first column
+    expect(sampleHeight(0, 0.4, seam, 'bilinear')).toBeCloseTo(150 / 255, 6);
+  });
+
+  it('continues over the poles onto the opposite meridian', () => {
+    // Only the top row has height, and only on the first half of the map
+    const polar = syntheticMap(8, 4, (x, y) => (y === 0 && x < 4 ? 255 : 0));
+    // At the pole itself both sides of the globe meet
+    expect(sampleHeight(0.125, 0, polar, 'bilinear')).toBeCloseTo(0.5, 6);
+    expect(sampleHeight(0.625, 0, polar, 'bilinear')).toBeCloseTo(0.5, 6);
+  });
+
+  it('keeps a constant field constant everywhere', () => {
+    const flat = syntheticMap(16, 8, () => 128);
+    for (const mode of ['nearest', 'bilinear', 'bicubic'] as const) {
+      for (const [u, v] of [
+        [0, 0],
+        [1, 1],
+        [0.33, 0.71],
+        [0.999, 0.001],
+      ]) {
+        expect(sampleHeight(u, v, flat, mode)).toBeCloseTo(128 / 255, 6);
+      }
+    }
+  });
+});
+
+describe('getCylindricalUV', () => {
+  it('maps the north pole to v = 0 and the south pole to v = 1', () => {
+    expect(getCylindricalUV(new THREE.Vector3(0, 1, 0)).v).toBeCloseTo(0, 6);
+    expect(getCylindricalUV(new THREE.Vector3(0, -1, 0)).v).toBeCloseTo(1, 6);
+  });
+
+  it('puts the prime meridian (+z) in the middle of the map', () => {
+    expect(getCylindricalUV(new THREE.Vector3(0, 0, 1)).u).toBeCloseTo(0.5, 6);
+  });
+});
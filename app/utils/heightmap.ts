@@ -1,15 +1,95 @@
 import * as THREE from 'three';
+import {
+  decodeGeoTiff,
+  decodePng,
+  decodeRawGrid,
+  parseRawGridSidecar,
+} from './heightmapFormats';
 
+/** Real-world elevation, in metres, of normalised heights 0 and 1. */
+export interface ElevationRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * A decoded height field: one normalised (0-1) height per texel, row-major
+ * from the north-west corner of an equirectangular map.
+ */
 export interface HeightMapData {
-  data: Uint8ClampedArray;
+  data: Float32Array;
   width: number;
   height: number;
+  /** Real elevation units, when the source format carries them. */
+  elevation: ElevationRange | null;
 }
 
-export async function loadHeightMap(
+/** The texel grid of a height field, whatever its values mean. */
+export type HeightGrid = Pick<HeightMapData, 'data' | 'width' | 'height'>;
+
+/**
+ * Supported height sources:
+ * - `image`: anything the browser decodes (8-bit, red channel, via canvas)
+ * - `png`: 8 or 16-bit PNG, decoded in JS at full precision
+ * - `raw`: little-endian Float32/Int16 grid plus a `.json` sidecar
+ * - `geotiff`: single-band uncompressed GeoTIFF
+ */
+export type HeightMapFormat = 'image' | 'png' | 'raw' | 'geotiff';
+
+export interface HeightMapLoadOptions {
+  /** Defaults to a guess from the file extension. */
+  format?: HeightMapFormat;
+  /** Units for formats that don't carry their own (image, png). */
+  elevation?: ElevationRange | null;
+}
+
+export function detectHeightMapFormat(url: string): HeightMapFormat {
+  const ext = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  switch (ext) {
+    case 'png':
+      return 'png';
+    case 'tif':
+    case 'tiff':
+      return 'geotiff';
+    case 'f32':
+    case 'i16':
+    case 'raw':
+    case 'bin':
+      return 'raw';
+    default:
+      return 'image';
+  }
+}
+
+/** The sidecar of `maps/earth.f32` lives at `maps/earth.json`. */
+export function getRawSidecarUrl(url: string): string {
+  return url.replace(/\.[^./?#]+(?=[?#]|$)/, '.json');
+}
+
+/**
+ * Decodes height data from bytes. Works without a DOM, so Node scripts and
+ * tests can use it for every format except `image`.
+ */
+export async function decodeHeightMap(
+  buffer: ArrayBuffer,
+  format: Exclude<HeightMapFormat, 'image'>,
+  options: { elevation?: ElevationRange | null; sidecar?: unknown } = {},
+): Promise<HeightMapData> {
+  switch (format) {
+    case 'png':
+      return decodePng(buffer, options.elevation ?? null);
+    case 'raw':
+      return decodeRawGrid(buffer, parseRawGridSidecar(options.sidecar));
+    case 'geotiff':
+      return decodeGeoTiff(buffer);
+  }
+}
+
+function loadImageHeightMap(
   url: string,
-): Promise<HeightMapData | null> {
-  return new Promise((resolve) => {
+  elevation: ElevationRange | null,
+): Promise<HeightMapData> {
+  return new Promise((resolve, reject) => {
     const img = new Image();
     img.crossOrigin = 'anonymous';
     img.src = url;
@@ -19,37 +99,145 @@ export async function loadHeightMap(
       canvas.height = img.height;
       const ctx = canvas.getContext('2d');
       if (!ctx) {
-        resolve(null);
+        reject(new Error(`Could not read the pixels of ${url}`));
         return;
       }
       ctx.drawImage(img, 0, 0);
       const imageData = ctx.getImageData(0, 0, img.width, img.height);
-      resolve({
-        data: imageData.data,
-        width: img.width,
-        height: img.height,
-      });
+      // Assuming grayscale, use R channel
+      const data = new Float32Array(img.width * img.height);
+      for (let i = 0; i < data.length; i++) {
+        data[i] = imageData.data[i * 4] / 255;
+      }
+      resolve({ data, width: img.width, height: img.height, elevation });
     };
-    img.onerror = () => resolve(null);
+    img.onerror = () => reject(new Error(`Could not load ${url}`));
   });
 }
 
+async function fetchBuffer(url: string): Promise<ArrayBuffer> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to fetch ${url}: ${res.status}`);
+  return res.arrayBuffer();
+}
+
+/**
+ * Loads a height map in any supported format. PNGs the JS decoder doesn't
+ * handle (palette, sub-8-bit, interlaced) go through the browser instead, at
+ * 8 bits. Rejects if the map can't be fetched or decoded.
+ */
+export async function loadHeightMap(
+  url: string,
+  options: HeightMapLoadOptions = {},
+): Promise<HeightMapData> {
+  const format = options.format ?? detectHeightMapFormat(url);
+  const elevation = options.elevation ?? null;
+  if (format === 'image') return loadImageHeightMap(url, elevation);
+
+  const sidecar =
+    format === 'raw'
+      ? JSON.parse(
+          new TextDecoder().decode(await fetchBuffer(getRawSidecarUrl(url))),
+        )
+      : undefined;
+  const buffer = await fetchBuffer(url);
+  try {
+    return await decodeHeightMap(buffer, format, { elevation, sidecar });
+  } catch (err) {
+    if (format !== 'png') throw err;
+    return loadImageHeightMap(url, elevation);
+  }
+}
+
+/**
+ * How heights are reconstructed between texels. Bilinear and bicubic remove
+ * the stair-stepping of nearest-neighbour lookups at high LOD.
+ */
+export type HeightSampling = 'nearest' | 'bilinear' | 'bicubic';
+
+export const HEIGHT_SAMPLING_MODES: HeightSampling[] = [
+  'nearest',
+  'bilinear',
+  'bicubic',
+];
+
+/**
+ * Reads one texel, treating the map as an equirectangular projection:
+ * columns wrap around at the antimeridian, and stepping past a pole lands on
+ * the same latitude row on the opposite side of the globe.
+ */
+function texel(heightMap: HeightGrid, x: number, y: number): number {
+  const { width, height } = heightMap;
+  if (y < 0) {
+    y = -y - 1;
+    x += width / 2;
+  } else if (y >= height) {
+    y = 2 * height - y - 1;
+    x += width / 2;
+  }
+  y = Math.max(0, Math.min(height - 1, y));
+  x = (((Math.floor(x) % width) + width) % width) | 0;
+  return heightMap.data[y * width + x];
+}
+
+// Catmull-Rom spline through p0..p3, evaluated between p1 and p2
+function cubic(p0: number, p1: number, p2: number, p3: number, t: number) {
+  return (
+    p1 +
+    0.5 *
+      t *
+      (p2 -
+        p0 +
+        t * (2 * p0 - 5 * p1 + 4 * p2 - p3 + t * (3 * (p1 - p2) + p3 - p0)))
+  );
+}
+
+/**
+ * Samples the normalised height (0-1) at cylindrical UV coordinates.
+ * Texel centres sit at (x + 0.5) / width, so u = 0 and u = 1 are the same
+ * meridian and interpolate across the seam instead of clamping.
+ */
 export function sampleHeight(
   u: number,
   v: number,
-  heightMap: HeightMapData,
+  heightMap: HeightGrid,
+  sampling: HeightSampling = 'bilinear',
 ): number {
-  const x = Math.max(
-    0,
-    Math.min(heightMap.width - 1, Math.floor(u * (heightMap.width - 1))),
-  );
-  const y = Math.max(
-    0,
-    Math.min(heightMap.height - 1, Math.floor(v * (heightMap.height - 1))),
-  );
-  const index = (y * heightMap.width + x) * 4;
-  // Assuming grayscale, use R channel
-  return heightMap.data[index] / 255;
+  const fx = u * heightMap.width - 0.5;
+  const fy = v * heightMap.height - 0.5;
+
+  if (sampling === 'nearest') {
+    return texel(heightMap, Math.round(fx), Math.round(fy));
+  }
+
+  const x0 = Math.floor(fx);
+  const y0 = Math.floor(fy);
+  const tx = fx - x0;
+  const ty = fy - y0;
+
+  if (sampling === 'bilinear') {
+    const top =
+      texel(heightMap, x0, y0) * (1 - tx) + texel(heightMap, x0 + 1, y0) * tx;
+    const bottom =
+      texel(heightMap, x0, y0 + 1) * (1 - tx) +
+      texel(heightMap, x0 + 1, y0 + 1) * tx;
+    return top * (1 - ty) + bottom * ty;
+  }
+
+  const rows: number[] = [];
+  for (let dy = -1; dy <= 2; dy++) {
+    const y = y0 + dy;
+    rows.push(
+      cubic(
+        texel(heightMap, x0 - 1, y),
+        texel(heightMap, x0, y),
+        texel(heightMap, x0 + 1, y),
+        texel(heightMap, x0 + 2, y),
+        tx,
+      ),
+    );
+  }
+  return cubic(rows[0], rows[1], rows[2], rows[3], ty);
 }
 
 export function getCylindricalUV(v: THREE.Vector3) {
@@ -66,3 +254,18 @@ export function getCylindricalUV(v: THREE.Vector3) {
 
   return { u, v: 1 - v_coord };
 }
+
+/** Inverse of getCylindricalUV: the unit direction at a (u, v) coordinate. */
+export function getCylindricalDirection(
+  u: number,
+  v: number,
+  out = new THREE.Vector3(),
+) {
+  const lon = u * 2 * Math.PI - Math.PI;
+  const lat = Math.PI / 2 - v * Math.PI;
+  return out.set(
+    Math.cos(lat) * Math.sin(lon),
+    Math.sin(lat),
+    Math.cos(lat) * Math.cos(lon),
+  );
+}
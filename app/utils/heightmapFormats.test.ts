@@ -0,0 +1,238 @@
+import { describe, expect, it } from 'vitest';
+import { deflateSync } from 'node:zlib';
+import { decodeGeoTiff, decodePng, decodeRawGrid } from './heightmapFormats';
+import {
+  decodeHeightMap,
+  detectHeightMapFormat,
+  getRawSidecarUrl,
+} from './heightmap';
+
+// Minimal PNG writer: one IDAT, every scanline using the given filter type.
+// The decoder doesn't verify CRCs, so they are left as zero.
+function encodePng(
+  width: number,
+  height: number,
+  bitDepth: 8 | 16,
+  colorType: number,
+  channels: number,
+  sample: (x: number, y: number) => number,
+  filter = 0,
+) {
+  const bpp = (channels * bitDepth) / 8;
+  const stride = width * bpp;
+  const pixels = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const v = sample(x, y);
+      for (let c = 0; c < channels; c++) {
+        const p = y * stride + x * bpp + (c * bitDepth) / 8;
+        if (bitDepth === 16) {
+          pixels[p] = v >> 8;
+          pixels[p + 1] = v & 0xff;
+        } else {
+          pixels[p] = v;
+        }
+      }
+    }
+  }
+
+  const raw = new Uint8Array(height * (stride + 1));
+  for (let y = 0; y < height; y++) {
+    raw[y * (stride + 1)] = filter;
+    for (let x = 0; x < stride; x++) {
+      const cur = pixels[y * stride + x];
+      // Only "Sub" is used besides "None"
+      const left = filter === 1 && x >= bpp ? pixels[y * stride + x - bpp] : 0;
+      raw[y * (stride + 1) + 1 + x] = (cur - left) & 0xff;
+    }
+  }
+
+  const chunk = (type: string, data: Uint8Array) => {
+    const out = new Uint8Array(12 + data.length);
+    const view = new DataView(out.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+    out.set(data, 8);
+    return out;
+  };
+  const ihdr = new Uint8Array(13);
+  const ihdrView = new DataView(ihdr.buffer);
+  ihdrView.setUint32(0, width);
+  ihdrView.setUint32(4, height);
+  ihdr[8] = bitDepth;
+  ihdr[9] = colorType;
+
+  const parts = [
+    new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]),
+    chunk('IHDR', ihdr),
+    chunk('IDAT', new Uint8Array(deflateSync(raw))),
+    chunk('IEND', new Uint8Array()),
+  ];
+  const png = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    png.set(part, offset);
+    offset += part.length;
+  }
+  return png.buffer;
+}
+
+// Minimal single-strip TIFF writer for one band of samples
+function encodeTiff(
+  width: number,
+  height: number,
+  samples: number[],
+  { le = true, bits = 16, sampleFormat = 2, noData = '' } = {},
+) {
+  const bytesPerSample = bits / 8;
+  const entries: [number, number, number, number][] = [
+    [256, 3, 1, width],
+    [257, 3, 1, height],
+    [258, 3, 1, bits],
+    [259, 3, 1, 1],
+    [273, 4, 1, 0], // patched below
+    [277, 3, 1, 1],
+    [279, 4, 1, width * height * bytesPerSample],
+    [339, 3, 1, sampleFormat],
+  ];
+  if (noData) entries.push([42113, 2, noData.length + 1, 0]);
+
+  const ifdSize = 2 + entries.length * 12 + 4;
+  const ascii = 8 + ifdSize;
+  const dataOffset = ascii + noData.length + 1;
+  const buffer = new ArrayBuffer(dataOffset + samples.length * bytesPerSample);
+  const view = new DataView(buffer);
+  view.setUint16(0, le ? 0x4949 : 0x4d4d);
+  view.setUint16(2, 42, le);
+  view.setUint32(4, 8, le);
+  view.setUint16(8, entries.length, le);
+  entries.forEach(([tag, type, count, value], i) => {
+    const at = 10 + i * 12;
+    view.setUint16(at, tag, le);
+    view.setUint16(at + 2, type, le);
+    view.setUint32(at + 4, count, le);
+    if (tag === 273) view.setUint32(at + 8, dataOffset, le);
+    else if (tag === 42113) view.setUint32(at + 8, ascii, le);
+    else if (type === 3) view.setUint16(at + 8, value, le);
+    else view.setUint32(at + 8, value, le);
+  });
+  for (let i = 0; i < noData.length; i++) {
+    view.setUint8(ascii + i, noData.charCodeAt(i));
+  }
+  samples.forEach((v, i) => {
+    const at = dataOffset + i * bytesPerSample;
+    if (sampleFormat === 3) view.setFloat32(at, v, le);
+    else view.setInt16(at, v, le);
+  });
+  return buffer;
+}
+
+describe('decodePng', () => {
+  it('keeps full precision of 16-bit grayscale', async () => {
+    const png = encodePng(4, 2, 16, 0, 1, (x, y) => x * 1000 + y * 30000 + 7);
+    const map = await decodePng(png);
+    expect(map.width).toBe(4);
+    expect(map.height).toBe(2);
+    expect(map.data[1]).toBeCloseTo(1007 / 65535, 7);
+    expect(map.data[7]).toBeCloseTo(33007 / 65535, 7);
+    expect(map.elevation).toBeNull();
+  });
+
+  it('reads the first channel of 8-bit RGBA and undoes filters', async () => {
+    const png = encodePng(5, 3, 8, 6, 4, (x, y) => x * 40 + y, 1);
+    const map = await decodePng(png, { min: -100, max: 100 });
+    expect(map.data[0]).toBeCloseTo(0, 7);
+    expect(map.data[4]).toBeCloseTo(160 / 255, 7);
+    expect(map.data[13]).toBeCloseTo(122 / 255, 7);
+    expect(map.elevation).toEqual({ min: -100, max: 100 });
+  });
+
+  it('rejects files that are not PNGs', async () => {
+    await expect(decodePng(new ArrayBuffer(16))).rejects.toThrow(/PNG/);
+  });
+});
+
+describe('decodeRawGrid', () => {
+  it('normalises a Float32 grid between the sidecar elevations', () => {
+    const values = new Float32Array([-1000, 0, 500, 1000]);
+    const map = decodeRawGrid(values.buffer, {
+      width: 2,
+      height: 2,
+      format: 'float32',
+      minElevation: -1000,
+      maxElevation: 1000,
+    });
+    expect(Array.from(map.data)).toEqual([0, 0.5, 0.75, 1]);
+    expect(map.elevation).toEqual({ min: -1000, max: 1000 });
+  });
+
+  it('derives the range of an Int16 grid from its data, skipping nodata', () => {
+    const values = new Int16Array([-32768, -200, 0, 800]);
+    const map = decodeRawGrid(values.buffer, {
+      width: 4,
+      height: 1,
+      format: 'int16',
+      noData: -32768,
+    });
+    expect(map.elevation).toEqual({ min: -200, max: 800 });
+    expect(Array.from(map.data)).toEqual([0, 0, Math.fround(0.2), 1]);
+  });
+
+  it('rejects grids whose size does not match the sidecar', () => {
+    expect(() =>
+      decodeRawGrid(new ArrayBuffer(10), {
+        width: 2,
+        height: 2,
+        format: 'float32',
+      }),
+    ).toThrow(/expected 2x2/);
+  });
+});
+
+describe('decodeGeoTiff', () => {
+  it('reads little-endian Int16 elevations with GDAL nodata', () => {
+    const tiff = encodeTiff(3, 2, [-9999, -50, 0, 50, 100, 150], {
+      noData: '-9999',
+    });
+    const map = decodeGeoTiff(tiff);
+    expect(map.width).toBe(3);
+    expect(map.height).toBe(2);
+    expect(map.elevation).toEqual({ min: -50, max: 150 });
+    expect(map.data[0]).toBe(0);
+    expect(map.data[5]).toBeCloseTo(1, 7);
+    expect(map.data[3]).toBeCloseTo(0.5, 7);
+  });
+
+  it('reads big-endian Float32 elevations', () => {
+    const tiff = encodeTiff(2, 2, [10.5, 20.5, 30.5, 40.5], {
+      le: false,
+      bits: 32,
+      sampleFormat: 3,
+    });
+    const map = decodeGeoTiff(tiff);
+    expect(map.elevation).toEqual({ min: 10.5, max: 40.5 });
+    expect(map.data[1]).toBeCloseTo(1 / 3, 6);
+  });
+});
+
+describe('decodeHeightMap', () => {
+  it('dispatches on format and validates raw sidecars', async () => {
+    const grid = new Float32Array([0, 1]).buffer;
+    const map = await decodeHeightMap(grid, 'raw', {
+      sidecar: { width: 2, height: 1, format: 'float32' },
+    });
+    expect(Array.from(map.data)).toEqual([0, 1]);
+    await expect(
+      decodeHeightMap(grid, 'raw', { sidecar: { width: 2 } }),
+    ).rejects.toThrow(/sidecar/);
+  });
+
+  it('picks formats and sidecars from file names', () => {
+    expect(detectHeightMapFormat('maps/earth.png')).toBe('png');
+    expect(detectHeightMapFormat('maps/earth.TIF?v=2')).toBe('geotiff');
+    expect(detectHeightMapFormat('maps/earth.f32')).toBe('raw');
+    expect(detectHeightMapFormat('maps/earth.jpg')).toBe('image');
+    expect(getRawSidecarUrl('maps/earth.f32')).toBe('maps/earth.json');
+    expect(getRawSidecarUrl('maps/earth.i16?v=2')).toBe('maps/earth.json?v=2');
+  });
+});
@@ -0,0 +1,370 @@
+import type { ElevationRange, HeightMapData } from './heightmap';
+
+/**
+ * ============================================================================
+ * HEIGHTMAP DECODERS
+ * ============================================================================
+ * Pure decoders for the height formats that a 2D canvas can't read without
+ * losing precision. They take raw bytes and return a normalised
+ * HeightMapData, so they run the same in the browser, a worker and Node.
+ *
+ * - PNG: 8 or 16-bit grayscale (or the first channel of RGB/RGBA)
+ * - Raw grids: little-endian Float32 or Int16 with a JSON sidecar
+ * - GeoTIFF-lite: single-band, uncompressed, strip-organised TIFF
+ */
+
+/** Sidecar describing a raw elevation grid, stored next to it as JSON. */
+export interface RawGridSidecar {
+  width: number;
+  height: number;
+  format: 'float32' | 'int16';
+  /** Elevation (metres) of the lowest/highest value; defaults to the data. */
+  minElevation?: number;
+  maxElevation?: number;
+  /** Value marking missing samples; these are treated as the minimum. */
+  noData?: number;
+}
+
+/**
+ * Turns raw samples into normalised heights (0-1). When `elevation` is
+ * given, raw values are in metres and the range maps them to 0-1; otherwise
+ * the range is taken from the data itself.
+ */
+function normaliseSamples(
+  values: ArrayLike<number>,
+  width: number,
+  height: number,
+  elevation: Partial<ElevationRange> | null,
+  noData?: number,
+): HeightMapData {
+  // Samples are compared after the same Float32 rounding they went through
+  const missing = noData === undefined ? undefined : Math.fround(noData);
+  const isValid = (v: number) => Number.isFinite(v) && v !== missing;
+
+  let min = elevation?.min ?? Infinity;
+  let max = elevation?.max ?? -Infinity;
+  if (elevation?.min === undefined || elevation?.max === undefined) {
+    for (let i = 0; i < values.length; i++) {
+      const v = values[i];
+      if (!isValid(v)) continue;
+      if (elevation?.min === undefined && v < min) min = v;
+      if (elevation?.max === undefined && v > max) max = v;
+    }
+  }
+  if (!Number.isFinite(min) || !Number.isFinite(max)) {
+    throw new Error('Height data contains no valid samples');
+  }
+
+  const span = max - min || 1;
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    const v = values[i];
+    data[i] = isValid(v) ? (v - min) / span : 0;
+  }
+  return { data, width, height, elevation: { min, max } };
+}
+
+/**
+ * ============================================================================
+ * PNG
+ * ============================================================================
+ */
+const PNG_SIGNATURE = [137, 80, 78, 71, 13, 10, 26, 10];
+
+// Samples per pixel by PNG colour type; palette images (3) aren't heights
+const PNG_CHANNELS: Record<number, number> = { 0: 1, 2: 3, 4: 2, 6: 4 };
+
+async function inflate(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function paeth(a: number, b: number, c: number) {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  if (pa <= pb && pa <= pc) return a;
+  return pb <= pc ? b : c;
+}
+
+/**
+ * Decodes a non-interlaced 8 or 16-bit PNG and returns its first channel as
+ * normalised heights. Pass `elevation` to attach real units to the 0-1 range.
+ */
+export async function decodePng(
+  buffer: ArrayBuffer,
+  elevation: ElevationRange | null = null,
+): Promise<HeightMapData> {
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  if (!PNG_SIGNATURE.every((b, i) => bytes[i] === b)) {
+    throw new Error('Not a PNG file');
+  }
+
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  const idat: Uint8Array[] = [];
+
+  for (let offset = 8; offset < bytes.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+    const data = bytes.subarray(offset + 8, offset + 8 + length);
+
+    if (type === 'IHDR') {
+      width = view.getUint32(offset + 8);
+      height = view.getUint32(offset + 12);
+      bitDepth = data[8];
+      colorType = data[9];
+      if (data[12] !== 0) throw new Error('Interlaced PNGs are not supported');
+    } else if (type === 'IDAT') {
+      idat.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset += 12 + length;
+  }
+
+  const channels = PNG_CHANNELS[colorType];
+  if (!channels) throw new Error(`Unsupported PNG colour type ${colorType}`);
+  if (bitDepth !== 8 && bitDepth !== 16) {
+    throw new Error(`Unsupported PNG bit depth ${bitDepth}`);
+  }
+
+  const compressed = new Uint8Array(idat.reduce((n, d) => n + d.length, 0));
+  let written = 0;
+  for (const chunk of idat) {
+    compressed.set(chunk, written);
+    written += chunk.length;
+  }
+  const raw = await inflate(compressed);
+
+  // Undo the per-scanline filters
+  const bpp = (channels * bitDepth) / 8;
+  const stride = width * bpp;
+  const pixels = new Uint8Array(height * stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const src = y * (stride + 1) + 1;
+    const row = y * stride;
+    const prev = row - stride;
+    for (let x = 0; x < stride; x++) {
+      const a = x >= bpp ? pixels[row + x - bpp] : 0;
+      const b = y > 0 ? pixels[prev + x] : 0;
+      const c = x >= bpp && y > 0 ? pixels[prev + x - bpp] : 0;
+      let predictor = 0;
+      if (filter === 1) predictor = a;
+      else if (filter === 2) predictor = b;
+      else if (filter === 3) predictor = (a + b) >> 1;
+      else if (filter === 4) predictor = paeth(a, b, c);
+      pixels[row + x] = (raw[src + x] + predictor) & 0xff;
+    }
+  }
+
+  const maxValue = bitDepth === 16 ? 65535 : 255;
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    const p = i * bpp;
+    const value =
+      bitDepth === 16 ? (pixels[p] << 8) | pixels[p + 1] : pixels[p];
+    data[i] = value / maxValue;
+  }
+  return { data, width, height, elevation };
+}
+
+/**
+ * ============================================================================
+ * RAW GRIDS
+ * ============================================================================
+ */
+
+/** Decodes a little-endian Float32 or Int16 grid described by its sidecar. */
+export function decodeRawGrid(
+  buffer: ArrayBuffer,
+  sidecar: RawGridSidecar,
+): HeightMapData {
+  const { width, height, format } = sidecar;
+  const bytesPerSample = format === 'float32' ? 4 : 2;
+  if (buffer.byteLength !== width * height * bytesPerSample) {
+    throw new Error(
+      `Raw grid is ${buffer.byteLength} bytes, expected ${width}x${height} ${format}`,
+    );
+  }
+
+  const view = new DataView(buffer);
+  const values = new Float32Array(width * height);
+  for (let i = 0; i < values.length; i++) {
+    values[i] =
+      format === 'float32'
+        ? view.getFloat32(i * 4, true)
+        : view.getInt16(i * 2, true);
+  }
+  return normaliseSamples(
+    values,
+    width,
+    height,
+    { min: sidecar.minElevation, max: sidecar.maxElevation },
+    sidecar.noData,
+  );
+}
+
+/** Validates parsed sidecar JSON. */
+export function parseRawGridSidecar(json: unknown): RawGridSidecar {
+  const s = json as Partial<RawGridSidecar> | null;
+  if (
+    !s ||
+    !Number.isInteger(s.width) ||
+    !Number.isInteger(s.height) ||
+    (s.format !== 'float32' && s.format !== 'int16')
+  ) {
+    throw new Error(
+      'Raw grid sidecar needs integer width/height and format float32|int16',
+    );
+  }
+  return s as RawGridSidecar;
+}
+
+/**
+ * ============================================================================
+ * GEOTIFF-LITE
+ * ============================================================================
+ */
+const TIFF_TAG = {
+  ImageWidth: 256,
+  ImageLength: 257,
+  BitsPerSample: 258,
+  Compression: 259,
+  StripOffsets: 273,
+  SamplesPerPixel: 277,
+  StripByteCounts: 279,
+  Predictor: 317,
+  TileWidth: 322,
+  SampleFormat: 339,
+  GdalNoData: 42113,
+};
+
+// Byte size of each TIFF field type we know how to read
+const TIFF_TYPE_SIZE: Record<number, number> = {
+  1: 1, // BYTE
+  2: 1, // ASCII
+  3: 2, // SHORT
+  4: 4, // LONG
+  11: 4, // FLOAT
+  12: 8, // DOUBLE
+};
+
+/**
+ * Decodes the first image of a single-band, uncompressed, strip-organised
+ * (Geo)TIFF. Samples are taken to be elevations in metres; GDAL's nodata
+ * tag is honoured.
+ */
+export function decodeGeoTiff(buffer: ArrayBuffer): HeightMapData {
+  const view = new DataView(buffer);
+  const order = view.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) throw new Error('Not a TIFF file');
+  const le = order === 0x4949;
+  if (view.getUint16(2, le) !== 42) {
+    throw new Error('Only classic (non-Big) TIFF is supported');
+  }
+
+  const tags = new Map<number, number[] | string>();
+  const ifd = view.getUint32(4, le);
+  const count = view.getUint16(ifd, le);
+  for (let e = 0; e < count; e++) {
+    const entry = ifd + 2 + e * 12;
+    const tag = view.getUint16(entry, le);
+    const type = view.getUint16(entry + 2, le);
+    const n = view.getUint32(entry + 4, le);
+    const size = TIFF_TYPE_SIZE[type];
+    if (!size) continue;
+    const at = size * n <= 4 ? entry + 8 : view.getUint32(entry + 8, le);
+
+    if (type === 2) {
+      const chars = new Uint8Array(buffer, at, n);
+      tags.set(tag, String.fromCharCode(...chars).replace(/\0+$/, ''));
+      continue;
+    }
+    const values: number[] = [];
+    for (let i = 0; i < n; i++) {
+      const p = at + i * size;
+      if (type === 1) values.push(view.getUint8(p));
+      else if (type === 3) values.push(view.getUint16(p, le));
+      else if (type === 4) values.push(view.getUint32(p, le));
+      else if (type === 11) values.push(view.getFloat32(p, le));
+      else values.push(view.getFloat64(p, le));
+    }
+    tags.set(tag, values);
+  }
+
+  const num = (tag: number, fallback?: number) => {
+    const v = tags.get(tag);
+    if (Array.isArray(v)) return v[0];
+    if (fallback === undefined) throw new Error(`TIFF is missing tag ${tag}`);
+    return fallback;
+  };
+  const list = (tag: number) => {
+    const v = tags.get(tag);
+    if (!Array.isArray(v)) throw new Error(`TIFF is missing tag ${tag}`);
+    return v;
+  };
+
+  if (num(TIFF_TAG.Compression, 1) !== 1) {
+    throw new Error('Only uncompressed TIFFs are supported');
+  }
+  if (num(TIFF_TAG.SamplesPerPixel, 1) !== 1) {
+    throw new Error('Only single-band TIFFs are supported');
+  }
+  if (tags.has(TIFF_TAG.TileWidth)) {
+    throw new Error('Tiled TIFFs are not supported');
+  }
+  if (num(TIFF_TAG.Predictor, 1) !== 1) {
+    throw new Error('TIFF predictors are not supported');
+  }
+
+  const width = num(TIFF_TAG.ImageWidth);
+  const height = num(TIFF_TAG.ImageLength);
+  const bits = num(TIFF_TAG.BitsPerSample, 1);
+  const sampleFormat = num(TIFF_TAG.SampleFormat, 1);
+  const bytesPerSample = bits / 8;
+
+  const read = (p: number): number => {
+    if (sampleFormat === 3) {
+      if (bits === 32) return view.getFloat32(p, le);
+      if (bits === 64) return view.getFloat64(p, le);
+    } else if (sampleFormat === 2) {
+      if (bits === 8) return view.getInt8(p);
+      if (bits === 16) return view.getInt16(p, le);
+      if (bits === 32) return view.getInt32(p, le);
+    } else if (sampleFormat === 1) {
+      if (bits === 8) return view.getUint8(p);
+      if (bits === 16) return view.getUint16(p, le);
+      if (bits === 32) return view.getUint32(p, le);
+    }
+    throw new Error(`Unsupported TIFF sample format ${sampleFormat}/${bits}`);
+  };
+
+  const values = new Float32Array(width * height);
+  const offsets = list(TIFF_TAG.StripOffsets);
+  const byteCounts = list(TIFF_TAG.StripByteCounts);
+  let i = 0;
+  for (let s = 0; s < offsets.length && i < values.length; s++) {
+    const samples = byteCounts[s] / bytesPerSample;
+    for (let k = 0; k < samples && i < values.length; k++) {
+      values[i++] = read(offsets[s] + k * bytesPerSample);
+    }
+  }
+
+  const noDataTag = tags.get(TIFF_TAG.GdalNoData);
+  const noData = typeof noDataTag === 'string' ? parseFloat(noDataTag) : NaN;
+  return normaliseSamples(
+    values,
+    width,
+    height,
+    null,
+    Number.isNaN(noData) ? undefined : noData,
+  );
+}
@@ -0,0 +1,260 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import {
+  MESH_EXPORT_FORMATS,
+  buildUniformPlanetMesh,
+  displaceExportMesh,
+  exportGLB,
+  exportMesh,
+  exportOBJ,
+  exportSTL,
+  getUniformMeshParams,
+  removeSkirts,
+} from './meshExport';
+import type { ExportMesh } from './meshExport';
+import { buildPlanetMesh } from './planetMesher';
+import {
+  DEFAULT_QUADTREE_SETTINGS,
+  buildCubeSphereMesh,
+} from './cubeSphereMesher';
+import type { PlanetMeshParams } from './planetMesher';
+import { DEFAULT_ELEVATION_SETTINGS } from './elevation';
+import { DEFAULT_NORMAL_EPSILON } from './terrainNormals';
+import { DEFAULT_PROCEDURAL_TERRAIN } from './heightSource';
+import { createPlanetSurface } from './planetSurface';
+
+const params: PlanetMeshParams = {
+  radius: 10,
+  minDetail: 2,
+  maxDetail: 8,
+  steps: 3,
+  stepGamma: 1,
+  center: [0, 0, 0],
+  target: [0, 10.7, 0],
+  lodMode: 'distance',
+  camera: null,
+  maxScreenError: 8,
+  culling: false,
+  elevation: { ...DEFAULT_ELEVATION_SETTINGS, exaggeration: 0 },
+  terrain: { type: 'heightmap', sampling: 'bilinear' },
+  normalEpsilon: DEFAULT_NORMAL_EPSILON,
+};
+
+const mesh = buildUniformPlanetMesh(params, 4, null);
+
+// The JSON chunk and BIN chunk of a GLB file
+function readGLB(glb: Uint8Array) {
+  const view = new DataView(glb.buffer, glb.byteOffset, glb.byteLength);
+  const jsonLength = view.getUint32(12, true);
+  const json = JSON.parse(
+    new TextDecoder().decode(glb.subarray(20, 20 + jsonLength)),
+  );
+  const binStart = 20 + jsonLength + 8;
+  const bin = glb.slice(
+    binStart,
+    binStart + view.getUint32(binStart - 8, true),
+  );
+  return { view, json, bin };
+}
+
+function readAccessor(
+  { json, bin }: ReturnType<typeof readGLB>,
+  index: number,
+) {
+  const accessor = json.accessors[index];
+  const bufferView = json.bufferViews[accessor.bufferView];
+  const Type = accessor.componentType === 5125 ? Uint32Array : Float32Array;
+  return new Type(
+    bin.buffer,
+    bufferView.byteOffset,
+    bufferView.byteLength / Type.BYTES_PER_ELEMENT,
+  );
+}
+
+describe('buildUniformPlanetMesh', () => {
+  it('ignores the LOD target', () => {
+    const moved = buildUniformPlanetMesh(
+      { ...params, target: [10.7, 0, 0] },
+      4,
+      null,
+    );
+    expect(moved.indices.length).toBe(mesh.indices.length);
+    expect(
+      buildUniformPlanetMesh(params, 8, null).indices.length,
+    ).toBeGreaterThan(mesh.indices.length);
+  });
+});
+
+describe('exportGLB', () => {
+  it('writes a valid GLB container', () => {
+    const glb = exportGLB(mesh);
+    const { view, json } = readGLB(glb);
+    expect(view.getUint32(0, true)).toBe(0x46546c67);
+    expect(view.getUint32(4, true)).toBe(2);
+    expect(view.getUint32(8, true)).toBe(glb.byteLength);
+    expect(glb.byteLength % 4).toBe(0);
+    expect(json.asset.version).toBe('2.0');
+    expect(Object.keys(json.meshes[0].primitives[0].attributes)).toEqual([
+      'POSITION',
+      'NORMAL',
+      'TEXCOORD_0',
+    ]);
+  });
+
+  it('stores the mesh as it is without UVs', () => {
+    const glb = readGLB(exportGLB(mesh, { normals: false, uvs: false }));
+    const { attributes, indices } = glb.json.meshes[0].primitives[0];
+    expect(Object.keys(attributes)).toEqual(['POSITION']);
+    expect(readAccessor(glb, indices)).toEqual(mesh.indices);
+    expect(readAccessor(glb, attributes.POSITION)).toEqual(mesh.positions);
+    const { min, max } = glb.json.accessors[attributes.POSITION];
+    expect(min[1]).toBeCloseTo(-10, 4);
+    expect(max[1]).toBeCloseTo(10, 4);
+  });
+
+  it('splits UVs at the antimeridian and the poles', () => {
+    const glb = readGLB(exportGLB(mesh, { normals: true, uvs: true }));
+    const { attributes, indices } = glb.json.meshes[0].primitives[0];
+    const uvs = readAccessor(glb, attributes.TEXCOORD_0);
+    const triangles = readAccessor(glb, indices);
+    expect(uvs.length / 2).toBeGreaterThan(mesh.positions.length / 3);
+    for (let t = 0; t < triangles.length; t += 3) {
+      const us = [0, 1, 2].map((c) => uvs[triangles[t + c] * 2]);
+      expect(Math.max(...us) - Math.min(...us)).toBeLessThan(0.5);
+    }
+  });
+
+  it('keeps the UVs of a mesh that already has them', () => {
+    const uvs = new Float32Array((mesh.positions.length / 3) * 2).fill(0.25);
+    const glb = readGLB(exportGLB({ ...mesh, uvs }));
+    const { attributes } = glb.json.meshes[0].primitives[0];
+    expect(readAccessor(glb, attributes.TEXCOORD_0)).toEqual(uvs);
+  });
+});
+
+describe('exportOBJ', () => {
+  const count = (obj: string, prefix: string) =>
+    obj.split('\n').filter((line) => line.startsWith(`${prefix} `)).length;
+
+  it('writes one line per vertex attribute and face', () => {
+    const obj = exportOBJ(mesh, { normals: true, uvs: false });
+    const vertexCount = mesh.positions.length / 3;
+    expect(count(obj, 'v')).toBe(vertexCount);
+    expect(count(obj, 'vn')).toBe(vertexCount);
+    expect(count(obj, 'vt')).toBe(0);
+    expect(count(obj, 'f')).toBe(mesh.indices.length / 3);
+    expect(obj).toMatch(/^f \d+\/\/\d+ \d+\/\/\d+ \d+\/\/\d+$/m);
+  });
+
+  it('uses 1-based indices', () => {
+    const triangle: ExportMesh = {
+      positions: new Float32Array([1, 0, 0, 0, 1, 0, 0, 0, 1]),
+      normals: new Float32Array(9),
+      indices: new Uint32Array([0, 1, 2]),
+    };
+    expect(exportOBJ(triangle, { normals: false, uvs: false })).toBe(
+      '# Planet mesh\no Planet\nv 1 0 0\nv 0 1 0\nv 0 0 1\nf 1 2 3\n',
+    );
+  });
+});
+
+describe('exportSTL', () => {
+  it('writes outward facet normals for every triangle', () => {
+    const stl = exportSTL(mesh);
+    const view = new DataView(stl.buffer);
+    const triangleCount = mesh.indices.length / 3;
+    expect(view.getUint32(80, true)).toBe(triangleCount);
+    expect(stl.byteLength).toBe(84 + triangleCount * 50);
+
+    const read = (offset: number) =>
+      new THREE.Vector3(
+        view.getFloat32(offset, true),
+        view.getFloat32(offset + 4, true),
+        view.getFloat32(offset + 8, true),
+      );
+    for (let t = 0; t < triangleCount; t++) {
+      const offset = 84 + t * 50;
+      expect(read(offset).dot(read(offset + 12))).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('exportMesh', () => {
+  it('encodes every format as bytes', () => {
+    const obj = new TextDecoder().decode(exportMesh(mesh, 'obj'));
+    expect(obj).toBe(exportOBJ(mesh));
+    expect(exportMesh(mesh, 'stl')).toEqual(exportSTL(mesh));
+    expect(exportMesh(mesh, 'glb').byteLength).toBe(exportGLB(mesh).byteLength);
+  });
+
+  it('rejects a mesh without triangles', () => {
+    const empty: ExportMesh = {
+      positions: new Float32Array(),
+      normals: new Float32Array(),
+      indices: new Uint32Array(),
+    };
+    for (const format of MESH_EXPORT_FORMATS) {
+      expect(() => exportMesh(empty, format)).toThrow('no triangles');
+    }
+    expect(() => exportGLB(empty)).toThrow('no triangles');
+  });
+});
+
+describe('removeSkirts', () => {
+  it('keeps the surface triangles and the vertices they use', () => {
+    const cube = buildCubeSphereMesh(
+      {
+        ...params,
+        quadtree: {
+          ...DEFAULT_QUADTREE_SETTINGS,
+          maxDepth: 2,
+          patchResolution: 4,
+        },
+      },
+      null,
+    );
+    const surface = removeSkirts(cube, cube.skirtStart!);
+    expect(surface.indices.length).toBe(cube.skirtStart);
+    expect(Math.max(...surface.indices)).toBe(surface.positions.length / 3 - 1);
+    expect(surface.normals.length).toBe(surface.positions.length);
+
+    // Every vertex left is on the surface, none hangs below it
+    const radii = Array.from({ length: surface.positions.length / 3 }, (_, i) =>
+      Math.hypot(...surface.positions.subarray(i * 3, i * 3 + 3)),
+    );
+    expect(Math.min(...radii)).toBeCloseTo(10, 4);
+    const corner = (m: ExportMesh, i: number) =>
+      Array.from(m.positions.subarray(m.indices[i] * 3, m.indices[i] * 3 + 3));
+    const moved = Array.from(surface.indices).filter(
+      (_, i) => corner(surface, i).join() !== corner(cube, i).join(),
+    );
+    expect(moved).toEqual([]);
+  });
+});
+
+describe('displaceExportMesh', () => {
+  it('bakes the relief of a GPU-displaced mesh into its vertices', () => {
+    const terrain = {
+      ...params,
+      elevation: { ...params.elevation, exaggeration: 50 },
+      terrain: {
+        type: 'procedural' as const,
+        settings: DEFAULT_PROCEDURAL_TERRAIN,
+      },
+    };
+    const baked = buildUniformPlanetMesh(terrain, 4, null);
+    const bare = buildPlanetMesh(
+      { ...getUniformMeshParams(terrain, 4), displacement: 'gpu' },
+      null,
+    );
+    const displaced = displaceExportMesh(
+      bare,
+      createPlanetSurface(terrain, null),
+    );
+    for (let i = 0; i < baked.positions.length; i++) {
+      expect(displaced.positions[i]).toBeCloseTo(baked.positions[i], 3);
+      expect(displaced.normals[i]).toBeCloseTo(baked.normals[i], 3);
+    }
+    expect(displaced.indices).toBe(bare.indices);
+  });
+});
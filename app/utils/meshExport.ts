@@ -0,0 +1,414 @@
+import * as THREE from 'three';
+import type { HeightMapData } from './heightmap';
+import { buildPlanetMesh } from './planetMesher';
+import type { PlanetMeshParams } from './planetMesher';
+import type { PlanetSurface } from './planetSurface';
+import { copySeamVertices, getCylindricalUVs } from './sphereUVs';
+
+/**
+ * ============================================================================
+ * MESH EXPORT
+ * ============================================================================
+ * Serialises a planet mesh to binary glTF (GLB), Wavefront OBJ or binary
+ * STL, for Blender or a slicer. Pure functions over the mesher's typed
+ * arrays: no DOM and no three.js exporters, so the same path runs in the
+ * browser, in tests and in Node scripts.
+ */
+
+export type MeshExportFormat = 'glb' | 'obj' | 'stl';
+
+export const MESH_EXPORT_FORMATS: MeshExportFormat[] = ['glb', 'obj', 'stl'];
+
+export const MESH_EXPORT_MIME_TYPES: Record<MeshExportFormat, string> = {
+  glb: 'model/gltf-binary',
+  obj: 'model/obj',
+  stl: 'model/stl',
+};
+
+/** The part of the mesher output that describes the surface. */
+export interface ExportMesh {
+  positions: Float32Array;
+  normals: Float32Array;
+  indices: Uint32Array;
+  /** UVs of a mesh already split along the seams, e.g. the one on screen. */
+  uvs?: Float32Array;
+}
+
+export interface MeshExportOptions {
+  /** Write the vertex normals. STL always stores facet normals instead. */
+  normals: boolean;
+  /** Write equirectangular UVs, as the heightmap is sampled with. */
+  uvs: boolean;
+}
+
+export const DEFAULT_MESH_EXPORT_OPTIONS: MeshExportOptions = {
+  normals: true,
+  uvs: true,
+};
+
+/** Vertex attributes as they are written: optional ones may be missing. */
+interface ExportGeometry {
+  positions: Float32Array;
+  normals: Float32Array | null;
+  uvs: Float32Array | null;
+  indices: Uint32Array;
+}
+
+/**
+ * `params` with every patch at resolution k, instead of the LOD of the view.
+ * Uniform meshes have no skirts or target-dependent detail, which suits
+ * printing and baking. Their relief is always baked into the vertices.
+ */
+export function getUniformMeshParams(
+  params: PlanetMeshParams,
+  k: number,
+): PlanetMeshParams {
+  return {
+    ...params,
+    minDetail: k,
+    maxDetail: k,
+    steps: 1,
+    lodMode: 'distance',
+    camera: null,
+    culling: false,
+    displacement: 'cpu',
+  };
+}
+
+/** The icosphere of `params` at a uniform resolution k. */
+export function buildUniformPlanetMesh(
+  params: PlanetMeshParams,
+  k: number,
+  heightMapData: HeightMapData | null,
+) {
+  return buildPlanetMesh(getUniformMeshParams(params, k), heightMapData);
+}
+
+/**
+ * A mesh meshed on the bare sphere for GPU displacement, with the relief the
+ * shader adds put into its vertices, so it exports as it is drawn.
+ */
+export function displaceExportMesh(
+  mesh: ExportMesh,
+  surface: PlanetSurface,
+): ExportMesh {
+  const positions = new Float32Array(mesh.positions.length);
+  const normals = new Float32Array(mesh.normals.length);
+  const dir = new THREE.Vector3();
+  const point = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+  for (let i = 0; i < positions.length; i += 3) {
+    dir.fromArray(mesh.positions, i).normalize();
+    point.copy(dir).multiplyScalar(surface.radiusAt(dir)).toArray(positions, i);
+    surface.normalAt(dir, normal).toArray(normals, i);
+  }
+  return { ...mesh, positions, normals };
+}
+
+/**
+ * The triangles before `skirtStart` and only the vertices they use: a
+ * cube-sphere mesh without the skirts that hang below its leaf borders.
+ */
+export function removeSkirts(mesh: ExportMesh, skirtStart: number): ExportMesh {
+  const remap = new Int32Array(mesh.positions.length / 3).fill(-1);
+  const kept: number[] = [];
+  const indices = mesh.indices.slice(0, skirtStart);
+  for (let i = 0; i < indices.length; i++) {
+    if (remap[indices[i]] < 0) {
+      remap[indices[i]] = kept.length;
+      kept.push(indices[i]);
+    }
+    indices[i] = remap[indices[i]];
+  }
+  const pick = (array: Float32Array, itemSize: number) => {
+    const result = new Float32Array(kept.length * itemSize);
+    kept.forEach((source, i) => {
+      result.set(
+        array.subarray(source * itemSize, (source + 1) * itemSize),
+        i * itemSize,
+      );
+    });
+    return result;
+  };
+  return {
+    positions: pick(mesh.positions, 3),
+    normals: pick(mesh.normals, 3),
+    uvs: mesh.uvs && pick(mesh.uvs, 2),
+    indices,
+  };
+}
+
+// Vertices split along the seams, see sphereUVs.ts
+function withCylindricalUVs(mesh: ExportMesh): ExportGeometry {
+  if (mesh.uvs) return { ...mesh, uvs: mesh.uvs };
+  const { uvs, indices, sources } = getCylindricalUVs(
+    mesh.positions,
+    mesh.indices,
+  );
+  return {
+    positions: copySeamVertices(mesh.positions, 3, sources),
+    normals: copySeamVertices(mesh.normals, 3, sources),
+    uvs,
+    indices,
+  };
+}
+
+function prepareGeometry(
+  mesh: ExportMesh,
+  options: MeshExportOptions,
+): ExportGeometry {
+  const geometry: ExportGeometry = options.uvs
+    ? withCylindricalUVs(mesh)
+    : { ...mesh, uvs: null };
+  return { ...geometry, normals: options.normals ? geometry.normals : null };
+}
+
+/**
+ * ============================================================================
+ * GLB
+ * ============================================================================
+ * One glTF 2.0 mesh in a single binary buffer: a JSON chunk describing the
+ * accessors and a BIN chunk with the indices and attributes back to back.
+ * Every attribute is 4-byte aligned, as the format requires.
+ */
+const GLB_MAGIC = 0x46546c67; // 'glTF'
+const GLB_CHUNK_JSON = 0x4e4f534a; // 'JSON'
+const GLB_CHUNK_BIN = 0x004e4942; // 'BIN\0'
+const GL_FLOAT = 5126;
+const GL_UNSIGNED_INT = 5125;
+const GL_ARRAY_BUFFER = 34962;
+const GL_ELEMENT_ARRAY_BUFFER = 34963;
+
+const align4 = (n: number) => (n + 3) & ~3;
+
+// A file without triangles is of no use, and a glTF without vertices has no
+// valid bounds for its position accessor
+function checkNotEmpty(mesh: ExportMesh) {
+  if (mesh.indices.length === 0 || mesh.positions.length === 0) {
+    throw new Error('The mesh has no triangles to export');
+  }
+}
+
+function getBounds(positions: Float32Array) {
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+  for (let i = 0; i < positions.length; i++) {
+    min[i % 3] = Math.min(min[i % 3], positions[i]);
+    max[i % 3] = Math.max(max[i % 3], positions[i]);
+  }
+  return { min, max };
+}
+
+export function exportGLB(
+  mesh: ExportMesh,
+  options = DEFAULT_MESH_EXPORT_OPTIONS,
+): Uint8Array<ArrayBuffer> {
+  checkNotEmpty(mesh);
+  const { positions, normals, uvs, indices } = prepareGeometry(mesh, options);
+  const vertexCount = positions.length / 3;
+
+  const arrays: (Float32Array | Uint32Array)[] = [];
+  const bufferViews: object[] = [];
+  const accessors: object[] = [];
+  let byteLength = 0;
+  const addAccessor = (
+    array: Float32Array | Uint32Array,
+    accessor: object,
+    target: number,
+  ) => {
+    arrays.push(array);
+    bufferViews.push({
+      buffer: 0,
+      byteOffset: byteLength,
+      byteLength: array.byteLength,
+      target,
+    });
+    accessors.push({ bufferView: bufferViews.length - 1, ...accessor });
+    byteLength += align4(array.byteLength);
+    return accessors.length - 1;
+  };
+
+  const indexAccessor = addAccessor(
+    indices,
+    { componentType: GL_UNSIGNED_INT, count: indices.length, type: 'SCALAR' },
+    GL_ELEMENT_ARRAY_BUFFER,
+  );
+  const attributes: Record<string, number> = {
+    POSITION: addAccessor(
+      positions,
+      {
+        componentType: GL_FLOAT,
+        count: vertexCount,
+        type: 'VEC3',
+        ...getBounds(positions),
+      },
+      GL_ARRAY_BUFFER,
+    ),
+  };
+  if (normals) {
+    attributes.NORMAL = addAccessor(
+      normals,
+      { componentType: GL_FLOAT, count: vertexCount, type: 'VEC3' },
+      GL_ARRAY_BUFFER,
+    );
+  }
+  if (uvs) {
+    attributes.TEXCOORD_0 = addAccessor(
+      uvs,
+      { componentType: GL_FLOAT, count: vertexCount, type: 'VEC2' },
+      GL_ARRAY_BUFFER,
+    );
+  }
+
+  const json = {
+    asset: { version: '2.0', generator: 'planet mesh export' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ name: 'Planet', mesh: 0 }],
+    meshes: [
+      {
+        name: 'Planet',
+        primitives: [{ attributes, indices: indexAccessor, mode: 4 }],
+      },
+    ],
+    accessors,
+    bufferViews,
+    buffers: [{ byteLength }],
+  };
+
+  // The JSON chunk is padded with spaces, the BIN chunk with zeros
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(json));
+  const jsonLength = align4(jsonBytes.length);
+  const totalLength = 12 + 8 + jsonLength + 8 + byteLength;
+
+  const glb = new Uint8Array(totalLength);
+  const view = new DataView(glb.buffer);
+  view.setUint32(0, GLB_MAGIC, true);
+  view.setUint32(4, 2, true);
+  view.setUint32(8, totalLength, true);
+
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, GLB_CHUNK_JSON, true);
+  glb.fill(0x20, 20, 20 + jsonLength);
+  glb.set(jsonBytes, 20);
+
+  const binStart = 20 + jsonLength;
+  view.setUint32(binStart, byteLength, true);
+  view.setUint32(binStart + 4, GLB_CHUNK_BIN, true);
+  let offset = binStart + 8;
+  for (const array of arrays) {
+    glb.set(
+      new Uint8Array(array.buffer, array.byteOffset, array.byteLength),
+      offset,
+    );
+    offset += align4(array.byteLength);
+  }
+  return glb;
+}
+
+/**
+ * ============================================================================
+ * OBJ
+ * ============================================================================
+ * Plain text with 1-based indices. Positions, UVs and normals share one
+ * index per vertex, so each face corner repeats the same number.
+ */
+const OBJ_PRECISION = 6;
+
+export function exportOBJ(
+  mesh: ExportMesh,
+  options = DEFAULT_MESH_EXPORT_OPTIONS,
+): string {
+  const { positions, normals, uvs, indices } = prepareGeometry(mesh, options);
+  const format = (x: number) => String(Number(x.toFixed(OBJ_PRECISION)));
+  const lines = ['# Planet mesh', 'o Planet'];
+
+  const writeVectors = (prefix: string, array: Float32Array, size: number) => {
+    for (let i = 0; i < array.length; i += size) {
+      const parts = [prefix];
+      for (let j = 0; j < size; j++) parts.push(format(array[i + j]));
+      lines.push(parts.join(' '));
+    }
+  };
+  writeVectors('v', positions, 3);
+  if (uvs) writeVectors('vt', uvs, 2);
+  if (normals) writeVectors('vn', normals, 3);
+
+  const corner = (index: number) => {
+    const i = index + 1;
+    if (uvs && normals) return `${i}/${i}/${i}`;
+    if (uvs) return `${i}/${i}`;
+    if (normals) return `${i}//${i}`;
+    return `${i}`;
+  };
+  for (let t = 0; t < indices.length; t += 3) {
+    lines.push(
+      `f ${corner(indices[t])} ${corner(indices[t + 1])} ${corner(indices[t + 2])}`,
+    );
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * ============================================================================
+ * STL
+ * ============================================================================
+ * Binary STL: an 80-byte header, the triangle count, then per triangle its
+ * facet normal, three corners and an unused attribute word. The format has
+ * no shared vertices or UVs.
+ */
+const STL_HEADER = 80;
+const STL_TRIANGLE = 50;
+
+export function exportSTL(mesh: ExportMesh): Uint8Array<ArrayBuffer> {
+  const { positions, indices } = mesh;
+  const triangleCount = indices.length / 3;
+  const stl = new Uint8Array(STL_HEADER + 4 + triangleCount * STL_TRIANGLE);
+  const view = new DataView(stl.buffer);
+  stl.set(new TextEncoder().encode('Planet mesh'));
+  view.setUint32(STL_HEADER, triangleCount, true);
+
+  const a = new THREE.Vector3();
+  const b = new THREE.Vector3();
+  const c = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+  const edge = new THREE.Vector3();
+  let offset = STL_HEADER + 4;
+  const write = (v: THREE.Vector3) => {
+    view.setFloat32(offset, v.x, true);
+    view.setFloat32(offset + 4, v.y, true);
+    view.setFloat32(offset + 8, v.z, true);
+    offset += 12;
+  };
+
+  for (let t = 0; t < indices.length; t += 3) {
+    a.fromArray(positions, indices[t] * 3);
+    b.fromArray(positions, indices[t + 1] * 3);
+    c.fromArray(positions, indices[t + 2] * 3);
+    normal.subVectors(b, a).cross(edge.subVectors(c, a)).normalize();
+    write(normal);
+    write(a);
+    write(b);
+    write(c);
+    // Attribute byte count, left at zero
+    offset += 2;
+  }
+  return stl;
+}
+
+/** The mesh in `format`, as the bytes of the file. Throws if it is empty. */
+export function exportMesh(
+  mesh: ExportMesh,
+  format: MeshExportFormat,
+  options = DEFAULT_MESH_EXPORT_OPTIONS,
+): Uint8Array<ArrayBuffer> {
+  checkNotEmpty(mesh);
+  switch (format) {
+    case 'glb':
+      return exportGLB(mesh, options);
+    case 'obj':
+      return new TextEncoder().encode(exportOBJ(mesh, options));
+    case 'stl':
+      return exportSTL(mesh);
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createRandom,
+  createSimplexNoise3D,
+  domainWarp,
+  fbm,
+  ridgedMultifractal,
+} from './noise';
+
+const options = { octaves: 5, lacunarity: 2, gain: 0.5 };
+
+// Deterministic sample points spread through space
+const points = Array.from({ length: 200 }, (_, i) => [
+  Math.sin(i * 12.9898) * 4,
+  Math.cos(i * 78.233) * 4,
+  Math.sin(i * 37.719) * 4,
+]);
+
+describe('createSimplexNoise3D', () => {
+  it('is deterministic for a seed', () => {
+    const a = createSimplexNoise3D(42);
+    const b = createSimplexNoise3D(42);
+    for (const [x, y, z] of points) expect(a(x, y, z)).toBe(b(x, y, z));
+  });
+
+  it('changes with the seed', () => {
+    const a = createSimplexNoise3D(1);
+    const b = createSimplexNoise3D(2);
+    const differing = points.filter(([x, y, z]) => a(x, y, z) !== b(x, y, z));
+    expect(differing.length).toBeGreaterThan(points.length / 2);
+  });
+
+  it('stays within [-1, 1] and is continuous', () => {
+    const noise = createSimplexNoise3D(7);
+    for (const [x, y, z] of points) {
+      const n = noise(x, y, z);
+      expect(Math.abs(n)).toBeLessThanOrEqual(1);
+      expect(Math.abs(noise(x + 1e-5, y, z) - n)).toBeLessThan(1e-3);
+    }
+  });
+});
+
+describe('fractals', () => {
+  const noise = createSimplexNoise3D(3);
+
+  it('keep fBm and ridged output in [-1, 1]', () => {
+    for (const [x, y, z] of points) {
+      expect(Math.abs(fbm(noise, x, y, z, options))).toBeLessThanOrEqual(1);
+      expect(
+        Math.abs(ridgedMultifractal(noise, x, y, z, options)),
+      ).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('fall back to the plain fractal without warp', () => {
+    const [x, y, z] = points[0];
+    expect(domainWarp(noise, x, y, z, 0, options, fbm)).toBe(
+      fbm(noise, x, y, z, options),
+    );
+    expect(domainWarp(noise, x, y, z, 0.5, options, fbm)).not.toBe(
+      fbm(noise, x, y, z, options),
+    );
+  });
+});
+
+describe('createRandom', () => {
+  it('repeats its sequence for a seed', () => {
+    const a = createRandom(99);
+    const b = createRandom(99);
+    for (let i = 0; i < 10; i++) {
+      const v = a();
+      expect(v).toBe(b());
+      expect(v).toBeGreaterThanOrEqual(0);
+      expect(v).toBeLessThan(1);
+    }
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * ============================================================================
+ * SEEDED 3D NOISE
+ * ============================================================================
+ * Simplex noise in three dimensions plus the usual fractal combinations. It
+ * is evaluated directly on points of the unit sphere, so there are no UV
+ * seams or pinched poles. Everything derives from an integer seed: the same
+ * seed always produces bit-identical output.
+ */
+
+/** Small, fast PRNG (mulberry32) used to shuffle the permutation table. */
+export function createRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Gradients towards the 12 edge midpoints of a cube
+const GRAD3 = [
+  [1, 1, 0],
+  [-1, 1, 0],
+  [1, -1, 0],
+  [-1, -1, 0],
+  [1, 0, 1],
+  [-1, 0, 1],
+  [1, 0, -1],
+  [-1, 0, -1],
+  [0, 1, 1],
+  [0, -1, 1],
+  [0, 1, -1],
+  [0, -1, -1],
+];
+
+const F3 = 1 / 3;
+const G3 = 1 / 6;
+
+export type Noise3D = (x: number, y: number, z: number) => number;
+
+/**
+ * Creates a seeded 3D simplex noise function returning values in roughly
+ * [-1, 1].
+ */
+export function createSimplexNoise3D(seed: number): Noise3D {
+  const random = createRandom(seed);
+  const p = new Uint8Array(256);
+  for (let i = 0; i < 256; i++) p[i] = i;
+  for (let i = 255; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [p[i], p[j]] = [p[j], p[i]];
+  }
+  const perm = new Uint8Array(512);
+  const permMod12 = new Uint8Array(512);
+  for (let i = 0; i < 512; i++) {
+    perm[i] = p[i & 255];
+    permMod12[i] = perm[i] % 12;
+  }
+
+  const corner = (gi: number, x: number, y: number, z: number) => {
+    const t = 0.6 - x * x - y * y - z * z;
+    if (t < 0) return 0;
+    const g = GRAD3[gi];
+    return t * t * t * t * (g[0] * x + g[1] * y + g[2] * z);
+  };
+
+  return (x, y, z) => {
+    // Skew into simplex cell space and find the containing cell
+    const s = (x + y + z) * F3;
+    const i = Math.floor(x + s);
+    const j = Math.floor(y + s);
+    const k = Math.floor(z + s);
+    const t = (i + j + k) * G3;
+    const x0 = x - (i - t);
+    const y0 = y - (j - t);
+    const z0 = z - (k - t);
+
+    // Which of the six tetrahedra of the cube we are in
+    let i1, j1, k1, i2, j2, k2;
+    if (x0 >= y0) {
+      if (y0 >= z0) [i1, j1, k1, i2, j2, k2] = [1, 0, 0, 1, 1, 0];
+      else if (x0 >= z0) [i1, j1, k1, i2, j2, k2] = [1, 0, 0, 1, 0, 1];
+      else [i1, j1, k1, i2, j2, k2] = [0, 0, 1, 1, 0, 1];
+    } else {
+      if (y0 < z0) [i1, j1, k1, i2, j2, k2] = [0, 0, 1, 0, 1, 1];
+      else if (x0 < z0) [i1, j1, k1, i2, j2, k2] = [0, 1, 0, 0, 1, 1];
+      else [i1, j1, k1, i2, j2, k2] = [0, 1, 0, 1, 1, 0];
+    }
+
+    const ii = i & 255;
+    const jj = j & 255;
+    const kk = k & 255;
+    const gi0 = permMod12[ii + perm[jj + perm[kk]]];
+    const gi1 = permMod12[ii + i1 + perm[jj + j1 + perm[kk + k1]]];
+    const gi2 = permMod12[ii + i2 + perm[jj + j2 + perm[kk + k2]]];
+    const gi3 = permMod12[ii + 1 + perm[jj + 1 + perm[kk + 1]]];
+
+    const n =
+      corner(gi0, x0, y0, z0) +
+      corner(gi1, x0 - i1 + G3, y0 - j1 + G3, z0 - k1 + G3) +
+      corner(gi2, x0 - i2 + 2 * G3, y0 - j2 + 2 * G3, z0 - k2 + 2 * G3) +
+      corner(gi3, x0 - 1 + 3 * G3, y0 - 1 + 3 * G3, z0 - 1 + 3 * G3);
+
+    // Scale to stay within [-1, 1]
+    return 32 * n;
+  };
+}
+
+export interface FractalOptions {
+  octaves: number;
+  /** Frequency multiplier between octaves. */
+  lacunarity: number;
+  /** Amplitude multiplier between octaves. */
+  gain: number;
+}
+
+/** Fractional Brownian motion, normalised to roughly [-1, 1]. */
+export function fbm(
+  noise: Noise3D,
+  x: number,
+  y: number,
+  z: number,
+  { octaves, lacunarity, gain }: FractalOptions,
+): number {
+  let sum = 0;
+  let amplitude = 1;
+  let norm = 0;
+  let f = 1;
+  for (let o = 0; o < octaves; o++) {
+    sum += amplitude * noise(x * f, y * f, z * f);
+    norm += amplitude;
+    amplitude *= gain;
+    f *= lacunarity;
+  }
+  return norm > 0 ? sum / norm : 0;
+}
+
+/**
+ * Ridged multifractal (after Musgrave): sharp crests where the noise crosses
+ * zero, with each octave weighted by the one before so detail piles up on
+ * the ridges. Normalised to roughly [-1, 1].
+ */
+export function ridgedMultifractal(
+  noise: Noise3D,
+  x: number,
+  y: number,
+  z: number,
+  { octaves, lacunarity, gain }: FractalOptions,
+): number {
+  let sum = 0;
+  let amplitude = 1;
+  let norm = 0;
+  let weight = 1;
+  let f = 1;
+  for (let o = 0; o < octaves; o++) {
+    let signal = 1 - Math.abs(noise(x * f, y * f, z * f));
+    signal *= signal * weight;
+    weight = Math.max(0, Math.min(1, signal * 2));
+    sum += signal * amplitude;
+    norm += amplitude;
+    amplitude *= gain;
+    f *= lacunarity;
+  }
+  return norm > 0 ? (sum / norm) * 2 - 1 : 0;
+}
+
+// Offsets that decorrelate the three warp channels from each other
+const WARP_OFFSETS = [
+  [5.2, 1.3, 7.7],
+  [1.7, 9.2, 3.4],
+  [8.3, 2.8, 4.1],
+];
+
+/**
+ * Domain warping: displaces the lookup point by another fBm field before
+ * evaluating `fractal`, which bends features into more organic shapes.
+ */
+export function domainWarp(
+  noise: Noise3D,
+  x: number,
+  y: number,
+  z: number,
+  strength: number,
+  options: FractalOptions,
+  fractal: typeof fbm,
+): number {
+  if (strength === 0) return fractal(noise, x, y, z, options);
+  // The warp field only needs broad shapes, a few octaves are plenty
+  const warpOptions = { ...options, octaves: Math.min(options.octaves, 3) };
+  const warp = WARP_OFFSETS.map(([ox, oy, oz]) =>
+    fbm(noise, x + ox, y + oy, z + oz, warpOptions),
+  );
+  return fractal(
+    noise,
+    x + strength * warp[0],
+    y + strength * warp[1],
+    z + strength * warp[2],
+    options,
+  );
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { getPlanetCamera, hasViewChanged } from './planetCamera';
+
+describe('planet camera snapshots', () => {
+  const origin = new THREE.Vector3();
+  const camera = new THREE.PerspectiveCamera(60, 1.5, 0.1, 500);
+  camera.position.set(0, 0, 20);
+  const view = getPlanetCamera(camera, 720);
+
+  it('captures the projection and viewport', () => {
+    expect(view).toMatchObject({
+      position: [0, 0, 20],
+      fov: 60,
+      aspect: 1.5,
+      near: 0.1,
+      far: 500,
+      viewportHeight: 720,
+    });
+  });
+
+  it('moves into the frame of a planet', () => {
+    const frame = new THREE.Matrix4()
+      .makeRotationY(Math.PI / 2)
+      .setPosition(0, 0, 10);
+    const local = getPlanetCamera(camera, 720, frame.clone().invert());
+    const position = new THREE.Vector3(...local.position);
+    expect(position.x).toBeCloseTo(-10);
+    expect(position.z).toBeCloseTo(0);
+    // Looking down -z in the world is looking down +x in the planet's frame
+    const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(
+      new THREE.Quaternion(...local.quaternion),
+    );
+    expect(forward.x).toBeCloseTo(1);
+  });
+
+  it('ignores small movements relative to the planet distance', () => {
+    const nudged = {
+      ...view,
+      position: [0.1, 0, 20] as [number, number, number],
+    };
+    expect(hasViewChanged(view, nudged, origin)).toBe(false);
+    const moved = { ...view, position: [2, 0, 20] as [number, number, number] };
+    expect(hasViewChanged(view, moved, origin)).toBe(true);
+  });
+
+  it('notices turns and viewport changes', () => {
+    const turned = camera.clone();
+    turned.rotateY(THREE.MathUtils.degToRad(5));
+    expect(hasViewChanged(view, getPlanetCamera(turned, 720), origin)).toBe(
+      true,
+    );
+    expect(
+      hasViewChanged(view, { ...view, viewportHeight: 1080 }, origin),
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+import * as THREE from 'three';
+import type { PlanetCamera } from './planetMesher';
+
+/**
+ * ============================================================================
+ * PLANET CAMERA
+ * ============================================================================
+ * Snapshots of the viewing camera for camera-driven LOD and culling. The
+ * mesh only needs rebuilding once the view has changed noticeably, so small
+ * movements are absorbed by the geomorph and the culling margin instead.
+ */
+
+/** Relative change in distance to the planet that triggers a rebuild. */
+const MOVE_TOLERANCE = 0.02;
+/** Camera rotation (radians) that triggers a rebuild. */
+const TURN_TOLERANCE = THREE.MathUtils.degToRad(2);
+
+/**
+ * Plain-data snapshot of a camera, ready to post to the mesher worker. A
+ * planet whose frame moves, like a moon on its orbit, passes the (rigid)
+ * transform from the world into that frame as `worldToLocal`.
+ */
+export function getPlanetCamera(
+  camera: THREE.Camera,
+  viewportHeight: number,
+  worldToLocal?: THREE.Matrix4,
+): PlanetCamera {
+  const perspective = camera instanceof THREE.PerspectiveCamera;
+  const position = camera.position.clone();
+  const quaternion = camera.quaternion.clone();
+  if (worldToLocal) {
+    position.applyMatrix4(worldToLocal);
+    quaternion.premultiply(
+      new THREE.Quaternion().setFromRotationMatrix(worldToLocal),
+    );
+  }
+  return {
+    position: position.toArray(),
+    quaternion: quaternion.toArray() as PlanetCamera['quaternion'],
+    fov: perspective ? camera.fov : 50,
+    aspect: perspective ? camera.aspect : 1,
+    near: perspective ? camera.near : 0.1,
+    far: perspective ? camera.far : 2000,
+    viewportHeight,
+  };
+}
+
+/** Whether `next` differs enough from `prev` to warrant a new mesh. */
+export function hasViewChanged(
+  prev: PlanetCamera,
+  next: PlanetCamera,
+  planetCenter: THREE.Vector3,
+): boolean {
+  if (
+    prev.fov !== next.fov ||
+    prev.aspect !== next.aspect ||
+    prev.viewportHeight !== next.viewportHeight
+  ) {
+    return true;
+  }
+  const a = new THREE.Vector3(...prev.position);
+  const b = new THREE.Vector3(...next.position);
+  const distance = Math.max(a.distanceTo(planetCenter), 1e-6);
+  if (a.distanceTo(b) > MOVE_TOLERANCE * distance) return true;
+
+  const qa = new THREE.Quaternion(...prev.quaternion);
+  const qb = new THREE.Quaternion(...next.quaternion);
+  return qa.angleTo(qb) > TURN_TOLERANCE;
+}
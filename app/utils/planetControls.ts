@@ -0,0 +1,542 @@
+import type { CapsuleAlignment } from '../components/DraggableCapsule';
+import type { CharacterView } from '../components/WalkingCharacter';
+import { DEFAULT_CHARACTER_SETTINGS } from './characterController';
+import { DEFAULT_QUADTREE_SETTINGS } from './cubeSphereMesher';
+import { DEFAULT_ELEVATION_SETTINGS } from './elevation';
+import { HEIGHT_SAMPLING_MODES } from './heightmap';
+import type { HeightSampling } from './heightmap';
+import {
+  COMPOSITE_OPERATORS,
+  DEFAULT_COMPOSITE_TERRAIN,
+  DEFAULT_PROCEDURAL_TERRAIN,
+  DETAIL_MASKS,
+  FRACTAL_TYPES,
+  TERRAIN_TYPES,
+} from './heightSource';
+import type {
+  CompositeOperator,
+  DetailMask,
+  FractalType,
+  TerrainType,
+} from './heightSource';
+import { MESH_EXPORT_FORMATS } from './meshExport';
+import type { MeshExportFormat } from './meshExport';
+import { DISPLACEMENT_MODES, PLANET_TOPOLOGIES } from './planetMesher';
+import type { DisplacementMode, LodMode, PlanetTopology } from './planetMesher';
+import { DEFAULT_NORMAL_EPSILON } from './terrainNormals';
+import { DEFAULT_BIOME_RAMP, PLANET_SHADINGS } from './terrainShader';
+import { TERRAIN_QUERY_MODES } from './terrainQuery';
+import type { TerrainQueryMode } from './terrainQuery';
+import { DEFAULT_ATMOSPHERE_SETTINGS } from './atmosphere';
+import { DEFAULT_SYSTEM } from './planetSystem';
+import type { PlanetShading } from './terrainShader';
+
+/**
+ * ============================================================================
+ * PLANET CONTROLS
+ * ============================================================================
+ * The Leva schemas of the home page's control panel, one per folder. They
+ * double as the schema of everything that stores control values: URL state
+ * and presets validate against the same ranges and options (see
+ * controlSchema.ts).
+ */
+
+// The LOD target picked in the UI and the mesher mode it maps to
+const LOD_TARGET_OPTIONS: Record<string, LodMode> = {
+  Capsule: 'distance',
+  Camera: 'screenSpace',
+  Both: 'both',
+};
+
+// Orbit the planet and drag the capsule, or walk it around
+const VIEW_OPTIONS: Record<string, CharacterView | 'orbit'> = {
+  Orbit: 'orbit',
+  'Third Person': 'thirdPerson',
+  'First Person': 'firstPerson',
+};
+
+const CAPSULE_ALIGN_OPTIONS: Record<string, CapsuleAlignment> = {
+  'Terrain Normal': 'normal',
+  Radial: 'radial',
+};
+
+// The body of the default system the capsule stands on, by name
+const BODY_OPTIONS: Record<string, string> = Object.fromEntries(
+  DEFAULT_SYSTEM.bodies.map((body) => [body.name, body.id]),
+);
+
+// GPU displacement bakes composite detail at full strength, so the fade of
+// detail across LOD levels has no effect there and is hidden
+const showDetailFade = (get: (path: string) => unknown) =>
+  get('displacement') !== 'gpu';
+
+/** The main control panel. */
+export const PLANET_CONTROLS = {
+  view: {
+    value: 'orbit' as CharacterView | 'orbit',
+    options: VIEW_OPTIONS,
+    label: 'View',
+  },
+  topology: {
+    value: 'icosphere' as PlanetTopology,
+    options: PLANET_TOPOLOGIES,
+    label: 'Geometry',
+  },
+  minResolution: {
+    value: 4,
+    min: 0,
+    max: 100,
+    step: 1,
+    label: 'Min Resolution',
+  },
+  maxResolution: {
+    value: 12,
+    min: 1,
+    max: 100,
+    step: 1,
+    label: 'Max Resolution',
+  },
+  steps: { value: 4, min: 1, max: 10, step: 1, label: 'Steps' },
+  stepGamma: {
+    value: 2.0,
+    min: 0.1,
+    max: 5.0,
+    step: 0.1,
+    label: 'Step Gamma',
+  },
+  radius: { value: 10, min: 1, max: 10 },
+  lodMode: {
+    value: 'distance' as LodMode,
+    options: LOD_TARGET_OPTIONS,
+    label: 'LOD Target',
+  },
+  maxScreenError: {
+    value: 8,
+    min: 1,
+    max: 64,
+    step: 1,
+    label: 'Screen Error (px)',
+  },
+  culling: { value: true, label: 'Culling' },
+  terrain: {
+    value: 'heightmap' as TerrainType,
+    options: TERRAIN_TYPES,
+    label: 'Terrain',
+  },
+  sampling: {
+    value: 'bilinear' as HeightSampling,
+    options: HEIGHT_SAMPLING_MODES,
+    label: 'Sampling',
+  },
+  minElevation: {
+    value: DEFAULT_ELEVATION_SETTINGS.minElevation,
+    min: -12000,
+    max: 0,
+    step: 100,
+    label: 'Min Elevation (m)',
+  },
+  maxElevation: {
+    value: DEFAULT_ELEVATION_SETTINGS.maxElevation,
+    min: 0,
+    max: 12000,
+    step: 100,
+    label: 'Max Elevation (m)',
+  },
+  seaLevel: {
+    value: DEFAULT_ELEVATION_SETTINGS.seaLevel,
+    min: -2000,
+    max: 2000,
+    step: 10,
+    label: 'Sea Level (m)',
+  },
+  exaggeration: {
+    value: DEFAULT_ELEVATION_SETTINGS.exaggeration,
+    min: 0,
+    max: 200,
+    step: 1,
+    label: 'Exaggeration',
+  },
+  normalEpsilon: {
+    value: DEFAULT_NORMAL_EPSILON,
+    min: 0.001,
+    max: 0.1,
+    step: 0.001,
+    label: 'Normal Epsilon',
+  },
+  normalMap: { value: false, label: 'Normal Map' },
+  displacement: {
+    value: 'cpu' as DisplacementMode,
+    options: DISPLACEMENT_MODES,
+    label: 'Displacement',
+    hint: 'GPU bakes composite detail without the per-level fade',
+  },
+  geomorph: { value: true, label: 'Geomorph' },
+  ocean: true,
+  capsuleAlign: {
+    value: 'normal' as CapsuleAlignment,
+    options: CAPSULE_ALIGN_OPTIONS,
+    label: 'Capsule Up',
+  },
+  surfaceQuery: {
+    value: 'field' as TerrainQueryMode,
+    options: TERRAIN_QUERY_MODES,
+    label: 'Capsule Ground',
+  },
+  body: {
+    value: DEFAULT_SYSTEM.bodies[0].id,
+    options: BODY_OPTIONS,
+    label: 'Capsule On',
+  },
+  shading: {
+    value: 'albedo' as PlanetShading,
+    options: PLANET_SHADINGS,
+    label: 'Shading',
+  },
+  color: '#4169e1',
+  wireframe: true,
+};
+
+export const PROCEDURAL_CONTROLS = {
+  seed: {
+    value: DEFAULT_PROCEDURAL_TERRAIN.seed,
+    min: 0,
+    max: 99999,
+    step: 1,
+    label: 'Seed',
+  },
+  type: {
+    value: DEFAULT_PROCEDURAL_TERRAIN.type as FractalType,
+    options: FRACTAL_TYPES,
+    label: 'Fractal',
+  },
+  octaves: {
+    value: DEFAULT_PROCEDURAL_TERRAIN.octaves,
+    min: 1,
+    max: 10,
+    step: 1,
+    label: 'Octaves',
+  },
+  frequency: {
+    value: DEFAULT_PROCEDURAL_TERRAIN.frequency,
+    min: 0.1,
+    max: 8,
+    step: 0.1,
+    label: 'Frequency',
+  },
+  lacunarity: {
+    value: DEFAULT_PROCEDURAL_TERRAIN.lacunarity,
+    min: 1,
+    max: 4,
+    step: 0.05,
+    label: 'Lacunarity',
+  },
+  gain: {
+    value: DEFAULT_PROCEDURAL_TERRAIN.gain,
+    min: 0.1,
+    max: 1,
+    step: 0.05,
+    label: 'Gain',
+  },
+  warp: {
+    value: DEFAULT_PROCEDURAL_TERRAIN.warp,
+    min: 0,
+    max: 2,
+    step: 0.05,
+    label: 'Domain Warp',
+  },
+  amplitude: {
+    value: DEFAULT_PROCEDURAL_TERRAIN.amplitude,
+    min: 0,
+    max: 12000,
+    step: 100,
+    label: 'Amplitude (m)',
+  },
+};
+
+export const DETAIL_CONTROLS = {
+  operator: {
+    value: DEFAULT_COMPOSITE_TERRAIN.operator as CompositeOperator,
+    options: COMPOSITE_OPERATORS,
+    label: 'Operator',
+  },
+  detailAmplitude: {
+    value: DEFAULT_COMPOSITE_TERRAIN.detail.amplitude,
+    min: 0,
+    max: 2000,
+    step: 10,
+    label: 'Amplitude (m)',
+  },
+  detailFrequency: {
+    value: DEFAULT_COMPOSITE_TERRAIN.detail.frequency,
+    min: 1,
+    max: 64,
+    step: 1,
+    label: 'Frequency',
+  },
+  multiplyStrength: {
+    value: DEFAULT_COMPOSITE_TERRAIN.multiplyStrength,
+    min: 0,
+    max: 1,
+    step: 0.05,
+    label: 'Multiply Strength',
+  },
+  mask: {
+    value: DEFAULT_COMPOSITE_TERRAIN.mask as DetailMask,
+    options: DETAIL_MASKS,
+    label: 'Mask',
+  },
+  maskBlend: {
+    value: DEFAULT_COMPOSITE_TERRAIN.maskBlend,
+    min: 0,
+    max: 1000,
+    step: 10,
+    label: 'Mask Blend (m)',
+  },
+  fadeStart: {
+    value: DEFAULT_COMPOSITE_TERRAIN.fadeStart,
+    min: 0,
+    max: 100,
+    step: 1,
+    label: 'Fade Start',
+    render: showDetailFade,
+  },
+  fadeEnd: {
+    value: DEFAULT_COMPOSITE_TERRAIN.fadeEnd,
+    min: 0,
+    max: 100,
+    step: 1,
+    label: 'Fade End',
+    render: showDetailFade,
+  },
+};
+
+export const QUADTREE_CONTROLS = {
+  minDepth: {
+    value: DEFAULT_QUADTREE_SETTINGS.minDepth,
+    min: 0,
+    max: 4,
+    step: 1,
+    label: 'Min Depth',
+  },
+  maxDepth: {
+    value: DEFAULT_QUADTREE_SETTINGS.maxDepth,
+    min: 0,
+    max: 10,
+    step: 1,
+    label: 'Max Depth',
+  },
+  patchResolution: {
+    value: DEFAULT_QUADTREE_SETTINGS.patchResolution,
+    min: 2,
+    max: 64,
+    step: 1,
+    label: 'Patch Resolution',
+  },
+  splitFactor: {
+    value: DEFAULT_QUADTREE_SETTINGS.splitFactor,
+    min: 0.5,
+    max: 4,
+    step: 0.1,
+    label: 'Split Factor',
+  },
+};
+
+export const CHARACTER_CONTROLS = {
+  walkSpeed: {
+    value: DEFAULT_CHARACTER_SETTINGS.walkSpeed,
+    min: 0.5,
+    max: 20,
+    step: 0.5,
+    label: 'Walk Speed',
+  },
+  jumpSpeed: {
+    value: DEFAULT_CHARACTER_SETTINGS.jumpSpeed,
+    min: 0,
+    max: 20,
+    step: 0.5,
+    label: 'Jump Speed',
+  },
+  gravity: {
+    value: DEFAULT_CHARACTER_SETTINGS.gravity,
+    min: 1,
+    max: 30,
+    step: 0.1,
+    label: 'Gravity',
+  },
+  maxSlope: {
+    value: DEFAULT_CHARACTER_SETTINGS.maxSlope,
+    min: 0,
+    max: 90,
+    step: 1,
+    label: 'Max Slope (°)',
+  },
+};
+
+const { colors, elevations } = DEFAULT_BIOME_RAMP;
+
+/** Colour stops of the biome shading, in metres above sea level. */
+export const BIOME_CONTROLS = {
+  deepOceanColor: { value: colors.deepOcean, label: 'Deep Ocean' },
+  deepOceanElevation: {
+    value: elevations.deepOcean,
+    min: -11000,
+    max: 0,
+    step: 100,
+    label: 'Deep Ocean (m)',
+  },
+  shallowsColor: { value: colors.shallows, label: 'Shallows' },
+  shallowsElevation: {
+    value: elevations.shallows,
+    min: -2000,
+    max: 0,
+    step: 10,
+    label: 'Shallows (m)',
+  },
+  beachColor: { value: colors.beach, label: 'Beach' },
+  beachElevation: {
+    value: elevations.beach,
+    min: -100,
+    max: 500,
+    step: 5,
+    label: 'Beach (m)',
+  },
+  grassColor: { value: colors.grass, label: 'Grass' },
+  grassElevation: {
+    value: elevations.grass,
+    min: 0,
+    max: 3000,
+    step: 10,
+    label: 'Grass (m)',
+  },
+  rockColor: { value: colors.rock, label: 'Rock' },
+  rockElevation: {
+    value: elevations.rock,
+    min: 0,
+    max: 8000,
+    step: 50,
+    label: 'Rock (m)',
+  },
+  snowColor: { value: colors.snow, label: 'Snow' },
+  snowElevation: {
+    value: elevations.snow,
+    min: 0,
+    max: 9000,
+    step: 50,
+    label: 'Snow (m)',
+  },
+  slopeStart: {
+    value: DEFAULT_BIOME_RAMP.slopeStart,
+    min: 0,
+    max: 90,
+    step: 1,
+    label: 'Rock Slope From (°)',
+  },
+  slopeEnd: {
+    value: DEFAULT_BIOME_RAMP.slopeEnd,
+    min: 0,
+    max: 90,
+    step: 1,
+    label: 'Rock Slope To (°)',
+  },
+};
+
+/**
+ * Sun and atmosphere. With day/night on, the sun stands where it would over
+ * the real Earth at the given UTC date and time.
+ */
+export const SKY_CONTROLS = {
+  dayNight: { value: true, label: 'Day/Night' },
+  date: { value: '2026-03-20', label: 'Date (UTC)' },
+  time: { value: 12, min: 0, max: 24, step: 0.25, label: 'Time (UTC h)' },
+  cityLights: { value: true, label: 'City Lights' },
+  atmosphere: { value: true, label: 'Atmosphere' },
+  atmosphereHeight: {
+    value: DEFAULT_ATMOSPHERE_SETTINGS.height,
+    min: 0.02,
+    max: 0.5,
+    step: 0.01,
+    label: 'Height',
+  },
+  rayleigh: {
+    value: DEFAULT_ATMOSPHERE_SETTINGS.rayleigh,
+    min: 0,
+    max: 5,
+    step: 0.1,
+    label: 'Rayleigh',
+  },
+  mie: {
+    value: DEFAULT_ATMOSPHERE_SETTINGS.mie,
+    min: 0,
+    max: 5,
+    step: 0.1,
+    label: 'Mie',
+  },
+  sunIntensity: {
+    value: DEFAULT_ATMOSPHERE_SETTINGS.sunIntensity,
+    min: 1,
+    max: 60,
+    step: 1,
+    label: 'Sun Intensity',
+  },
+};
+
+/**
+ * The other bodies of the system. The panel's planet settings apply to the
+ * first body, the others keep the look of their description.
+ */
+export const SYSTEM_CONTROLS = {
+  timeScale: {
+    value: 1,
+    min: 0,
+    max: 50,
+    step: 0.5,
+    label: 'Time Scale',
+  },
+  showOrbits: { value: true, label: 'Orbits' },
+};
+
+// Export the mesh on screen, or a uniform icosphere at a chosen resolution
+const EXPORT_MESH_OPTIONS: Record<string, 'current' | 'uniform'> = {
+  'Current LOD': 'current',
+  Uniform: 'uniform',
+};
+
+/**
+ * Mesh export settings. They describe a file rather than the view, so they
+ * are left out of CONTROL_FOLDERS and neither URLs nor presets store them.
+ */
+export const EXPORT_CONTROLS = {
+  exportFormat: {
+    value: 'glb' as MeshExportFormat,
+    options: MESH_EXPORT_FORMATS,
+    label: 'Format',
+  },
+  exportMesh: {
+    value: 'current' as 'current' | 'uniform',
+    options: EXPORT_MESH_OPTIONS,
+    label: 'Mesh',
+  },
+  exportResolution: {
+    value: 32,
+    min: 1,
+    max: 200,
+    step: 1,
+    label: 'Uniform k',
+  },
+  exportNormals: { value: true, label: 'Normals' },
+  exportUVs: { value: true, label: 'UVs' },
+};
+
+/** Every folder of the panel, by the key presets store its values under. */
+export const CONTROL_FOLDERS = {
+  planet: PLANET_CONTROLS,
+  procedural: PROCEDURAL_CONTROLS,
+  detail: DETAIL_CONTROLS,
+  quadtree: QUADTREE_CONTROLS,
+  character: CHARACTER_CONTROLS,
+  biome: BIOME_CONTROLS,
+  sky: SKY_CONTROLS,
+  system: SYSTEM_CONTROLS,
+};
+
+export type ControlFolder = keyof typeof CONTROL_FOLDERS;
@@ -0,0 +1,510 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import {
+  PlanetMesher,
+  buildPlanetMesh,
+  getBasePatches,
+  getLatticeVertexId,
+} from './planetMesher';
+import type {
+  PlanetCamera,
+  PlanetMeshData,
+  PlanetMeshParams,
+} from './planetMesher';
+import { decodeRawGrid } from './heightmapFormats';
+import { DEFAULT_ELEVATION_SETTINGS } from './elevation';
+import {
+  DEFAULT_NORMAL_EPSILON,
+  getElevationGradient,
+  getTerrainNormal,
+} from './terrainNormals';
+import type { HeightField } from './terrainNormals';
+import {
+  DEFAULT_COMPOSITE_TERRAIN,
+  DEFAULT_PROCEDURAL_TERRAIN,
+  createProceduralSource,
+} from './heightSource';
+
+const baseParams: PlanetMeshParams = {
+  radius: 10,
+  minDetail: 4,
+  maxDetail: 12,
+  steps: 4,
+  stepGamma: 2,
+  center: [0, 0, 0],
+  target: [0, 10.7, 0],
+  lodMode: 'distance',
+  camera: null,
+  maxScreenError: 8,
+  culling: false,
+  elevation: { ...DEFAULT_ELEVATION_SETTINGS, exaggeration: 0 },
+  terrain: { type: 'heightmap', sampling: 'bilinear' },
+  normalEpsilon: DEFAULT_NORMAL_EPSILON,
+};
+
+// Number of triangles using each undirected edge, keyed by "lo,hi"
+function edgeUse({ indices }: PlanetMeshData) {
+  const use = new Map<string, number>();
+  for (let i = 0; i < indices.length; i += 3) {
+    for (let e = 0; e < 3; e++) {
+      const a = indices[i + e];
+      const b = indices[i + ((e + 1) % 3)];
+      const key = a < b ? `${a},${b}` : `${b},${a}`;
+      use.set(key, (use.get(key) ?? 0) + 1);
+    }
+  }
+  return use;
+}
+
+// Twice the area of every triangle, computed in double precision
+function triangleAreas({ positions, indices }: PlanetMeshData) {
+  const areas: number[] = [];
+  for (let i = 0; i < indices.length; i += 3) {
+    const [a, b, c] = [indices[i], indices[i + 1], indices[i + 2]];
+    const ux = positions[b * 3] - positions[a * 3];
+    const uy = positions[b * 3 + 1] - positions[a * 3 + 1];
+    const uz = positions[b * 3 + 2] - positions[a * 3 + 2];
+    const vx = positions[c * 3] - positions[a * 3];
+    const vy = positions[c * 3 + 1] - positions[a * 3 + 1];
+    const vz = positions[c * 3 + 2] - positions[a * 3 + 2];
+    areas.push(
+      Math.hypot(uy * vz - uz * vy, uz * vx - ux * vz, ux * vy - uy * vx),
+    );
+  }
+  return areas;
+}
+
+describe('getLatticeVertexId', () => {
+  it('ignores the resolution a point is expressed at', () => {
+    expect(getLatticeVertexId(0, 2, 1, 4)).toBe(
+      getLatticeVertexId(0, 6, 3, 12),
+    );
+  });
+
+  it('gives shared icosahedron edges the same id from both faces', () => {
+    // Faces 0 [0, 11, 5] and 1 [0, 5, 1] share edge 0-5: A-C on face 0 and
+    // A-B on face 1
+    expect(getLatticeVertexId(0, 1, 1, 3)).toBe(getLatticeVertexId(1, 1, 0, 3));
+    // Faces 0 [0, 11, 5] and 6 [5, 11, 4] share edge 11-5, in opposite order
+    expect(getLatticeVertexId(0, 3, 1, 3)).toBe(getLatticeVertexId(6, 2, 0, 3));
+  });
+
+  it('gives shared icosahedron corners the same id from every face', () => {
+    const ids = [0, 1, 2, 3, 4].map((face) =>
+      getLatticeVertexId(face, 0, 0, 5),
+    );
+    expect(new Set(ids).size).toBe(1);
+  });
+});
+
+describe('buildPlanetMesh topology', () => {
+  const cases = [
+    { minDetail: 0, maxDetail: 1, steps: 1 },
+    { minDetail: 1, maxDetail: 5, steps: 2 },
+    { minDetail: 2, maxDetail: 9, steps: 3 },
+    { minDetail: 3, maxDetail: 7, steps: 5 },
+    { minDetail: 4, maxDetail: 12, steps: 4 },
+    { minDetail: 5, maxDetail: 16, steps: 6 },
+    { minDetail: 7, maxDetail: 20, steps: 10 },
+  ];
+
+  it.each(cases)(
+    'has no boundary edges for %o',
+    ({ minDetail, maxDetail, steps }) => {
+      const mesh = buildPlanetMesh(
+        { ...baseParams, minDetail, maxDetail, steps },
+        null,
+      );
+      const counts = [...edgeUse(mesh).values()];
+      expect(counts.length).toBeGreaterThan(0);
+      expect(counts.filter((n) => n !== 2)).toEqual([]);
+    },
+  );
+});
+
+describe('buildPlanetMesh geometry', () => {
+  it('produces no degenerate triangles', () => {
+    for (const maxDetail of [1, 6, 12, 24]) {
+      const mesh = buildPlanetMesh({ ...baseParams, maxDetail }, null);
+      const indices = mesh.indices;
+      for (let i = 0; i < indices.length; i += 3) {
+        expect(new Set([indices[i], indices[i + 1], indices[i + 2]]).size).toBe(
+          3,
+        );
+      }
+      expect(Math.min(...triangleAreas(mesh))).toBeGreaterThan(1e-6);
+    }
+  });
+
+  it('grows the vertex count monotonically with maxDetail', () => {
+    let previous = 0;
+    for (let maxDetail = 4; maxDetail <= 24; maxDetail += 2) {
+      const { positions } = buildPlanetMesh({ ...baseParams, maxDetail }, null);
+      expect(positions.length / 3).toBeGreaterThan(previous);
+      previous = positions.length / 3;
+    }
+  });
+
+  it('keeps every vertex at radius when displacement is zero', () => {
+    const radius = 7.5;
+    const { positions } = buildPlanetMesh({ ...baseParams, radius }, null);
+    for (let i = 0; i < positions.length; i += 3) {
+      const r = Math.hypot(positions[i], positions[i + 1], positions[i + 2]);
+      expect(r).toBeCloseTo(radius, 4);
+    }
+  });
+
+  it('displaces vertices relative to sea level by a decoded height grid', () => {
+    // Northern half 100m above sea level, southern half 50m below
+    const grid = new Float32Array(16 * 8).map((_, i) => (i < 64 ? 100 : -50));
+    const heightMap = decodeRawGrid(grid.buffer, {
+      width: 16,
+      height: 8,
+      format: 'float32',
+    });
+    const { positions } = buildPlanetMesh(
+      {
+        ...baseParams,
+        // A 1km planet drawn at radius 10: 1m of relief is 0.01 units
+        elevation: {
+          ...baseParams.elevation,
+          exaggeration: 2,
+          planetRadiusMeters: 1000,
+        },
+        terrain: { type: 'heightmap', sampling: 'nearest' },
+      },
+      heightMap,
+    );
+    for (let i = 0; i < positions.length; i += 3) {
+      const r = Math.hypot(positions[i], positions[i + 1], positions[i + 2]);
+      const y = positions[i + 1] / r;
+      if (y > 0.1) expect(r).toBeCloseTo(12, 4);
+      if (y < -0.1) expect(r).toBeCloseTo(9, 4);
+    }
+  });
+
+  it('rounds fractional detail and steps instead of leaving holes', () => {
+    for (const minDetail of [2.2, 3.5]) {
+      const mesh = buildPlanetMesh(
+        { ...baseParams, minDetail, steps: 2.5 },
+        null,
+      );
+      expect([...edgeUse(mesh).values()].filter((n) => n !== 2)).toEqual([]);
+    }
+  });
+
+  it('emits one unit normal per vertex', () => {
+    const { positions, normals } = buildPlanetMesh(baseParams, null);
+    expect(normals.length).toBe(positions.length);
+    for (let i = 0; i < normals.length; i += 3) {
+      expect(
+        Math.hypot(normals[i], normals[i + 1], normals[i + 2]),
+      ).toBeCloseTo(1, 4);
+    }
+  });
+});
+
+describe('buildPlanetMesh terrain normals', () => {
+  const procedural: PlanetMeshParams = {
+    ...baseParams,
+    elevation: { ...baseParams.elevation, exaggeration: 50 },
+    terrain: { type: 'procedural', settings: DEFAULT_PROCEDURAL_TERRAIN },
+  };
+
+  it('derives normals from the height field, whatever the resolution', () => {
+    const source = createProceduralSource(DEFAULT_PROCEDURAL_TERRAIN);
+    const angle = DEFAULT_NORMAL_EPSILON / procedural.radius;
+    const dir = new THREE.Vector3();
+    const expected = new THREE.Vector3();
+
+    for (const detail of [4, 8]) {
+      const { positions, normals } = buildPlanetMesh(
+        { ...procedural, minDetail: detail, maxDetail: detail },
+        null,
+      );
+      for (let i = 0; i < positions.length; i += 3 * 37) {
+        dir.fromArray(positions, i).normalize();
+        const height: HeightField = (d) => source.heightAt(d);
+        getTerrainNormal(
+          dir,
+          height(dir),
+          getElevationGradient(height, dir, angle),
+          procedural.elevation,
+          procedural.radius,
+          expected,
+        );
+        for (let c = 0; c < 3; c++) {
+          expect(normals[i + c]).toBeCloseTo(expected.getComponent(c), 4);
+        }
+      }
+    }
+  });
+
+  it('tilts normals away from the radial direction over relief', () => {
+    const { positions, normals } = buildPlanetMesh(procedural, null);
+    let maxTilt = 0;
+    for (let i = 0; i < positions.length; i += 3) {
+      const r = Math.hypot(positions[i], positions[i + 1], positions[i + 2]);
+      const cos =
+        (positions[i] * normals[i] +
+          positions[i + 1] * normals[i + 1] +
+          positions[i + 2] * normals[i + 2]) /
+        r;
+      maxTilt = Math.max(maxTilt, Math.acos(Math.min(1, cos)));
+    }
+    expect(maxTilt).toBeGreaterThan(0.05);
+  });
+});
+
+describe('buildPlanetMesh with procedural terrain', () => {
+  const procedural: PlanetMeshParams = {
+    ...baseParams,
+    elevation: { ...baseParams.elevation, exaggeration: 50 },
+    terrain: { type: 'procedural', settings: DEFAULT_PROCEDURAL_TERRAIN },
+  };
+
+  it('is reproducible for a seed and stays watertight', () => {
+    const a = buildPlanetMesh(procedural, null);
+    const b = buildPlanetMesh(procedural, null);
+    expect(a.positions).toEqual(b.positions);
+    expect([...edgeUse(a).values()].filter((n) => n !== 2)).toEqual([]);
+  });
+
+  it('displaces the surface without a heightmap', () => {
+    const { positions } = buildPlanetMesh(procedural, null);
+    const radii = [];
+    for (let i = 0; i < positions.length; i += 3) {
+      radii.push(Math.hypot(positions[i], positions[i + 1], positions[i + 2]));
+    }
+    expect(Math.max(...radii) - Math.min(...radii)).toBeGreaterThan(0.1);
+  });
+});
+
+describe('buildPlanetMesh geomorph data', () => {
+  it('leaves vertices in place when there is no coarser level', () => {
+    const mesh = buildPlanetMesh({ ...baseParams, steps: 1 }, null);
+    expect(mesh.morphLevels.every((l) => l === 0)).toBe(true);
+    for (let i = 0; i < mesh.positions.length; i++) {
+      expect(mesh.parentPositions[i]).toBeCloseTo(mesh.positions[i], 5);
+    }
+  });
+
+  it('moves fine vertices onto chords of the coarser mesh', () => {
+    const mesh = buildPlanetMesh(
+      { ...baseParams, minDetail: 4, maxDetail: 8, steps: 2 },
+      null,
+    );
+    const { positions, parentPositions, morphLevels } = mesh;
+    let moved = 0;
+    for (let v = 0; v < morphLevels.length; v++) {
+      const i = v * 3;
+      const offset = Math.hypot(
+        parentPositions[i] - positions[i],
+        parentPositions[i + 1] - positions[i + 1],
+        parentPositions[i + 2] - positions[i + 2],
+      );
+      if (morphLevels[v] === 0) {
+        expect(offset).toBeLessThan(1e-5);
+        continue;
+      }
+      expect(morphLevels[v]).toBe(1);
+      if (offset > 1e-5) moved++;
+      // On an undisplaced sphere, coarse triangles cut just inside it
+      const r = Math.hypot(...parentPositions.slice(i, i + 3));
+      expect(r).toBeLessThanOrEqual(baseParams.radius + 1e-4);
+      expect(r).toBeGreaterThan(baseParams.radius * 0.98);
+    }
+    expect(moved).toBeGreaterThan(0);
+  });
+});
+
+describe('buildPlanetMesh with GPU displacement', () => {
+  const procedural: PlanetMeshParams = {
+    ...baseParams,
+    elevation: { ...baseParams.elevation, exaggeration: 50 },
+    terrain: { type: 'procedural', settings: DEFAULT_PROCEDURAL_TERRAIN },
+    displacement: 'gpu',
+  };
+
+  it('leaves the relief to the shader', () => {
+    const mesh = buildPlanetMesh(procedural, null);
+    const { positions, normals, parentPositions } = mesh;
+    for (let i = 0; i < positions.length; i += 3) {
+      const r = Math.hypot(...positions.slice(i, i + 3));
+      expect(r).toBeCloseTo(baseParams.radius, 4);
+      for (let c = 0; c < 3; c++) {
+        expect(normals[i + c]).toBeCloseTo(positions[i + c] / r, 4);
+      }
+      expect(Math.hypot(...parentPositions.slice(i, i + 3))).toBeLessThan(
+        baseParams.radius + 1e-4,
+      );
+    }
+    expect([...edgeUse(mesh).values()].filter((n) => n !== 2)).toEqual([]);
+  });
+
+  it('meshes the same patches whatever the elevation', () => {
+    const a = buildPlanetMesh(procedural, null);
+    const b = buildPlanetMesh(
+      {
+        ...procedural,
+        elevation: { ...procedural.elevation, exaggeration: 10, seaLevel: 500 },
+      },
+      null,
+    );
+    expect(a.positions).toEqual(b.positions);
+  });
+});
+
+describe('buildPlanetMesh camera LOD and culling', () => {
+  // Looking down the z axis at the planet from `distance` away
+  const cameraAt = (distance: number): PlanetCamera => ({
+    position: [0, 0, distance],
+    quaternion: [0, 0, 0, 1],
+    fov: 60,
+    aspect: 1,
+    near: 0.01,
+    far: 1000,
+    viewportHeight: 800,
+  });
+  const screenSpace: PlanetMeshParams = {
+    ...baseParams,
+    lodMode: 'screenSpace',
+    camera: cameraAt(30),
+  };
+
+  it('adds detail as the camera approaches and stays watertight', () => {
+    const far = buildPlanetMesh(screenSpace, null);
+    const near = buildPlanetMesh(
+      { ...screenSpace, camera: cameraAt(12) },
+      null,
+    );
+    expect(near.positions.length).toBeGreaterThan(far.positions.length);
+    for (const mesh of [far, near]) {
+      expect([...edgeUse(mesh).values()].filter((n) => n !== 2)).toEqual([]);
+    }
+  });
+
+  it('falls back to distance LOD without a camera', () => {
+    const mesh = buildPlanetMesh({ ...screenSpace, camera: null }, null);
+    expect(mesh.positions).toEqual(buildPlanetMesh(baseParams, null).positions);
+  });
+
+  it('drops patches on the far side of the horizon', () => {
+    const culled = buildPlanetMesh({ ...screenSpace, culling: true }, null);
+    const full = buildPlanetMesh(screenSpace, null);
+    expect(culled.indices.length).toBeLessThan(full.indices.length);
+
+    const { positions, indices } = culled;
+    for (const i of indices) {
+      // Nothing well behind the limb as seen from z = 30
+      expect(positions[i * 3 + 2]).toBeGreaterThan(-0.5 * baseParams.radius);
+    }
+  });
+
+  it('drops everything when the camera looks away', () => {
+    const away: PlanetCamera = {
+      ...cameraAt(30),
+      // Turned half a revolution about y, facing +z
+      quaternion: [0, 1, 0, 0],
+    };
+    const mesh = buildPlanetMesh(
+      { ...screenSpace, camera: away, culling: true },
+      null,
+    );
+    expect(mesh.indices.length).toBe(0);
+  });
+});
+
+describe('getBasePatches', () => {
+  it('tiles every face with baseSub² patches', () => {
+    const patches = getBasePatches(3);
+    expect(patches).toHaveLength(20 * 9);
+    expect(new Set(patches.map((p) => p.id)).size).toBe(patches.length);
+
+    // Patch areas add up to the sphere's, to first order
+    const area = patches.reduce((sum, { corners: [a, b, c] }) => {
+      const ab = new THREE.Vector3().subVectors(b, a);
+      const ac = new THREE.Vector3().subVectors(c, a);
+      return sum + ab.cross(ac).length() / 2;
+    }, 0);
+    expect(area).toBeGreaterThan(0.9 * 4 * Math.PI);
+    expect(area).toBeLessThan(4 * Math.PI);
+  });
+});
+
+describe('PlanetMesher patch cache', () => {
+  it('counts the patches of the last mesh by resolution', () => {
+    const mesher = new PlanetMesher();
+    mesher.build(baseParams, null);
+    const counts = mesher.getPatchCounts();
+    expect(Object.values(counts).reduce((a, b) => a + b, 0)).toBe(20 * 16);
+    expect(counts[4]).toBeGreaterThan(counts[12]);
+    expect(counts[12]).toBeGreaterThan(0);
+  });
+
+  it('matches a fresh build after the target moves', () => {
+    const mesher = new PlanetMesher();
+    mesher.build(baseParams, null);
+    const moved = {
+      ...baseParams,
+      target: [6, 6, 5] as [number, number, number],
+    };
+    const incremental = mesher.build(moved, null);
+    const fresh = buildPlanetMesh(moved, null);
+
+    expect(incremental.positions).toEqual(fresh.positions);
+    expect(incremental.parentPositions).toEqual(fresh.parentPositions);
+    expect(incremental.indices).toEqual(fresh.indices);
+  });
+
+  it('stays watertight when old and new chunks are mixed', () => {
+    const mesher = new PlanetMesher();
+    let mesh = mesher.build(baseParams, null);
+    for (const target of [
+      [0, 0, 10.7],
+      [7, 7, 0],
+      [-10.7, 0, 0],
+    ] as [number, number, number][]) {
+      mesh = mesher.build({ ...baseParams, target }, null);
+      const counts = [...edgeUse(mesh).values()];
+      expect(counts.filter((n) => n !== 2)).toEqual([]);
+    }
+  });
+});
+
+describe('buildPlanetMesh with composite terrain', () => {
+  const heightMap = decodeRawGrid(new Float32Array(8).fill(500).buffer, {
+    width: 4,
+    height: 2,
+    format: 'float32',
+    minElevation: 0,
+    maxElevation: 1000,
+  });
+  const composite: PlanetMeshParams = {
+    ...baseParams,
+    elevation: { ...baseParams.elevation, exaggeration: 50 },
+    terrain: {
+      type: 'composite',
+      base: { type: 'heightmap', sampling: 'bilinear' },
+      settings: { ...DEFAULT_COMPOSITE_TERRAIN, fadeStart: 6, fadeEnd: 10 },
+    },
+  };
+
+  it('stays watertight with detail fading across LOD levels', () => {
+    const mesh = buildPlanetMesh(composite, heightMap);
+    expect([...edgeUse(mesh).values()].filter((n) => n !== 2)).toEqual([]);
+  });
+
+  it('keeps cached chunks in step with a fresh build', () => {
+    const mesher = new PlanetMesher();
+    mesher.build(composite, heightMap);
+    const moved = {
+      ...composite,
+      target: [6, 6, 5] as [number, number, number],
+    };
+    const incremental = mesher.build(moved, heightMap);
+    expect(incremental.positions).toEqual(
+      buildPlanetMesh(moved, heightMap).positions,
+    );
+  });
+});
@@ -0,0 +1,1041 @@
+import * as THREE from 'three';
+import type { HeightMapData } from './heightmap';
+import { elevationToDisplacement } from './elevation';
+import type { ElevationSettings } from './elevation';
+import { createHeightSource, getLodDetailWeight } from './heightSource';
+import { getElevationGradient, getTerrainNormal } from './terrainNormals';
+import type { HeightField } from './terrainNormals';
+import type { HeightSourceConfig } from './heightSource';
+import type { CubeSphereMeshParams } from './cubeSphereMesher';
+
+/**
+ * ============================================================================
+ * GEOMETRIC CONSTANTS
+ * ============================================================================
+ * We start with a Golden Ratio based Icosahedron as our base primitive.
+ * An icosahedron is a regular polyhedron with 20 identical equilateral
+ * triangular faces, 30 edges and 12 vertices.
+ */
+const t = (1 + Math.sqrt(5)) / 2;
+
+export const ICOSAHEDRON_VERTICES = [
+  [-1, t, 0],
+  [1, t, 0],
+  [-1, -t, 0],
+  [1, -t, 0],
+  [0, -1, t],
+  [0, 1, t],
+  [0, -1, -t],
+  [0, 1, -t],
+  [t, 0, -1],
+  [t, 0, 1],
+  [-t, 0, -1],
+  [-t, 0, 1],
+].map((v) => new THREE.Vector3(...v).normalize());
+
+export const ICOSAHEDRON_FACES = [
+  [0, 11, 5],
+  [0, 5, 1],
+  [0, 1, 7],
+  [0, 7, 10],
+  [0, 10, 11],
+  [1, 5, 9],
+  [5, 11, 4],
+  [11, 10, 2],
+  [10, 7, 6],
+  [7, 1, 8],
+  [3, 9, 4],
+  [3, 4, 2],
+  [3, 2, 6],
+  [3, 6, 8],
+  [3, 8, 9],
+  [4, 9, 5],
+  [2, 4, 11],
+  [6, 2, 10],
+  [8, 6, 7],
+  [9, 8, 1],
+];
+
+/** Angle (radians) subtended by an icosahedron edge at the centre. */
+export const ICOSAHEDRON_EDGE_ANGLE = Math.atan(2);
+
+/**
+ * Number of patches each icosahedron edge is split into before LOD. Only
+ * whole numbers tile the faces, so fractional detail is rounded.
+ */
+export function getBaseSubdivision(minDetail: number) {
+  return Math.max(1, Math.min(Math.round(minDetail) || 1, 5));
+}
+
+/** Resolution (k) of every quantised LOD level, coarsest first. */
+export function getLodResolutions(
+  minDetail: number,
+  maxDetail: number,
+  steps: number,
+): number[] {
+  const count = Math.max(1, Math.round(steps));
+  return Array.from({ length: count }, (_, index) => {
+    const res =
+      count <= 1
+        ? maxDetail
+        : minDetail + (index * (maxDetail - minDetail)) / (count - 1);
+    return Math.max(1, Math.round(res));
+  });
+}
+
+/**
+ * ============================================================================
+ * TOPOLOGICAL VERTEX INDEX
+ * ============================================================================
+ * Every vertex the mesher emits lies on the barycentric lattice of one base
+ * face: a point (x, y) at resolution n, with the face corners A = (0, 0),
+ * B = (n, 0) and C = (n, n). Reducing (x, y, n) to lowest terms, and
+ * re-expressing points on an icosahedron edge or corner relative to that
+ * edge or corner, gives every vertex a single integer id no matter which
+ * patch or face produced it. Shared edges therefore weld exactly, without
+ * comparing floating point positions.
+ */
+export type LatticePoint = [number, number];
+
+// Icosahedron edge id (0-29) by its sorted vertex pair, p * 12 + q with p < q
+const ICOSAHEDRON_EDGES = new Map<number, number>();
+for (const face of ICOSAHEDRON_FACES) {
+  for (let e = 0; e < 3; e++) {
+    const p = Math.min(face[e], face[(e + 1) % 3]);
+    const q = Math.max(face[e], face[(e + 1) % 3]);
+    const key = p * ICOSAHEDRON_VERTICES.length + q;
+    if (!ICOSAHEDRON_EDGES.has(key)) {
+      ICOSAHEDRON_EDGES.set(key, ICOSAHEDRON_EDGES.size);
+    }
+  }
+}
+
+// Reduced lattice coordinates must stay below this for ids to be unique
+const LATTICE_BASE = 1 << 14;
+const EDGE_SLOT = ICOSAHEDRON_VERTICES.length;
+const FACE_SLOT = EDGE_SLOT + ICOSAHEDRON_EDGES.size;
+
+function gcd(a: number, b: number): number {
+  while (b) [a, b] = [b, a % b];
+  return a;
+}
+
+function packVertexId(slot: number, n: number, x: number, y: number) {
+  return ((slot * LATTICE_BASE + n) * LATTICE_BASE + x) * LATTICE_BASE + y;
+}
+
+function edgeVertexId(p: number, q: number, num: number, den: number) {
+  // Measure the parameter from the lower vertex so both faces agree
+  if (p > q) {
+    [p, q] = [q, p];
+    num = den - num;
+  }
+  const edge = ICOSAHEDRON_EDGES.get(p * ICOSAHEDRON_VERTICES.length + q)!;
+  return packVertexId(EDGE_SLOT + edge, den, num, 0);
+}
+
+/**
+ * Canonical integer id of the lattice point (x, y) at resolution n on base
+ * face `face`. Points on a shared icosahedron edge or corner get the same id
+ * from every face that touches them.
+ */
+export function getLatticeVertexId(
+  face: number,
+  x: number,
+  y: number,
+  n: number,
+): number {
+  const g = gcd(gcd(x, y), n);
+  x /= g;
+  y /= g;
+  n /= g;
+
+  const [a, b, c] = ICOSAHEDRON_FACES[face];
+  if (y === 0) {
+    if (x === 0) return packVertexId(a, 0, 0, 0);
+    if (x === n) return packVertexId(b, 0, 0, 0);
+    return edgeVertexId(a, b, x, n);
+  }
+  if (x === n) {
+    if (y === n) return packVertexId(c, 0, 0, 0);
+    return edgeVertexId(b, c, y, n);
+  }
+  if (x === y) return edgeVertexId(a, c, x, n);
+  return packVertexId(FACE_SLOT + face, n, x, y);
+}
+
+/**
+ * Finest LOD resolution k whose lattice stays below LATTICE_BASE, with the
+ * base subdivision of `minDetail`. Past it, distinct vertices share an id
+ * and get welded together.
+ */
+export function getMaxLodResolution(minDetail: number) {
+  return Math.floor((LATTICE_BASE - 1) / getBaseSubdivision(minDetail));
+}
+
+/**
+ * ============================================================================
+ * SPHERICAL LINEAR INTERPOLATION (SLERP)
+ * ============================================================================
+ * Standard lerp (linear interpolation) doesn't work well on spheres because
+ * it cuts through the volume. Slerp interpolates along the arc of the sphere,
+ * maintaining a constant radius.
+ */
+export function slerp(
+  v1: THREE.Vector3,
+  v2: THREE.Vector3,
+  t: number,
+): THREE.Vector3 {
+  const dot = Math.max(-1, Math.min(1, v1.dot(v2)));
+
+  // If vectors are nearly identical, use standard lerp for stability
+  if (dot > 0.9999) {
+    return new THREE.Vector3().copy(v1).lerp(v2, t).normalize();
+  }
+
+  const theta = Math.acos(dot);
+  const sinTheta = Math.sin(theta);
+  const a = Math.sin((1 - t) * theta) / sinTheta;
+  const b = Math.sin(t * theta) / sinTheta;
+
+  return new THREE.Vector3().addScaledVector(v1, a).addScaledVector(v2, b);
+}
+
+/**
+ * What drives the LOD: distance to the target, projected screen-space error
+ * from the camera, or whichever of the two asks for more detail.
+ */
+export type LodMode = 'distance' | 'screenSpace' | 'both';
+
+export const LOD_MODES: LodMode[] = ['distance', 'screenSpace', 'both'];
+
+/**
+ * Where vertices are displaced: baked into the mesh here, or left on the
+ * sphere for the vertex shader to displace from an elevation grid (see
+ * elevationGrid.ts), so relief settings don't need a new mesh.
+ */
+export type DisplacementMode = 'cpu' | 'gpu';
+
+export const DISPLACEMENT_MODES: DisplacementMode[] = ['cpu', 'gpu'];
+
+/** The viewing camera as plain data. */
+export interface PlanetCamera {
+  position: [number, number, number];
+  quaternion: [number, number, number, number];
+  /** Vertical field of view in degrees. */
+  fov: number;
+  aspect: number;
+  near: number;
+  far: number;
+  /** Height of the viewport in pixels. */
+  viewportHeight: number;
+}
+
+/**
+ * Everything the mesher needs to build one planet mesh. Plain data only, so
+ * it can be posted to a worker unchanged.
+ */
+export interface PlanetMeshParams {
+  radius: number;
+  minDetail: number;
+  maxDetail: number;
+  steps: number;
+  stepGamma: number;
+  /** Planet centre in world space. */
+  center: [number, number, number];
+  /** LOD focus in world space; defaults to the top of the sphere. */
+  target: [number, number, number] | null;
+  lodMode: LodMode;
+  /** Viewing camera, needed for screen-space LOD and culling. */
+  camera: PlanetCamera | null;
+  /** Largest projected triangle edge (pixels) screen-space LOD accepts. */
+  maxScreenError: number;
+  /** Skip patches outside the view frustum or behind the horizon. */
+  culling: boolean;
+  /** Elevation units, sea level and exaggeration of the displacement. */
+  elevation: ElevationSettings;
+  /** Where vertex elevations come from: the heightmap or procedural noise. */
+  terrain: HeightSourceConfig;
+  /** Finite-difference step (scene units) for terrain normals. */
+  normalEpsilon: number;
+  /**
+   * `cpu` by default. With `gpu` the mesh stays on the sphere, with radial
+   * normals, and the terrain and elevation only bound the culling.
+   */
+  displacement?: DisplacementMode;
+}
+
+/**
+ * Output of the mesher as flat typed arrays, ready to be transferred from a
+ * worker and wrapped in a BufferGeometry.
+ */
+export interface PlanetMeshData {
+  positions: Float32Array;
+  normals: Float32Array;
+  /**
+   * Geomorphing data: each vertex's position on the mesh one LOD step
+   * coarser, and the index of the LOD step its own resolution belongs to.
+   */
+  parentPositions: Float32Array;
+  morphLevels: Float32Array;
+  indices: Uint32Array;
+  /**
+   * Cube-sphere only: where the skirt triangles start in `indices`. Skirts
+   * hide the cracks between leaves but aren't part of the surface.
+   */
+  skirtStart?: number;
+}
+
+/**
+ * Which mesher builds the planet: the icosphere of this module or the
+ * quadtree cube-sphere of CubeSphereMesher.
+ */
+export type PlanetTopology = 'icosphere' | 'cubeSphere';
+
+export const PLANET_TOPOLOGIES: PlanetTopology[] = ['icosphere', 'cubeSphere'];
+
+/** A mesh request for either topology. */
+export type PlanetMeshSpec =
+  | { topology: 'icosphere'; params: PlanetMeshParams }
+  | { topology: 'cubeSphere'; params: CubeSphereMeshParams };
+
+/** The quantised LOD resolutions of one set of mesh params. */
+interface LodLevels {
+  /** Identifies the set of levels, for cache invalidation. */
+  key: string;
+  /** The next coarser resolution, or k itself at the coarsest level. */
+  parent(k: number): number;
+  /** Step index (0 = coarsest) of a resolution. */
+  index(k: number): number;
+}
+
+/**
+ * LOD Calculation Functions
+ * getK determines the subdivision level (k) for a given point on the sphere.
+ * Higher k = more detail (smaller triangles). Both LOD modes first place the
+ * point on a continuous level coordinate, where quantised level L covers
+ * [L, L + 1); the geomorph shader mirrors that coordinate. getLevel is the
+ * resolution before quantisation, used to fade terrain detail smoothly, and
+ * lodLevels relates each quantised k to the step below it.
+ */
+function createLodFunctions(params: PlanetMeshParams, baseSub: number) {
+  const { radius, minDetail, maxDetail, stepGamma, camera } = params;
+  const planetCenter = new THREE.Vector3(...params.center);
+  // Default to top of sphere if no target provided
+  const target = params.target
+    ? new THREE.Vector3(...params.target)
+    : new THREE.Vector3(0, radius, 0);
+  const worldV = new THREE.Vector3();
+
+  const getDetailFactor = (v: THREE.Vector3) => {
+    // worldV is the point on the sphere in world space
+    worldV.copy(v).multiplyScalar(radius).add(planetCenter);
+
+    const dist = worldV.distanceTo(target);
+    const maxDist = radius * 2;
+    const t_dist = Math.max(0, Math.min(1, dist / maxDist));
+
+    // detailFactor increases as distance decreases
+    return Math.pow(1 - t_dist, stepGamma);
+  };
+
+  const levels = getLodResolutions(minDetail, maxDetail, params.steps);
+
+  /**
+   * Screen-space error: the k at which triangle edges near v project to
+   * maxScreenError pixels on the camera's viewport.
+   */
+  const eye = camera && new THREE.Vector3(...camera.position);
+  const pixelsPerUnitAtOne = camera
+    ? camera.viewportHeight /
+      (2 * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2))
+    : 0;
+  // Edge length of a k = 1 patch triangle, in world units
+  const patchEdge = (radius * ICOSAHEDRON_EDGE_ANGLE) / baseSub;
+  const getRequiredK = (v: THREE.Vector3) => {
+    if (!eye || !camera) return 0;
+    worldV.copy(v).multiplyScalar(radius).add(planetCenter);
+    const dist = Math.max(camera.near, worldV.distanceTo(eye));
+    return (patchEdge * pixelsPerUnitAtOne) / (dist * params.maxScreenError);
+  };
+
+  const getScreenLevel = (v: THREE.Vector3) => {
+    const required = getRequiredK(v);
+    let coarser = 0;
+    for (let i = 0; i < levels.length; i++) {
+      if (required < levels[i]) {
+        return i + (required - coarser) / (levels[i] - coarser);
+      }
+      coarser = levels[i];
+    }
+    return levels.length;
+  };
+
+  const useDistance = params.lodMode !== 'screenSpace' || !camera;
+  const useScreen = params.lodMode !== 'distance' && camera !== null;
+
+  const getLevelCoordinate = (v: THREE.Vector3) =>
+    Math.max(
+      useDistance ? getDetailFactor(v) * levels.length : 0,
+      useScreen ? getScreenLevel(v) : 0,
+    );
+
+  const getK = (v: THREE.Vector3) => {
+    const levelIndex = Math.floor(getLevelCoordinate(v));
+    return levels[Math.max(0, Math.min(levels.length - 1, levelIndex))];
+  };
+
+  const getLevel = (v: THREE.Vector3) =>
+    Math.max(
+      useDistance
+        ? minDetail + getDetailFactor(v) * (maxDetail - minDetail)
+        : 0,
+      useScreen ? Math.max(minDetail, Math.min(maxDetail, getRequiredK(v))) : 0,
+    );
+
+  const lodLevels: LodLevels = {
+    key: levels.join(','),
+    parent: (k) =>
+      levels.reduce((parent, l) => (l < k && l > parent ? l : parent), 0) || k,
+    index: (k) => Math.max(0, levels.indexOf(k)),
+  };
+
+  return { getK, getLevel, lodLevels };
+}
+
+// Widening of the camera's field of view for culling, so patches are in
+// place when the view turns a little before the next rebuild arrives
+const CULL_FOV_MARGIN = 1.3;
+
+/**
+ * Patch Culling
+ * Returns a test for whether a patch can be seen from the camera, or null
+ * when culling is off. A patch is bounded by its angular radius and by the
+ * lowest and highest ground the height source can produce. It is dropped
+ * when that bound lies outside the (widened) view frustum, or entirely
+ * beyond the horizon of the lowest possible ground.
+ */
+function createPatchCuller(
+  params: PlanetMeshParams,
+  minRadius: number,
+  maxRadius: number,
+) {
+  const { camera } = params;
+  if (!params.culling || !camera) return null;
+
+  const center = new THREE.Vector3(...params.center);
+  const view = new THREE.PerspectiveCamera(
+    Math.min(170, camera.fov * CULL_FOV_MARGIN),
+    camera.aspect,
+    camera.near,
+    camera.far,
+  );
+  view.position.fromArray(camera.position);
+  view.quaternion.fromArray(camera.quaternion);
+  view.updateMatrixWorld();
+  const frustum = new THREE.Frustum().setFromProjectionMatrix(
+    new THREE.Matrix4().multiplyMatrices(
+      view.projectionMatrix,
+      view.matrixWorldInverse,
+    ),
+  );
+
+  // Farthest angle from the eye direction at which any ground still shows
+  const eye = new THREE.Vector3(...camera.position).sub(center);
+  const eyeDistance = eye.length();
+  eye.normalize();
+  const horizon =
+    minRadius > 0 && eyeDistance > minRadius
+      ? Math.acos(minRadius / eyeDistance) + Math.acos(minRadius / maxRadius)
+      : Infinity;
+
+  const dir = new THREE.Vector3();
+  const sphere = new THREE.Sphere();
+  const angleTo = (a: THREE.Vector3, b: THREE.Vector3) =>
+    Math.acos(Math.max(-1, Math.min(1, a.dot(b))));
+
+  return (v1: THREE.Vector3, v2: THREE.Vector3, v3: THREE.Vector3) => {
+    dir.copy(v1).add(v2).add(v3).normalize();
+    const spread = Math.max(
+      angleTo(dir, v1),
+      angleTo(dir, v2),
+      angleTo(dir, v3),
+    );
+    if (angleTo(dir, eye) - spread > horizon) return false;
+
+    // Bounding sphere of the shell segment between the lowest and highest
+    // ground; its farthest points are the top centre and the rim corners
+    const cos = Math.cos(spread);
+    const sin = Math.sin(spread);
+    const mid = (minRadius * cos + maxRadius) / 2;
+    sphere.radius = Math.max(
+      maxRadius - mid,
+      Math.hypot(maxRadius * cos - mid, maxRadius * sin),
+      Math.hypot(minRadius * cos - mid, minRadius * sin),
+    );
+    sphere.center.copy(dir).multiplyScalar(mid).add(center);
+    return frustum.intersectsSphere(sphere);
+  };
+}
+
+/**
+ * A cached piece of the planet mesh: the vertex grid of one processSubFace
+ * patch. Chunks are self-contained (local indices) and are welded together
+ * through their topological vertex ids when the full mesh is assembled.
+ */
+interface PatchChunk {
+  /** The (k_f, k_e1, k_e2, k_e3) tuple this chunk was generated for. */
+  lodKey: string;
+  /** Topological id of every chunk vertex, shared with neighbouring chunks. */
+  vertexIds: number[];
+  /** Unit direction of every vertex; displacement is applied when welding. */
+  directions: number[];
+  /**
+   * Terrain under every vertex without and with full LOD-faded detail, four
+   * numbers each: the elevation (m) and its gradient along the sphere.
+   * Both are affine in the detail weight, so welding can blend the two for
+   * the current target without re-sampling the terrain.
+   */
+  coarseSamples: number[];
+  fineSamples: number[];
+  /** Geomorph parent of every vertex without and with full LOD detail. */
+  coarseParents: number[];
+  fineParents: number[];
+  /** LOD step index of every vertex's own resolution. */
+  morphLevels: number[];
+  indices: number[];
+}
+
+/** Terrain access for processSubFace. */
+interface PatchSampler {
+  /** Appends the terrain samples of a vertex to a chunk. */
+  vertex(v: THREE.Vector3, chunk: PatchChunk): void;
+  /**
+   * Displaced position of a direction without and with full LOD-faded
+   * detail, as six numbers.
+   */
+  surface(v: THREE.Vector3): number[];
+}
+
+/** Where a patch sits on its base face's lattice (see getLatticeVertexId). */
+export interface PatchLattice {
+  face: number;
+  /** Base subdivision level; the corners are lattice points at this resolution. */
+  n: number;
+  corners: [LatticePoint, LatticePoint, LatticePoint];
+}
+
+/**
+ * Determine the LOD tuple of a patch: k at its center and at the midpoint of
+ * each of its three edges. Neighbours evaluate the same edge midpoint, so
+ * they always agree on the resolution of a shared edge.
+ */
+function getPatchLod(
+  v1: THREE.Vector3,
+  v2: THREE.Vector3,
+  v3: THREE.Vector3,
+  getK: (v: THREE.Vector3) => number,
+): [number, number, number, number] {
+  const center = new THREE.Vector3().add(v1).add(v2).add(v3).divideScalar(3);
+  const m12 = slerp(v1, v2, 0.5);
+  const m13 = slerp(v1, v3, 0.5);
+  const m23 = slerp(v2, v3, 0.5);
+  return [getK(center), getK(m12), getK(m13), getK(m23)];
+}
+
+/**
+ * processSubFace: Handles the actual grid generation for a
+ * triangular patch.
+ */
+function processSubFace(
+  v1: THREE.Vector3,
+  v2: THREE.Vector3,
+  v3: THREE.Vector3,
+  [k_f, k_e1, k_e2, k_e3]: [number, number, number, number],
+  { face, n, corners: [P1, P2, P3] }: PatchLattice,
+  sampler: PatchSampler,
+  lodLevels: LodLevels,
+): PatchChunk {
+  const chunk: PatchChunk = {
+    lodKey: [k_f, k_e1, k_e2, k_e3].join(','),
+    vertexIds: [],
+    directions: [],
+    coarseSamples: [],
+    fineSamples: [],
+    coarseParents: [],
+    fineParents: [],
+    morphLevels: [],
+    indices: [],
+  };
+  const vertexMap = new Map<number, number>();
+
+  // Lattice steps along the patch edges v1->v2, v2->v3 and v1->v3
+  const d12 = [P2[0] - P1[0], P2[1] - P1[1]];
+  const d23 = [P3[0] - P2[0], P3[1] - P2[1]];
+  const d13 = [P3[0] - P1[0], P3[1] - P1[1]];
+
+  // Id of the point origin + (m / s) * dir on the patch, s being a resolution
+  const latticeId = (
+    s: number,
+    origin: LatticePoint,
+    m: number,
+    dir: number[],
+    m2 = 0,
+    dir2 = dir,
+  ) =>
+    getLatticeVertexId(
+      face,
+      origin[0] * s + m * dir[0] + m2 * dir2[0],
+      origin[1] * s + m * dir[1] + m2 * dir2[1],
+      n * s,
+    );
+
+  // Displaced points of the patch grid at resolution s, cached because
+  // neighbouring vertices share the corners of their parent triangle
+  const gridPoints = new Map<string, number[]>();
+  function gridPoint(s: number, r: number, c: number) {
+    const key = `${s}:${r}:${c}`;
+    let point = gridPoints.get(key);
+    if (!point) {
+      const rowStart = slerp(v1, v2, r / s);
+      const rowEnd = slerp(v1, v3, r / s);
+      point = sampler.surface(slerp(rowStart, rowEnd, r === 0 ? 0 : c / r));
+      gridPoints.set(key, point);
+    }
+    return point;
+  }
+
+  /**
+   * Geomorph Parent
+   * Where grid point (r, c) at resolution s lies on the mesh one LOD step
+   * coarser: interpolated linearly across the coarse grid triangle that
+   * contains it. Points on a patch edge stay on that edge.
+   */
+  function addParent(s: number, r: number, c: number) {
+    const p = lodLevels.parent(s);
+    const R = (r * p) / s;
+    const C = (c * p) / s;
+    const r0 = Math.min(Math.floor(R), p - 1);
+    const c0 = Math.min(Math.floor(C), r0);
+    const fr = R - r0;
+    const fc = C - c0;
+    const corners: [number, number, number][] =
+      fr >= fc
+        ? [
+            [r0, c0, 1 - fr],
+            [r0 + 1, c0, fr - fc],
+            [r0 + 1, c0 + 1, fc],
+          ]
+        : [
+            [r0, c0, 1 - fc],
+            [r0, c0 + 1, fc - fr],
+            [r0 + 1, c0 + 1, fr],
+          ];
+
+    const parent = [0, 0, 0, 0, 0, 0];
+    for (const [cr, cc, weight] of corners) {
+      if (weight === 0) continue;
+      const point = gridPoint(p, cr, cc);
+      for (let i = 0; i < 6; i++) parent[i] += weight * point[i];
+    }
+    chunk.coarseParents.push(parent[0], parent[1], parent[2]);
+    chunk.fineParents.push(parent[3], parent[4], parent[5]);
+    chunk.morphLevels.push(lodLevels.index(s));
+  }
+
+  /**
+   * Vertex Index Management
+   * Ensures we don't create duplicate vertices and samples terrain height.
+   * (s, r, c) locates the vertex on the patch grid of its own resolution.
+   */
+  function getVertexIndex(
+    v: THREE.Vector3,
+    id: number,
+    s: number,
+    r: number,
+    c: number,
+  ): number {
+    // Return existing index if vertex was already processed
+    const existing = vertexMap.get(id);
+    if (existing !== undefined) return existing;
+
+    const index = chunk.vertexIds.length;
+    chunk.vertexIds.push(id);
+    chunk.directions.push(v.x, v.y, v.z);
+    sampler.vertex(v, chunk);
+    addParent(s, r, c);
+    vertexMap.set(id, index);
+    return index;
+  }
+
+  // Use the max k among edges and center for consistent borders
+  const k = Math.max(k_f, k_e1, k_e2, k_e3);
+
+  // Generate vertex grid for the patch
+  const faceGrid: number[][] = [];
+  for (let r = 0; r <= k; r++) {
+    faceGrid[r] = [];
+    const t_r = r / k;
+    const rowStart = slerp(v1, v2, t_r);
+    const rowEnd = slerp(v1, v3, t_r);
+
+    for (let c = 0; c <= r; c++) {
+      let v: THREE.Vector3;
+      let id: number;
+      // The vertex on the grid of its own resolution: [s, row, column]
+      let grid: [number, number, number];
+
+      // Snap edges to ensure crack-free transitions between LOD levels
+      if (r === k) {
+        const m = Math.round((c / k) * k_e3);
+        v = slerp(v2, v3, m / k_e3);
+        id = latticeId(k_e3, P2, m, d23);
+        grid = [k_e3, k_e3, m];
+      } else if (c === 0) {
+        const m = Math.round((r / k) * k_e1);
+        v = slerp(v1, v2, m / k_e1);
+        id = latticeId(k_e1, P1, m, d12);
+        grid = [k_e1, m, 0];
+      } else if (c === r) {
+        const m = Math.round((r / k) * k_e2);
+        v = slerp(v1, v3, m / k_e2);
+        id = latticeId(k_e2, P1, m, d13);
+        grid = [k_e2, m, m];
+      } else {
+        v = slerp(rowStart, rowEnd, r === 0 ? 0 : c / r);
+        id = latticeId(k, P1, r, d12, c, d23);
+        grid = [k, r, c];
+      }
+      faceGrid[r][c] = getVertexIndex(v, id, ...grid);
+    }
+  }
+
+  // Create triangles from the grid
+  const { indices } = chunk;
+  for (let r = 0; r < k; r++) {
+    for (let c = 0; c < r; c++) {
+      const i1 = faceGrid[r][c];
+      const i2 = faceGrid[r + 1][c];
+      const i3 = faceGrid[r + 1][c + 1];
+      const i4 = faceGrid[r][c + 1];
+
+      if (i1 !== i2 && i2 !== i3 && i3 !== i1) indices.push(i1, i2, i3);
+      if (i1 !== i3 && i3 !== i4 && i4 !== i1) indices.push(i1, i3, i4);
+    }
+    const i1 = faceGrid[r][r];
+    const i2 = faceGrid[r + 1][r];
+    const i3 = faceGrid[r + 1][r + 1];
+    if (i1 !== i2 && i2 !== i3 && i3 !== i1) indices.push(i1, i2, i3);
+  }
+
+  return chunk;
+}
+
+/** One of the baseSub² triangles each icosahedron face is split into. */
+export interface BasePatch {
+  /** Stable id, `face:row:column`, with a `:d` suffix for upside-down ones. */
+  id: string;
+  corners: [THREE.Vector3, THREE.Vector3, THREE.Vector3];
+  lattice: PatchLattice;
+}
+
+/**
+ * BASE PATCHES
+ * 1. Iterate through base icosahedron faces.
+ * 2. Subdivide each face into 'baseSub' rows of upright and upside-down
+ *    triangles, the patches that LOD and caching work on.
+ */
+export function getBasePatches(baseSub: number): BasePatch[] {
+  const patches: BasePatch[] = [];
+  for (let f = 0; f < ICOSAHEDRON_FACES.length; f++) {
+    const faceIndices = ICOSAHEDRON_FACES[f];
+    const A = ICOSAHEDRON_VERTICES[faceIndices[0]];
+    const B = ICOSAHEDRON_VERTICES[faceIndices[1]];
+    const C = ICOSAHEDRON_VERTICES[faceIndices[2]];
+
+    for (let i = 0; i < baseSub; i++) {
+      for (let j = 0; j <= i; j++) {
+        // Calculate sub-patch corners
+        const v1 = slerp(
+          slerp(A, B, i / baseSub),
+          slerp(A, C, i / baseSub),
+          i === 0 ? 0 : j / i,
+        );
+        const v2 = slerp(
+          slerp(A, B, (i + 1) / baseSub),
+          slerp(A, C, (i + 1) / baseSub),
+          j / (i + 1),
+        );
+        const v3 = slerp(
+          slerp(A, B, (i + 1) / baseSub),
+          slerp(A, C, (i + 1) / baseSub),
+          (j + 1) / (i + 1),
+        );
+        patches.push({
+          id: `${f}:${i}:${j}`,
+          corners: [v1, v2, v3],
+          lattice: {
+            face: f,
+            n: baseSub,
+            corners: [
+              [i, j],
+              [i + 1, j],
+              [i + 1, j + 1],
+            ],
+          },
+        });
+
+        // Handle the "upside-down" triangle in the subdivision grid
+        if (j < i) {
+          const vd3 = slerp(
+            slerp(A, B, i / baseSub),
+            slerp(A, C, i / baseSub),
+            (j + 1) / i,
+          );
+          patches.push({
+            id: `${f}:${i}:${j}:d`,
+            corners: [v1, v3, vd3],
+            lattice: {
+              face: f,
+              n: baseSub,
+              corners: [
+                [i, j],
+                [i + 1, j + 1],
+                [i, j + 1],
+              ],
+            },
+          });
+        }
+      }
+    }
+  }
+  return patches;
+}
+
+/**
+ * ============================================================================
+ * PLANET MESHER
+ * ============================================================================
+ * Generates the planet mesh and keeps every patch around as a cached chunk,
+ * keyed by face/i/j and its LOD tuple. On the next build only the patches
+ * whose tuple changed are regenerated; the rest are re-used as-is and all
+ * chunks are welded into one shared buffer. Anything that changes every
+ * vertex (radius, elevation, terrain, heightmap, base subdivision) drops the
+ * cache.
+ */
+export class PlanetMesher {
+  private chunks = new Map<string, PatchChunk>();
+  private surfaceKey = '';
+  private surfaceHeightMap: HeightMapData | null = null;
+  // Face resolution k_f of every patch in the last mesh
+  private patchResolutions: number[] = [];
+
+  /**
+   * Generates the mesh patch by patch. The generator yields after every
+   * regenerated patch so that callers (the mesher worker) can time-slice the
+   * work and drop it as soon as a newer request makes it stale.
+   */
+  *generate(
+    params: PlanetMeshParams,
+    heightMapData: HeightMapData | null,
+  ): Generator<void, PlanetMeshData, void> {
+    const { radius, minDetail, elevation, terrain, normalEpsilon } = params;
+    const gpu = params.displacement === 'gpu';
+
+    // Base subdivision level for all faces
+    const baseSub = getBaseSubdivision(minDetail);
+
+    const { getK, getLevel, lodLevels } = createLodFunctions(params, baseSub);
+
+    // Geomorph parents depend on the set of LOD levels as well; the bare
+    // sphere of GPU displacement depends on nothing about the terrain
+    const surfaceKey = JSON.stringify([
+      radius,
+      baseSub,
+      gpu ? 'gpu' : [elevation, terrain, normalEpsilon],
+      lodLevels.key,
+    ]);
+    if (
+      surfaceKey !== this.surfaceKey ||
+      heightMapData !== this.surfaceHeightMap
+    ) {
+      this.chunks.clear();
+      this.surfaceKey = surfaceKey;
+      this.surfaceHeightMap = heightMapData;
+    }
+
+    /**
+     * Sample elevations and their gradients from the height source, with and
+     * without LOD detail. Gradients are taken over a fixed angle, so normals
+     * don't change with the resolution of the surrounding mesh. Vertices
+     * left to the GPU are sampled from no source at all, which keeps them
+     * on the sphere.
+     */
+    const source = createHeightSource(terrain, heightMapData, elevation);
+    const vertexSource = gpu ? null : source;
+    const vertexElevation = gpu ? { ...elevation, exaggeration: 0 } : elevation;
+    const angle = normalEpsilon / radius;
+    const gradient = new THREE.Vector3();
+    const sampleTerrain = (v: THREE.Vector3, detail: number, out: number[]) => {
+      if (!vertexSource) {
+        out.push(0, 0, 0, 0);
+        return;
+      }
+      const height: HeightField = (dir) => vertexSource.heightAt(dir, detail);
+      getElevationGradient(height, v, angle, gradient);
+      out.push(height(v), gradient.x, gradient.y, gradient.z);
+    };
+    const displace = (v: THREE.Vector3, detail: number, out: number[]) => {
+      const h = vertexSource ? vertexSource.heightAt(v, detail) : 0;
+      const r = radius + elevationToDisplacement(h, vertexElevation, radius);
+      out.push(v.x * r, v.y * r, v.z * r);
+    };
+    const sampler: PatchSampler = {
+      vertex(v, chunk) {
+        if (vertexSource?.lodFade) {
+          sampleTerrain(v, 0, chunk.coarseSamples);
+          sampleTerrain(v, 1, chunk.fineSamples);
+        } else {
+          sampleTerrain(v, 1, chunk.coarseSamples);
+        }
+      },
+      surface(v) {
+        const out: number[] = [];
+        displace(v, vertexSource?.lodFade ? 0 : 1, out);
+        if (vertexSource?.lodFade) displace(v, 1, out);
+        else out.push(out[0], out[1], out[2]);
+        return out;
+      },
+    };
+
+    // Culling bounds: the lowest and highest ground the source can produce
+    const [minRadius, maxRadius] = source
+      ? [source.bounds.min, source.bounds.max].map(
+          (h) => radius + elevationToDisplacement(h, elevation, radius),
+        )
+      : [radius, radius];
+    const isVisible = createPatchCuller(params, minRadius, maxRadius);
+
+    const patches: PatchChunk[] = [];
+    const chunks = this.chunks;
+
+    function* collectPatch(
+      id: string,
+      v1: THREE.Vector3,
+      v2: THREE.Vector3,
+      v3: THREE.Vector3,
+      lattice: PatchLattice,
+    ): Generator<void, void, void> {
+      if (isVisible && !isVisible(v1, v2, v3)) return;
+      const lod = getPatchLod(v1, v2, v3, getK);
+      let chunk = chunks.get(id);
+      if (!chunk || chunk.lodKey !== lod.join(',')) {
+        chunk = processSubFace(v1, v2, v3, lod, lattice, sampler, lodLevels);
+        chunks.set(id, chunk);
+        yield;
+      }
+      patches.push(chunk);
+    }
+
+    /**
+     * MAIN SUBDIVISION LOOP
+     * For each visible base patch, calculate LOD (k) and re-use or regenerate
+     * it, then weld all chunks into a single indexed mesh.
+     */
+    for (const patch of getBasePatches(baseSub)) {
+      yield* collectPatch(patch.id, ...patch.corners, patch.lattice);
+    }
+    this.patchResolutions = patches.map((chunk) =>
+      Number(chunk.lodKey.split(',')[0]),
+    );
+
+    /**
+     * Weld chunks into one buffer, merging vertices shared along patch edges,
+     * and apply displacement relative to sea level. Detail that fades with
+     * LOD is blended in here, per vertex, from the continuous LOD level.
+     */
+    const positions: number[] = [];
+    const normals: number[] = [];
+    const parentPositions: number[] = [];
+    const morphLevels: number[] = [];
+    const indices: number[] = [];
+    const vertexMap = new Map<number, number>();
+    const dir = new THREE.Vector3();
+    const normal = new THREE.Vector3();
+    const sample = [0, 0, 0, 0];
+
+    for (const chunk of patches) {
+      const localToGlobal = chunk.vertexIds.map((id, local) => {
+        let index = vertexMap.get(id);
+        if (index === undefined) {
+          index = positions.length / 3;
+          dir.fromArray(chunk.directions, local * 3);
+          const w = vertexSource?.lodFade
+            ? getLodDetailWeight(vertexSource, getLevel(dir))
+            : 0;
+          for (let c = 0; c < 4; c++) {
+            const coarse = chunk.coarseSamples[local * 4 + c];
+            sample[c] = w
+              ? coarse + w * (chunk.fineSamples[local * 4 + c] - coarse)
+              : coarse;
+          }
+          const [h, gx, gy, gz] = sample;
+
+          const r =
+            radius + elevationToDisplacement(h, vertexElevation, radius);
+          positions.push(dir.x * r, dir.y * r, dir.z * r);
+          gradient.set(gx, gy, gz);
+          getTerrainNormal(dir, h, gradient, vertexElevation, radius, normal);
+          normals.push(normal.x, normal.y, normal.z);
+          for (let c = 0; c < 3; c++) {
+            const coarse = chunk.coarseParents[local * 3 + c];
+            parentPositions.push(
+              coarse + w * (chunk.fineParents[local * 3 + c] - coarse),
+            );
+          }
+          morphLevels.push(chunk.morphLevels[local]);
+          vertexMap.set(id, index);
+        }
+        return index;
+      });
+      for (const local of chunk.indices) indices.push(localToGlobal[local]);
+    }
+
+    return {
+      positions: new Float32Array(positions),
+      normals: new Float32Array(normals),
+      parentPositions: new Float32Array(parentPositions),
+      morphLevels: new Float32Array(morphLevels),
+      indices: new Uint32Array(indices),
+    };
+  }
+
+  /** Number of patches at each face resolution k in the last mesh. */
+  getPatchCounts(): Record<number, number> {
+    const counts: Record<number, number> = {};
+    for (const k of this.patchResolutions) counts[k] = (counts[k] ?? 0) + 1;
+    return counts;
+  }
+
+  /** Synchronously runs `generate` to completion. */
+  build(
+    params: PlanetMeshParams,
+    heightMapData: HeightMapData | null,
+  ): PlanetMeshData {
+    const job = this.generate(params, heightMapData);
+    let step = job.next();
+    while (!step.done) step = job.next();
+    return step.value;
+  }
+}
+
+/**
+ * Builds the whole planet mesh from scratch. Pure function: no React, no
+ * DOM, so it runs the same in the browser, a worker or Node.
+ */
+export function buildPlanetMesh(
+  params: PlanetMeshParams,
+  heightMapData: HeightMapData | null,
+): PlanetMeshData {
+  return new PlanetMesher().build(params, heightMapData);
+}
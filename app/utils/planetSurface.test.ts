@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import { createPlanetSurface } from './planetSurface';
+import type { SurfaceParams } from './planetSurface';
+import { buildPlanetMesh } from './planetMesher';
+import { DEFAULT_ELEVATION_SETTINGS } from './elevation';
+import {
+  DEFAULT_PROCEDURAL_TERRAIN,
+  createProceduralSource,
+} from './heightSource';
+import { bakeElevationGrid } from './elevationGrid';
+import { getCylindricalDirection } from './heightmap';
+import { DEFAULT_NORMAL_EPSILON } from './terrainNormals';
+
+const params: SurfaceParams = {
+  radius: 10,
+  elevation: DEFAULT_ELEVATION_SETTINGS,
+  terrain: { type: 'procedural', settings: DEFAULT_PROCEDURAL_TERRAIN },
+  normalEpsilon: DEFAULT_NORMAL_EPSILON,
+};
+
+describe('createPlanetSurface', () => {
+  const surface = createPlanetSurface(params, null);
+
+  it('matches the vertices and normals of the mesh', () => {
+    const { positions, normals } = buildPlanetMesh(
+      {
+        ...params,
+        minDetail: 4,
+        maxDetail: 4,
+        steps: 1,
+        stepGamma: 1,
+        center: [0, 0, 0],
+        target: null,
+        lodMode: 'distance',
+        camera: null,
+        maxScreenError: 8,
+        culling: false,
+      },
+      null,
+    );
+    const point = new THREE.Vector3();
+    const normal = new THREE.Vector3();
+    for (let i = 0; i < positions.length; i += 3 * 37) {
+      point.fromArray(positions, i);
+      const dir = point.clone().normalize();
+      expect(surface.radiusAt(dir)).toBeCloseTo(point.length(), 4);
+      normal.fromArray(normals, i);
+      expect(surface.normalAt(dir).dot(normal)).toBeGreaterThan(0.99999);
+    }
+  });
+
+  it('hits the ground straight below a point above it', () => {
+    const dir = new THREE.Vector3(1, 2, 3).normalize();
+    const ray = new THREE.Ray(dir.clone().multiplyScalar(20), dir.clone());
+    ray.direction.negate();
+    const hit = surface.raycast(ray);
+    expect(hit).not.toBeNull();
+    expect(hit!.length()).toBeCloseTo(surface.radiusAt(dir), 4);
+    expect(hit!.clone().normalize().dot(dir)).toBeCloseTo(1, 6);
+  });
+
+  it('returns the first crossing of an oblique ray', () => {
+    const ray = new THREE.Ray(
+      new THREE.Vector3(-20, 9.5, 3),
+      new THREE.Vector3(1, -0.1, 0).normalize(),
+    );
+    const hit = surface.raycast(ray)!;
+    const dir = hit.clone().normalize();
+    expect(hit.length()).toBeCloseTo(surface.radiusAt(dir), 4);
+
+    // Everything before the hit is above the ground
+    const t = hit.distanceTo(ray.origin);
+    const probe = new THREE.Vector3();
+    for (let s = 0; s < t - 1e-3; s += 0.01) {
+      ray.at(s, probe);
+      const r = probe.length();
+      expect(r).toBeGreaterThan(surface.radiusAt(probe.divideScalar(r)));
+    }
+  });
+
+  it('misses rays that pass or point away from the planet', () => {
+    const past = new THREE.Ray(
+      new THREE.Vector3(-20, 15, 0),
+      new THREE.Vector3(1, 0, 0),
+    );
+    const away = new THREE.Ray(
+      new THREE.Vector3(0, 20, 0),
+      new THREE.Vector3(0, 1, 0),
+    );
+    expect(surface.raycast(past)).toBeNull();
+    expect(surface.raycast(away)).toBeNull();
+  });
+
+  it('falls back to the sea-level sphere without terrain', () => {
+    const bare = createPlanetSurface(
+      { ...params, terrain: { type: 'heightmap', sampling: 'bilinear' } },
+      null,
+    );
+    const dir = new THREE.Vector3(0, 0, 1);
+    expect(bare.elevationAt(dir)).toBe(0);
+    expect(bare.radiusAt(dir)).toBe(10);
+    expect(bare.normalAt(dir).toArray()).toEqual([0, 0, 1]);
+    const hit = bare.raycast(
+      new THREE.Ray(new THREE.Vector3(0, 0, 30), dir.clone().negate()),
+    );
+    expect(hit!.z).toBeCloseTo(10, 6);
+  });
+
+  it('reads an elevation grid instead of the terrain when given one', () => {
+    const grid = bakeElevationGrid(
+      createProceduralSource(DEFAULT_PROCEDURAL_TERRAIN),
+      { width: 128, height: 64 },
+    );
+    const baked = createPlanetSurface(params, null, grid);
+    const dir = getCylindricalDirection(
+      (40 + 0.5) / 128,
+      (20 + 0.5) / 64,
+      new THREE.Vector3(),
+    );
+    expect(baked.elevationAt(dir)).toBeCloseTo(grid.data[20 * 128 + 40], 3);
+    expect(baked.elevationAt(dir)).toBeCloseTo(surface.elevationAt(dir), 3);
+  });
+});
@@ -0,0 +1,111 @@
+import * as THREE from 'three';
+import type { HeightMapData } from './heightmap';
+import { elevationToDisplacement } from './elevation';
+import { createElevationGridSource } from './elevationGrid';
+import type { ElevationGrid } from './elevationGrid';
+import { createHeightSource } from './heightSource';
+import type { PlanetMeshParams } from './planetMesher';
+import { getElevationGradient, getTerrainNormal } from './terrainNormals';
+import type { HeightField } from './terrainNormals';
+
+/**
+ * ============================================================================
+ * PLANET SURFACE QUERIES
+ * ============================================================================
+ * The displaced ground as a height field, for placing things on the planet
+ * without touching the mesh. It samples the same height source at full
+ * detail as the mesher, so it matches the mesh wherever the mesh is at its
+ * finest, which is around the LOD target. Everything is in the planet's
+ * local space: directions and points relative to its centre.
+ */
+
+export type SurfaceParams = Pick<
+  PlanetMeshParams,
+  'radius' | 'elevation' | 'terrain' | 'normalEpsilon'
+>;
+
+export interface PlanetSurface {
+  /** Elevation (m) of the ground along a unit direction. */
+  elevationAt(dir: THREE.Vector3): number;
+  /** Distance from the centre to the ground along a unit direction. */
+  radiusAt(dir: THREE.Vector3): number;
+  /** Outward unit normal of the ground along a unit direction. */
+  normalAt(dir: THREE.Vector3, out?: THREE.Vector3): THREE.Vector3;
+  /** First point where a local-space ray meets the ground, if any. */
+  raycast(ray: THREE.Ray, out?: THREE.Vector3): THREE.Vector3 | null;
+}
+
+// Samples along the part of a ray inside the highest ground, then bisections
+const MARCH_STEPS = 256;
+const BISECTION_STEPS = 24;
+
+/**
+ * With an elevation grid, the surface reads the grid instead of the terrain,
+ * to match a planet displaced on the GPU from it.
+ */
+export function createPlanetSurface(
+  { radius, elevation, terrain, normalEpsilon }: SurfaceParams,
+  heightMapData: HeightMapData | null,
+  grid?: ElevationGrid | null,
+): PlanetSurface {
+  const source = grid
+    ? createElevationGridSource(grid)
+    : createHeightSource(terrain, heightMapData, elevation);
+  const height: HeightField = (dir) => (source ? source.heightAt(dir) : 0);
+  const toRadius = (h: number) =>
+    radius + elevationToDisplacement(h, elevation, radius);
+  const maxRadius = toRadius(source ? source.bounds.max : 0);
+  const angle = normalEpsilon / radius;
+  const gradient = new THREE.Vector3();
+  const dir = new THREE.Vector3();
+  const point = new THREE.Vector3();
+
+  const radiusAt = (d: THREE.Vector3) => toRadius(height(d));
+
+  // Height of a point on the ray above the ground below it
+  const clearance = (ray: THREE.Ray, t: number) => {
+    ray.at(t, point);
+    const r = point.length();
+    if (r === 0) return -radius;
+    return r - radiusAt(dir.copy(point).divideScalar(r));
+  };
+
+  return {
+    elevationAt: height,
+    radiusAt,
+
+    normalAt(d, out = new THREE.Vector3()) {
+      getElevationGradient(height, d, angle, gradient);
+      return getTerrainNormal(d, height(d), gradient, elevation, radius, out);
+    },
+
+    raycast(ray, out = new THREE.Vector3()) {
+      // Only the stretch inside the sphere of the highest ground can hit
+      const b = ray.origin.dot(ray.direction);
+      const c = ray.origin.lengthSq() - maxRadius * maxRadius;
+      const disc = b * b - c;
+      if (disc < 0) return null;
+      const tFar = -b + Math.sqrt(disc);
+      if (tFar < 0) return null;
+      const tNear = Math.max(-b - Math.sqrt(disc), 0);
+      if (clearance(ray, tNear) <= 0) return ray.at(tNear, out);
+
+      const step = (tFar - tNear) / MARCH_STEPS;
+      for (let i = 1; i <= MARCH_STEPS; i++) {
+        const t = tNear + i * step;
+        if (clearance(ray, t) > 0) continue;
+
+        // Crossed the ground within the last step, narrow it down
+        let above = t - step;
+        let below = t;
+        for (let j = 0; j < BISECTION_STEPS; j++) {
+          const mid = (above + below) / 2;
+          if (clearance(ray, mid) > 0) above = mid;
+          else below = mid;
+        }
+        return ray.at(below, out);
+      }
+      return null;
+    },
+  };
+}
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_SYSTEM,
+  getBodyPositions,
+  getOrbitPoints,
+  getOrbitPosition,
+  solveKepler,
+  validatePlanetSystem,
+} from './planetSystem';
+import type { OrbitElements, SystemDescription } from './planetSystem';
+
+const circle: OrbitElements = {
+  semiMajorAxis: 10,
+  eccentricity: 0,
+  inclination: 0,
+  longitudeOfAscendingNode: 0,
+  argumentOfPeriapsis: 0,
+  meanAnomalyAtEpoch: 0,
+  period: 100,
+};
+const ellipse: OrbitElements = {
+  ...circle,
+  eccentricity: 0.6,
+  inclination: 30,
+  longitudeOfAscendingNode: 40,
+  argumentOfPeriapsis: 70,
+};
+
+describe('solveKepler', () => {
+  it('solves the equation at any eccentricity', () => {
+    for (const e of [0, 0.1, 0.5, 0.9, 0.99]) {
+      for (const M of [0.01, 1, 3, 5, 6.2]) {
+        const E = solveKepler(M, e);
+        expect(E - e * Math.sin(E)).toBeCloseTo(M, 9);
+      }
+    }
+  });
+});
+
+describe('getOrbitPosition', () => {
+  it('keeps circular orbits at a constant distance', () => {
+    for (let t = 0; t < 100; t += 7) {
+      expect(getOrbitPosition(circle, t).length()).toBeCloseTo(10);
+    }
+  });
+
+  it('orbits in the horizontal plane, counterclockwise seen from above', () => {
+    const start = getOrbitPosition(circle, 0);
+    const quarter = getOrbitPosition(circle, 25);
+    expect(start.x).toBeCloseTo(10);
+    expect(start.z).toBeCloseTo(0);
+    expect(quarter.x).toBeCloseTo(0);
+    expect(quarter.y).toBeCloseTo(0);
+    expect(quarter.z).toBeCloseTo(-10);
+  });
+
+  it('comes back after one period', () => {
+    const start = getOrbitPosition(ellipse, 13);
+    const later = getOrbitPosition(ellipse, 113);
+    expect(later.distanceTo(start)).toBeLessThan(1e-9);
+  });
+
+  it('ranges from periapsis to apoapsis', () => {
+    const periapsis = getOrbitPosition(ellipse, 0).length();
+    const apoapsis = getOrbitPosition(ellipse, 50).length();
+    expect(periapsis).toBeCloseTo(10 * (1 - 0.6));
+    expect(apoapsis).toBeCloseTo(10 * (1 + 0.6));
+  });
+
+  it('tilts by the inclination', () => {
+    const steepest = getOrbitPoints(ellipse, 360).reduce(
+      (max, p) => Math.max(max, Math.asin(Math.abs(p.y) / p.length())),
+      0,
+    );
+    expect((steepest * 180) / Math.PI).toBeCloseTo(30, 0);
+  });
+});
+
+describe('getOrbitPoints', () => {
+  it('traces a closed loop on the orbit', () => {
+    const points = getOrbitPoints(ellipse, 64);
+    expect(points).toHaveLength(65);
+    expect(points[64].distanceTo(points[0])).toBeLessThan(1e-9);
+  });
+});
+
+describe('getBodyPositions', () => {
+  it('adds moons to their planets', () => {
+    const positions = getBodyPositions(DEFAULT_SYSTEM, 42);
+    const moon = DEFAULT_SYSTEM.bodies.find((body) => body.id === 'deimos');
+    const relative = getOrbitPosition(moon!.orbit!, 42);
+    expect(positions.get('earth')?.toArray()).toEqual([0, 0, 0]);
+    expect(
+      positions
+        .get('deimos')
+        ?.clone()
+        .sub(positions.get('ares')!)
+        .distanceTo(relative),
+    ).toBeLessThan(1e-9);
+  });
+});
+
+describe('validatePlanetSystem', () => {
+  const [earth, moon] = DEFAULT_SYSTEM.bodies;
+  const invalid = (bodies: SystemDescription['bodies']) => () =>
+    validatePlanetSystem({ bodies });
+
+  it('accepts the default system', () => {
+    expect(() => validatePlanetSystem(DEFAULT_SYSTEM)).not.toThrow();
+  });
+
+  it('rejects broken trees', () => {
+    expect(invalid([earth, earth])).toThrow('Duplicate');
+    expect(invalid([moon])).toThrow('unknown body "earth"');
+    expect(
+      invalid([
+        { ...earth, parent: 'moon' },
+        { ...moon, parent: 'earth' },
+      ]),
+    ).toThrow('orbits itself');
+  });
+
+  it('rejects impossible bodies', () => {
+    expect(invalid([{ ...earth, radius: 0 }])).toThrow('positive radius');
+    expect(
+      invalid([earth, { ...moon, orbit: { ...circle, eccentricity: 1 } }]),
+    ).toThrow('bound orbit');
+  });
+});
@@ -0,0 +1,296 @@
+import * as THREE from 'three';
+import type { ProceduralTerrainSettings, TerrainType } from './heightSource';
+import type { PlanetShading } from './terrainShader';
+
+/**
+ * ============================================================================
+ * PLANET SYSTEM
+ * ============================================================================
+ * A declarative description of several bodies, planets and their moons, and
+ * where they are at a given time. Each body follows a fixed Keplerian orbit
+ * around its parent (or around the scene origin, without one); orbits are
+ * relative, so a moon's position adds to its planet's.
+ *
+ * Orbital elements use the usual conventions, with the reference plane
+ * mapped onto the scene's horizontal xz plane and its pole onto +y.
+ */
+
+const toRad = THREE.MathUtils.degToRad;
+
+export interface OrbitElements {
+  /** Half the long axis of the ellipse, in scene units. */
+  semiMajorAxis: number;
+  /** 0 for a circle, up to (not including) 1. */
+  eccentricity: number;
+  /** Tilt of the orbit against the reference plane, in degrees. */
+  inclination: number;
+  /** Where the orbit rises through the reference plane, in degrees. */
+  longitudeOfAscendingNode: number;
+  /** Angle from the ascending node to the periapsis, in degrees. */
+  argumentOfPeriapsis: number;
+  /** Position along the orbit at time 0, as a mean anomaly in degrees. */
+  meanAnomalyAtEpoch: number;
+  /** Time (scene seconds) of one revolution. */
+  period: number;
+}
+
+/** How a body looks; the same props as the Planet component. */
+export interface BodySurface {
+  terrain: TerrainType;
+  heightMapUrl?: string;
+  procedural?: Partial<ProceduralTerrainSettings>;
+  exaggeration?: number;
+  /** Real radius (m) the scene radius stands for. */
+  planetRadiusMeters?: number;
+  shading?: PlanetShading;
+  color?: string;
+  ocean?: boolean;
+  atmosphere?: boolean;
+}
+
+export interface BodyDescription {
+  id: string;
+  name: string;
+  /** Sea-level radius in scene units. */
+  radius: number;
+  /** Id of the body it orbits; the scene origin without one. */
+  parent?: string;
+  /** Stays put at its parent's centre without one. */
+  orbit?: OrbitElements;
+  surface: BodySurface;
+}
+
+export interface SystemDescription {
+  bodies: BodyDescription[];
+}
+
+/**
+ * A toy system around the home page's Earth: a Moon much closer than the
+ * real one, and a red planet with a small moon of its own. Periods are
+ * minutes, not months, so the motion shows.
+ */
+export const DEFAULT_SYSTEM: SystemDescription = {
+  bodies: [
+    {
+      id: 'earth',
+      name: 'Earth',
+      radius: 10,
+      surface: { terrain: 'heightmap', shading: 'albedo', ocean: true },
+    },
+    {
+      id: 'moon',
+      name: 'Moon',
+      radius: 2.7,
+      parent: 'earth',
+      orbit: {
+        semiMajorAxis: 60,
+        eccentricity: 0.055,
+        inclination: 5.1,
+        longitudeOfAscendingNode: 125,
+        argumentOfPeriapsis: 318,
+        meanAnomalyAtEpoch: 135,
+        period: 240,
+      },
+      surface: {
+        terrain: 'procedural',
+        procedural: { seed: 7, type: 'ridged', amplitude: 4000 },
+        exaggeration: 20,
+        planetRadiusMeters: 1_737_400,
+        color: '#9e9e9e',
+      },
+    },
+    {
+      id: 'ares',
+      name: 'Ares',
+      radius: 5,
+      orbit: {
+        semiMajorAxis: 160,
+        eccentricity: 0.09,
+        inclination: 1.8,
+        longitudeOfAscendingNode: 49,
+        argumentOfPeriapsis: 286,
+        meanAnomalyAtEpoch: 20,
+        period: 600,
+      },
+      surface: {
+        terrain: 'procedural',
+        procedural: { seed: 42, warp: 0.8, amplitude: 8000 },
+        exaggeration: 30,
+        planetRadiusMeters: 3_389_500,
+        color: '#c1440e',
+      },
+    },
+    {
+      id: 'deimos',
+      name: 'Deimos',
+      radius: 1,
+      parent: 'ares',
+      orbit: {
+        semiMajorAxis: 14,
+        eccentricity: 0,
+        inclination: 1.8,
+        longitudeOfAscendingNode: 0,
+        argumentOfPeriapsis: 0,
+        meanAnomalyAtEpoch: 0,
+        period: 60,
+      },
+      surface: {
+        terrain: 'procedural',
+        procedural: { seed: 3, octaves: 4, amplitude: 3000 },
+        exaggeration: 10,
+        planetRadiusMeters: 6_200,
+        color: '#8a7f74',
+      },
+    },
+  ],
+};
+
+/**
+ * Checks that the bodies form a tree of sensible orbits. Throws with the
+ * offending body's id otherwise.
+ */
+export function validatePlanetSystem(system: SystemDescription) {
+  const ids = new Set<string>();
+  for (const body of system.bodies) {
+    if (ids.has(body.id)) throw new Error(`Duplicate body id "${body.id}"`);
+    ids.add(body.id);
+    if (!(body.radius > 0)) {
+      throw new Error(`Body "${body.id}" needs a positive radius`);
+    }
+    const orbit = body.orbit;
+    if (
+      orbit &&
+      !(
+        orbit.semiMajorAxis > 0 &&
+        orbit.eccentricity >= 0 &&
+        orbit.eccentricity < 1 &&
+        orbit.period > 0
+      )
+    ) {
+      throw new Error(
+        `Body "${body.id}" needs a bound orbit: a > 0, 0 <= e < 1, period > 0`,
+      );
+    }
+  }
+
+  const parents = new Map(system.bodies.map((body) => [body.id, body.parent]));
+  for (const body of system.bodies) {
+    if (body.parent !== undefined && !ids.has(body.parent)) {
+      throw new Error(`Body "${body.id}" orbits unknown body "${body.parent}"`);
+    }
+    // Walking up from any body must reach the origin
+    const seen = new Set([body.id]);
+    for (let id = body.parent; id !== undefined; id = parents.get(id)) {
+      if (seen.has(id)) {
+        throw new Error(`Body "${body.id}" orbits itself through "${id}"`);
+      }
+      seen.add(id);
+    }
+  }
+}
+
+/**
+ * Solves Kepler's equation M = E - e sin E for the eccentric anomaly E
+ * (radians) by Newton's method, starting from M, or from π for eccentric
+ * orbits where M is a poor guess.
+ */
+export function solveKepler(meanAnomaly: number, eccentricity: number) {
+  const M = meanAnomaly - 2 * Math.PI * Math.floor(meanAnomaly / (2 * Math.PI));
+  let E = eccentricity < 0.8 ? M : Math.PI;
+  for (let i = 0; i < 30; i++) {
+    const delta =
+      (E - eccentricity * Math.sin(E) - M) / (1 - eccentricity * Math.cos(E));
+    E -= delta;
+    if (Math.abs(delta) < 1e-12) break;
+  }
+  return E;
+}
+
+/** Position on the orbit for an eccentric anomaly, relative to the parent. */
+function getPositionAtAnomaly(
+  orbit: OrbitElements,
+  E: number,
+  out: THREE.Vector3,
+) {
+  const a = orbit.semiMajorAxis;
+  const e = orbit.eccentricity;
+  // In the orbit's own plane, periapsis along x
+  const x = a * (Math.cos(E) - e);
+  const y = a * Math.sqrt(1 - e * e) * Math.sin(E);
+
+  const node = toRad(orbit.longitudeOfAscendingNode);
+  const i = toRad(orbit.inclination);
+  const w = toRad(orbit.argumentOfPeriapsis);
+  const cosNode = Math.cos(node);
+  const sinNode = Math.sin(node);
+  const cosI = Math.cos(i);
+  const sinI = Math.sin(i);
+  const cosW = Math.cos(w);
+  const sinW = Math.sin(w);
+
+  // Rotate by ω, then i, then Ω into the reference frame
+  const X =
+    x * (cosNode * cosW - sinNode * sinW * cosI) -
+    y * (cosNode * sinW + sinNode * cosW * cosI);
+  const Y =
+    x * (sinNode * cosW + cosNode * sinW * cosI) +
+    y * (cosNode * cosW * cosI - sinNode * sinW);
+  const Z = x * sinW * sinI + y * cosW * sinI;
+
+  // Reference plane onto xz, its pole onto +y
+  return out.set(X, Z, -Y);
+}
+
+/** Where the body is at `time` (scene seconds), relative to its parent. */
+export function getOrbitPosition(
+  orbit: OrbitElements,
+  time: number,
+  out = new THREE.Vector3(),
+) {
+  const meanAnomaly =
+    toRad(orbit.meanAnomalyAtEpoch) + (2 * Math.PI * time) / orbit.period;
+  return getPositionAtAnomaly(
+    orbit,
+    solveKepler(meanAnomaly, orbit.eccentricity),
+    out,
+  );
+}
+
+/**
+ * The orbit as a closed line of `segments` pieces, relative to the parent.
+ * Points are spaced evenly in eccentric anomaly, which is denser around the
+ * ends of the ellipse where it curves most.
+ */
+export function getOrbitPoints(orbit: OrbitElements, segments = 128) {
+  const points: THREE.Vector3[] = [];
+  for (let i = 0; i <= segments; i++) {
+    points.push(
+      getPositionAtAnomaly(
+        orbit,
+        (2 * Math.PI * i) / segments,
+        new THREE.Vector3(),
+      ),
+    );
+  }
+  return points;
+}
+
+/** Scene position of every body at `time`, by id. */
+export function getBodyPositions(system: SystemDescription, time: number) {
+  const bodies = new Map(system.bodies.map((body) => [body.id, body]));
+  const positions = new Map<string, THREE.Vector3>();
+
+  const place = (body: BodyDescription): THREE.Vector3 => {
+    const known = positions.get(body.id);
+    if (known) return known;
+    const position = body.orbit
+      ? getOrbitPosition(body.orbit, time)
+      : new THREE.Vector3();
+    const parent = body.parent ? bodies.get(body.parent) : undefined;
+    if (parent) position.add(place(parent));
+    positions.set(body.id, position);
+    return position;
+  };
+  system.bodies.forEach(place);
+  return positions;
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import { PLANET_CONTROLS } from './planetControls';
+import {
+  BUILT_IN_PRESETS,
+  PRESET_VERSION,
+  createPreset,
+  getPresetValues,
+  loadUserPresets,
+  parsePreset,
+  parsePresetJson,
+  saveUserPresets,
+  stringifyPreset,
+} from './presets';
+import type { PlanetPreset } from './presets';
+
+// The Storage methods the presets use, backed by a Map
+function createStorage() {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  } as Storage;
+}
+
+const preset: PlanetPreset = {
+  version: PRESET_VERSION,
+  name: 'Mars',
+  controls: {
+    planet: { radius: 5, terrain: 'procedural', color: '#c1440e' },
+    procedural: { seed: 42 },
+  },
+  capsule: { lat: 10, lon: -20 },
+  camera: [0, 10, 10],
+};
+
+describe('parsePreset', () => {
+  it('accepts valid presets', () => {
+    expect(parsePreset(preset)).toEqual(preset);
+    for (const builtIn of BUILT_IN_PRESETS) {
+      expect(parsePreset(builtIn)).toEqual(builtIn);
+    }
+  });
+
+  it('round-trips through JSON', () => {
+    expect(parsePresetJson(stringifyPreset(preset))).toEqual(preset);
+  });
+
+  it('clamps numbers and normalises the capsule location', () => {
+    const result = parsePreset({
+      ...preset,
+      controls: { planet: { radius: 50 } },
+      capsule: { lat: 100, lon: 190 },
+    });
+    expect(result.controls.planet?.radius).toBe(10);
+    expect(result.capsule).toEqual({ lat: 90, lon: -170 });
+  });
+
+  it('rounds integer settings to whole steps', () => {
+    const result = parsePreset({
+      ...preset,
+      controls: { planet: { minResolution: 3.5, steps: 2.4 } },
+    });
+    expect(result.controls.planet?.minResolution).toBe(4);
+    expect(result.controls.planet?.steps).toBe(2);
+  });
+
+  it('rejects names inherited from Object', () => {
+    const invalid = (json: unknown) => () => parsePreset(json);
+    expect(
+      invalid({ ...preset, controls: { planet: { constructor: 'oops' } } }),
+    ).toThrow('Unknown setting controls.planet.constructor');
+    expect(
+      invalid({ ...preset, controls: { toString: { radius: 5 } } }),
+    ).toThrow('controls.toString');
+  });
+
+  it('names the field that is invalid', () => {
+    const invalid = (json: unknown) => () => parsePreset(json);
+    expect(invalid(null)).toThrow('JSON object');
+    expect(invalid({ ...preset, version: 2 })).toThrow('version 2');
+    expect(invalid({ ...preset, name: ' ' })).toThrow('name');
+    expect(invalid({ ...preset, controls: { weather: {} } })).toThrow(
+      'controls.weather',
+    );
+    expect(invalid({ ...preset, controls: { planet: { size: 1 } } })).toThrow(
+      'controls.planet.size',
+    );
+    expect(
+      invalid({ ...preset, controls: { planet: { radius: '5' } } }),
+    ).toThrow('controls.planet.radius must be a number');
+    expect(
+      invalid({ ...preset, controls: { planet: { topology: 'torus' } } }),
+    ).toThrow('controls.planet.topology must be one of');
+    expect(invalid({ ...preset, capsule: { lat: 1 } })).toThrow('capsule');
+    expect(invalid({ ...preset, camera: [0, 0, 0] })).toThrow('camera');
+  });
+
+  it('rejects files that are not JSON', () => {
+    expect(() => parsePresetJson('{')).toThrow('not valid JSON');
+  });
+});
+
+describe('createPreset', () => {
+  it('stores only values that differ from the defaults', () => {
+    const planet = { ...getPresetValues(preset, 'planet'), steps: 2 };
+    const created = createPreset('Mine', {
+      planet,
+      procedural: getPresetValues(preset, 'procedural'),
+      detail: getPresetValues(preset, 'detail'),
+      quadtree: getPresetValues(preset, 'quadtree'),
+      character: getPresetValues(preset, 'character'),
+      biome: getPresetValues(preset, 'biome'),
+      sky: getPresetValues(preset, 'sky'),
+      system: getPresetValues(preset, 'system'),
+    });
+    expect(created.controls).toEqual({
+      planet: { ...preset.controls.planet, steps: 2 },
+      procedural: preset.controls.procedural,
+    });
+    expect(parsePreset(created)).toEqual(created);
+  });
+
+  it('fills in defaults when applied', () => {
+    const values = getPresetValues(preset, 'planet');
+    expect(values.radius).toBe(5);
+    expect(values.steps).toBe(PLANET_CONTROLS.steps.value);
+  });
+});
+
+describe('user presets', () => {
+  it('saves and loads presets', () => {
+    const storage = createStorage();
+    expect(loadUserPresets(storage)).toEqual([]);
+    saveUserPresets([preset], storage);
+    expect(loadUserPresets(storage)).toEqual([preset]);
+  });
+
+  it('skips entries that no longer validate', () => {
+    const storage = createStorage();
+    storage.setItem(
+      'planet-presets',
+      JSON.stringify([{ ...preset, version: 0 }, preset]),
+    );
+    expect(loadUserPresets(storage)).toEqual([preset]);
+    storage.setItem('planet-presets', 'not json');
+    expect(loadUserPresets(storage)).toEqual([]);
+  });
+});
@@ -0,0 +1,299 @@
+import * as THREE from 'three';
+import {
+  checkControlValue,
+  describeControl,
+  getControlDefault,
+} from './controlSchema';
+import type { ControlSchema, ControlValues } from './controlSchema';
+import { wrapLongitude } from './geodesy';
+import type { LatLon } from './geodesy';
+import { CONTROL_FOLDERS } from './planetControls';
+import type { ControlFolder } from './planetControls';
+
+/**
+ * ============================================================================
+ * PLANET PRESETS
+ * ============================================================================
+ * Named snapshots of the whole control panel plus the capsule and camera, as
+ * a versioned JSON format. Presets are validated against the panel's own
+ * schemas when they are read, so a hand-edited or outdated file fails with a
+ * message naming the offending field instead of breaking the scene. Controls
+ * a preset leaves out keep their defaults.
+ */
+
+export const PRESET_VERSION = 1;
+
+export type PresetControls = {
+  [F in ControlFolder]?: Partial<ControlValues<(typeof CONTROL_FOLDERS)[F]>>;
+};
+
+export interface PlanetPreset {
+  version: typeof PRESET_VERSION;
+  name: string;
+  /** Control values by panel folder. */
+  controls: PresetControls;
+  /** Where the capsule stands. */
+  capsule?: LatLon;
+  /** Orbit camera position. */
+  camera?: [number, number, number];
+}
+
+export const BUILT_IN_PRESETS: PlanetPreset[] = [
+  {
+    version: PRESET_VERSION,
+    name: 'Performance',
+    controls: {
+      planet: {
+        minResolution: 2,
+        maxResolution: 6,
+        steps: 2,
+        culling: true,
+        normalMap: false,
+        wireframe: false,
+      },
+      quadtree: { maxDepth: 4, patchResolution: 8 },
+    },
+  },
+  {
+    version: PRESET_VERSION,
+    name: 'Balanced',
+    controls: {
+      planet: {
+        minResolution: 4,
+        maxResolution: 12,
+        steps: 4,
+        stepGamma: 2,
+        culling: true,
+        wireframe: false,
+      },
+    },
+  },
+  {
+    version: PRESET_VERSION,
+    name: 'Quality',
+    controls: {
+      planet: {
+        minResolution: 8,
+        maxResolution: 48,
+        steps: 7,
+        stepGamma: 2,
+        lodMode: 'both',
+        maxScreenError: 4,
+        culling: true,
+        normalMap: true,
+        wireframe: false,
+      },
+      quadtree: { maxDepth: 8, patchResolution: 24 },
+    },
+  },
+  {
+    version: PRESET_VERSION,
+    name: 'Debug',
+    controls: {
+      planet: {
+        minResolution: 2,
+        maxResolution: 10,
+        steps: 3,
+        culling: false,
+        geomorph: false,
+        normalMap: false,
+        ocean: false,
+        wireframe: true,
+      },
+    },
+  },
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+function parseFolder(
+  schema: ControlSchema,
+  values: unknown,
+  path: string,
+): Record<string, unknown> {
+  if (!isRecord(values)) throw new Error(`${path} must be an object`);
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(values)) {
+    // Own keys only, so names like "constructor" aren't taken for controls
+    if (!Object.hasOwn(schema, key)) {
+      throw new Error(`Unknown setting ${path}.${key}`);
+    }
+    const spec = schema[key];
+    const checked = checkControlValue(spec, value);
+    if (checked === undefined) {
+      throw new Error(`${path}.${key} must be ${describeControl(spec)}`);
+    }
+    result[key] = checked;
+  }
+  return result;
+}
+
+/**
+ * Validates parsed JSON as a preset. Throws an Error describing the first
+ * problem found; numbers outside a control's range are clamped and snapped
+ * to its step instead.
+ */
+export function parsePreset(json: unknown): PlanetPreset {
+  if (!isRecord(json)) throw new Error('A preset must be a JSON object');
+  if (json.version !== PRESET_VERSION) {
+    throw new Error(
+      `Unsupported preset version ${JSON.stringify(json.version)}, expected ${PRESET_VERSION}`,
+    );
+  }
+  if (typeof json.name !== 'string' || !json.name.trim()) {
+    throw new Error('A preset needs a name');
+  }
+
+  const controls: Record<string, unknown> = {};
+  if (json.controls !== undefined) {
+    if (!isRecord(json.controls)) throw new Error('controls must be an object');
+    for (const [folder, values] of Object.entries(json.controls)) {
+      if (!Object.hasOwn(CONTROL_FOLDERS, folder)) {
+        throw new Error(`Unknown settings group controls.${folder}`);
+      }
+      const schema: ControlSchema = CONTROL_FOLDERS[folder as ControlFolder];
+      controls[folder] = parseFolder(schema, values, `controls.${folder}`);
+    }
+  }
+
+  const preset: PlanetPreset = {
+    version: PRESET_VERSION,
+    name: json.name.trim(),
+    controls,
+  };
+
+  if (json.capsule !== undefined) {
+    const { capsule } = json;
+    if (
+      !isRecord(capsule) ||
+      !isNumber(capsule.lat) ||
+      !isNumber(capsule.lon)
+    ) {
+      throw new Error('capsule must have numeric lat and lon');
+    }
+    preset.capsule = {
+      lat: THREE.MathUtils.clamp(capsule.lat, -90, 90),
+      lon: wrapLongitude(capsule.lon),
+    };
+  }
+
+  if (json.camera !== undefined) {
+    const { camera } = json;
+    if (
+      !Array.isArray(camera) ||
+      camera.length !== 3 ||
+      !camera.every(isNumber) ||
+      camera.every((c) => c === 0)
+    ) {
+      throw new Error('camera must be a non-zero [x, y, z] position');
+    }
+    preset.camera = camera as [number, number, number];
+  }
+
+  return preset;
+}
+
+/** Reads a preset file's text, see parsePreset. */
+export function parsePresetJson(text: string): PlanetPreset {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+  return parsePreset(json);
+}
+
+/** Pretty-printed JSON of a preset, as written to files. */
+export function stringifyPreset(preset: PlanetPreset) {
+  return `${JSON.stringify(preset, null, 2)}\n`;
+}
+
+/**
+ * A preset from the current panel values, storing only what differs from the
+ * defaults so it stays readable and keeps working as new controls appear.
+ */
+export function createPreset(
+  name: string,
+  values: { [F in ControlFolder]: Record<string, unknown> },
+  capsule?: LatLon,
+  camera?: [number, number, number],
+): PlanetPreset {
+  const controls: Record<string, Record<string, unknown>> = {};
+  for (const folder of Object.keys(CONTROL_FOLDERS) as ControlFolder[]) {
+    const schema: ControlSchema = CONTROL_FOLDERS[folder];
+    const changed: Record<string, unknown> = {};
+    for (const [key, spec] of Object.entries(schema)) {
+      const value = values[folder][key];
+      if (value !== undefined && value !== getControlDefault(spec)) {
+        changed[key] = value;
+      }
+    }
+    if (Object.keys(changed).length) controls[folder] = changed;
+  }
+  return {
+    version: PRESET_VERSION,
+    name,
+    controls,
+    ...(capsule && { capsule }),
+    ...(camera && { camera }),
+  };
+}
+
+/**
+ * Every control of a folder after applying a preset: its values, with the
+ * defaults filling in whatever it leaves out.
+ */
+export function getPresetValues<F extends ControlFolder>(
+  preset: PlanetPreset,
+  folder: F,
+) {
+  const schema: ControlSchema = CONTROL_FOLDERS[folder];
+  const values: Record<string, unknown> = {};
+  for (const [key, spec] of Object.entries(schema)) {
+    values[key] = getControlDefault(spec);
+  }
+  return { ...values, ...preset.controls[folder] } as ControlValues<
+    (typeof CONTROL_FOLDERS)[F]
+  >;
+}
+
+/**
+ * ============================================================================
+ * USER PRESETS
+ * ============================================================================
+ * Saved in localStorage under one key. Entries that no longer validate, e.g.
+ * after a control was removed, are skipped rather than failing the lot.
+ */
+const STORAGE_KEY = 'planet-presets';
+
+export function loadUserPresets(storage: Storage = localStorage) {
+  let stored: unknown;
+  try {
+    stored = JSON.parse(storage.getItem(STORAGE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(stored)) return [];
+
+  const presets: PlanetPreset[] = [];
+  for (const entry of stored) {
+    try {
+      presets.push(parsePreset(entry));
+    } catch {
+      // Outdated or corrupted entry
+    }
+  }
+  return presets;
+}
+
+export function saveUserPresets(
+  presets: PlanetPreset[],
+  storage: Storage = localStorage,
+) {
+  storage.setItem(STORAGE_KEY, JSON.stringify(presets));
+}
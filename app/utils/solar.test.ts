@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { getSubsolarPoint, getSunDirection, parseUtcDate } from './solar';
+
+describe('getSubsolarPoint', () => {
+  it('follows the seasons', () => {
+    const equinox = getSubsolarPoint(new Date('2026-03-20T14:46:00Z'));
+    expect(Math.abs(equinox.lat)).toBeLessThan(0.05);
+    const june = getSubsolarPoint(new Date('2026-06-21T08:24:00Z'));
+    expect(june.lat).toBeCloseTo(23.44, 1);
+    const december = getSubsolarPoint(new Date('2026-12-21T20:50:00Z'));
+    expect(december.lat).toBeCloseTo(-23.44, 1);
+  });
+
+  it('stands over Greenwich around noon UTC', () => {
+    // The equation of time is under 17 minutes, about 4° of longitude
+    for (const date of ['2026-02-11', '2026-05-14', '2026-11-03']) {
+      const { lon } = getSubsolarPoint(new Date(`${date}T12:00:00Z`));
+      expect(Math.abs(lon)).toBeLessThan(4.5);
+    }
+    const { lon } = getSubsolarPoint(new Date('2026-05-14T00:00:00Z'));
+    expect(180 - Math.abs(lon)).toBeLessThan(4.5);
+  });
+
+  it('moves west by 15° an hour', () => {
+    const a = getSubsolarPoint(new Date('2026-08-01T10:00:00Z'));
+    const b = getSubsolarPoint(new Date('2026-08-01T11:00:00Z'));
+    expect(a.lon - b.lon).toBeCloseTo(15, 1);
+  });
+});
+
+describe('getSunDirection', () => {
+  it('points at the northern sky in June', () => {
+    const dir = getSunDirection(new Date('2026-06-21T12:00:00Z'));
+    expect(dir.length()).toBeCloseTo(1);
+    expect(dir.y).toBeCloseTo(Math.sin((23.44 * Math.PI) / 180), 2);
+    // Longitude 0 lies along +z
+    expect(dir.z).toBeGreaterThan(0.9);
+  });
+});
+
+describe('parseUtcDate', () => {
+  it('adds the time of day to the date', () => {
+    expect(parseUtcDate('2026-03-20', 13.5)?.toISOString()).toBe(
+      '2026-03-20T13:30:00.000Z',
+    );
+    expect(parseUtcDate(' 2026-12-31 ', 24)?.toISOString()).toBe(
+      '2027-01-01T00:00:00.000Z',
+    );
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseUtcDate('2026-02-30', 0)).toBeNull();
+    expect(parseUtcDate('20 March', 0)).toBeNull();
+    expect(parseUtcDate('2026-03-20', NaN)).toBeNull();
+  });
+});
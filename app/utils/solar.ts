@@ -0,0 +1,72 @@
+import * as THREE from 'three';
+import { latLonToDirection, wrapLongitude } from './geodesy';
+import type { LatLon } from './geodesy';
+
+/**
+ * ============================================================================
+ * SOLAR POSITION
+ * ============================================================================
+ * Where the Sun stands over the Earth at a given moment, from the low
+ * precision formulas of the Astronomical Almanac (good to about 0.01° for
+ * this century). The result is the subsolar point: the location that has
+ * the Sun at its zenith, so the sun direction follows with latLonToDirection.
+ */
+
+const toRad = THREE.MathUtils.degToRad;
+const toDeg = THREE.MathUtils.radToDeg;
+
+const MS_PER_DAY = 86_400_000;
+// Julian dates of the Unix epoch and of the J2000.0 epoch
+const JD_UNIX_EPOCH = 2_440_587.5;
+const JD_J2000 = 2_451_545;
+
+/** The location with the Sun directly overhead at `date`. */
+export function getSubsolarPoint(date: Date): LatLon {
+  const n = date.getTime() / MS_PER_DAY + JD_UNIX_EPOCH - JD_J2000;
+
+  // Ecliptic longitude of the Sun from its mean longitude and anomaly
+  const meanLongitude = 280.46 + 0.9856474 * n;
+  const meanAnomaly = toRad(357.528 + 0.9856003 * n);
+  const lambda = toRad(
+    meanLongitude +
+      1.915 * Math.sin(meanAnomaly) +
+      0.02 * Math.sin(2 * meanAnomaly),
+  );
+  const obliquity = toRad(23.439 - 0.0000004 * n);
+
+  const rightAscension = Math.atan2(
+    Math.cos(obliquity) * Math.sin(lambda),
+    Math.cos(lambda),
+  );
+  const declination = Math.asin(Math.sin(obliquity) * Math.sin(lambda));
+  // Greenwich mean sidereal time, in degrees
+  const siderealTime = 280.46061837 + 360.98564736629 * n;
+
+  return {
+    lat: toDeg(declination),
+    lon: wrapLongitude(toDeg(rightAscension) - siderealTime),
+  };
+}
+
+/** Unit direction from the Earth's centre toward the Sun at `date`. */
+export function getSunDirection(date: Date, out = new THREE.Vector3()) {
+  return latLonToDirection(getSubsolarPoint(date), out);
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * A UTC moment from a `YYYY-MM-DD` date and a time of day in hours, or null
+ * if the date doesn't exist.
+ */
+export function parseUtcDate(date: string, hours: number): Date | null {
+  const match = DATE_PATTERN.exec(date.trim());
+  if (!match || !Number.isFinite(hours)) return null;
+  const [year, month, day] = match.slice(1).map(Number);
+  const midnight = new Date(Date.UTC(year, month - 1, day));
+  // Date.UTC rolls over out-of-range days instead of failing
+  if (midnight.getUTCMonth() !== month - 1 || midnight.getUTCDate() !== day) {
+    return null;
+  }
+  return new Date(midnight.getTime() + hours * 3_600_000);
+}
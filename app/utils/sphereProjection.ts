@@ -1,5 +1,9 @@
 import * as THREE from 'three';
 
+export type CubeFace = 'px' | 'nx' | 'py' | 'ny' | 'pz' | 'nz';
+
+export const CUBE_FACES: CubeFace[] = ['px', 'nx', 'py', 'ny', 'pz', 'nz'];
+
 // Helper to project a point on a cube face to a sphere surface
 // face: 'px', 'nx', 'py', 'ny', 'pz', 'nz'
 // u, v: coordinates on the face, range [-radius, radius]
@@ -8,7 +12,7 @@ export const projectToSphere = (
   u: number,
   v: number,
   radius: number,
-  face: 'px' | 'nx' | 'py' | 'ny' | 'pz' | 'nz',
+  face: CubeFace,
 ): THREE.Vector3 => {
   const vec = new THREE.Vector3();
 
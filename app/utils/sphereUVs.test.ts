@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { copySeamVertices, getCylindricalUVs } from './sphereUVs';
+
+describe('getCylindricalUVs', () => {
+  it('leaves triangles away from the seams alone', () => {
+    const positions = new Float32Array([0, 0, 1, 1, 0, 0, 0, 0.5, 1]);
+    const { uvs, indices, sources } = getCylindricalUVs(
+      positions,
+      new Uint32Array([0, 1, 2]),
+    );
+    expect(sources).toHaveLength(0);
+    expect(Array.from(indices)).toEqual([0, 1, 2]);
+    expect(uvs[0]).toBeCloseTo(0.5);
+    expect(uvs[1]).toBeCloseTo(0.5);
+    expect(uvs[2]).toBeCloseTo(0.75);
+  });
+
+  it('wraps the western corners of triangles across the antimeridian', () => {
+    const positions = new Float32Array([0.1, 0, -1, -0.1, 0, -1, 0, 0.1, -1]);
+    const { uvs, indices, sources } = getCylindricalUVs(
+      positions,
+      new Uint32Array([0, 1, 2, 1, 0, 2]),
+    );
+    // One copy of the western vertex, shared by both triangles
+    expect(Array.from(sources)).toEqual([1]);
+    expect(Array.from(indices)).toEqual([0, 3, 2, 3, 0, 2]);
+    expect(uvs[6]).toBeCloseTo(uvs[2] + 1);
+    expect(uvs[7]).toBeCloseTo(uvs[3]);
+    for (let t = 0; t < indices.length; t += 3) {
+      const us = [0, 1, 2].map((c) => uvs[indices[t + c] * 2]);
+      expect(Math.max(...us) - Math.min(...us)).toBeLessThan(0.5);
+    }
+  });
+
+  it('gives a pole vertex the u of each triangle around it', () => {
+    const positions = new Float32Array([0, 1, 0, 0, 0, 1, 1, 0, 0, 0, 0, -1]);
+    const { uvs, indices, sources } = getCylindricalUVs(
+      positions,
+      new Uint32Array([0, 1, 2, 0, 2, 3]),
+    );
+    expect(Array.from(sources)).toEqual([0, 0]);
+    expect(Array.from(indices)).toEqual([4, 1, 2, 5, 2, 3]);
+    expect(uvs[8]).toBeCloseTo(0.625);
+    expect(uvs[9]).toBeCloseTo(0);
+    expect(uvs[10]).toBeCloseTo(0.875);
+  });
+});
+
+describe('copySeamVertices', () => {
+  it('appends the values of every copied vertex', () => {
+    const levels = new Float32Array([1, 2, 3]);
+    expect(
+      Array.from(copySeamVertices(levels, 1, new Uint32Array([2, 0]))),
+    ).toEqual([1, 2, 3, 3, 1]);
+    const normals = new Float32Array([0, 1, 0, 1, 0, 0]);
+    expect(
+      Array.from(copySeamVertices(normals, 3, new Uint32Array([1]))),
+    ).toEqual([0, 1, 0, 1, 0, 0, 1, 0, 0]);
+  });
+});
@@ -0,0 +1,108 @@
+import * as THREE from 'three';
+import { getCylindricalUV } from './heightmap';
+
+/**
+ * ============================================================================
+ * CYLINDRICAL UVS
+ * ============================================================================
+ * UVs come from getCylindricalUV of each vertex direction. Two places need
+ * vertices split to keep a texture from smearing: triangles that straddle
+ * the antimeridian get copies of their western vertices with u + 1, and a
+ * vertex on a pole, where u is undefined, gets a copy per triangle with the
+ * u of the triangle's other corners. Copies are appended after the original
+ * vertices, so every other attribute is extended with copySeamVertices.
+ */
+
+export interface CylindricalUVs {
+  /** u, v of every vertex, copies included. */
+  uvs: Float32Array;
+  /** The triangles, pointing at the copies where a vertex was split. */
+  indices: Uint32Array;
+  /** The original vertex of every copy, in the order they were appended. */
+  sources: Uint32Array;
+}
+
+const POLE_EPSILON = 1e-9;
+
+export function getCylindricalUVs(
+  positions: Float32Array,
+  triangles: Uint32Array,
+): CylindricalUVs {
+  const vertexCount = positions.length / 3;
+  const dir = new THREE.Vector3();
+  const us: number[] = [];
+  const vs: number[] = [];
+  const polar: boolean[] = [];
+  for (let i = 0; i < vertexCount; i++) {
+    dir.fromArray(positions, i * 3).normalize();
+    const { u, v } = getCylindricalUV(dir);
+    us.push(u);
+    vs.push(v);
+    polar.push(dir.x * dir.x + dir.z * dir.z < POLE_EPSILON);
+  }
+
+  // New vertices copy an existing one and override its u
+  const sources: number[] = [];
+  const wrapped = new Map<number, number>();
+  const addCopy = (source: number, u: number) => {
+    sources.push(source);
+    us.push(u);
+    vs.push(vs[source]);
+    return vertexCount + sources.length - 1;
+  };
+
+  const indices = new Uint32Array(triangles);
+  for (let t = 0; t < indices.length; t += 3) {
+    const corners = [indices[t], indices[t + 1], indices[t + 2]];
+    const open = corners.filter((i) => !polar[i]);
+    if (open.length === 0) continue;
+    const openUs = open.map((i) => us[i]);
+    const crossesSeam = Math.max(...openUs) - Math.min(...openUs) > 0.5;
+
+    let uSum = 0;
+    for (let c = 0; c < 3; c++) {
+      const index = corners[c];
+      if (polar[index]) continue;
+      if (crossesSeam && us[index] < 0.5) {
+        let copy = wrapped.get(index);
+        if (copy === undefined) {
+          copy = addCopy(index, us[index] + 1);
+          wrapped.set(index, copy);
+        }
+        indices[t + c] = copy;
+      }
+      uSum += us[indices[t + c]];
+    }
+
+    for (let c = 0; c < 3; c++) {
+      if (polar[corners[c]]) {
+        indices[t + c] = addCopy(corners[c], uSum / open.length);
+      }
+    }
+  }
+
+  const uvs = new Float32Array(us.length * 2);
+  for (let i = 0; i < us.length; i++) {
+    uvs[i * 2] = us[i];
+    uvs[i * 2 + 1] = vs[i];
+  }
+  return { uvs, indices, sources: Uint32Array.from(sources) };
+}
+
+/** A vertex attribute extended with the values of the seam copies. */
+export function copySeamVertices(
+  array: Float32Array,
+  itemSize: number,
+  sources: Uint32Array,
+): Float32Array {
+  const vertexCount = array.length / itemSize;
+  const result = new Float32Array((vertexCount + sources.length) * itemSize);
+  result.set(array);
+  sources.forEach((source, i) => {
+    result.set(
+      array.subarray(source * itemSize, (source + 1) * itemSize),
+      (vertexCount + i) * itemSize,
+    );
+  });
+  return result;
+}
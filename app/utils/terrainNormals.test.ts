@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import {
+  bakeNormalMap,
+  getElevationGradient,
+  getTerrainNormal,
+} from './terrainNormals';
+import { DEFAULT_ELEVATION_SETTINGS } from './elevation';
+
+// 1km of relief on a 1000km planet drawn at radius 1
+const settings = {
+  ...DEFAULT_ELEVATION_SETTINGS,
+  exaggeration: 1,
+  planetRadiusMeters: 1_000_000,
+};
+
+describe('getElevationGradient', () => {
+  it('measures the slope along the sphere in metres per radian', () => {
+    const dir = new THREE.Vector3(1, 0, 0);
+    const gradient = getElevationGradient((d) => 1000 * d.y, dir, 0.001);
+    expect(gradient.x).toBeCloseTo(0, 6);
+    expect(gradient.y).toBeCloseTo(1000, 3);
+    expect(gradient.z).toBeCloseTo(0, 6);
+  });
+
+  it('vanishes on flat terrain', () => {
+    const dir = new THREE.Vector3(0, 1, 0);
+    expect(getElevationGradient(() => 500, dir, 0.01).length()).toBe(0);
+  });
+});
+
+describe('getTerrainNormal', () => {
+  it('points straight out on flat terrain', () => {
+    const dir = new THREE.Vector3(0, 0, 1);
+    const normal = getTerrainNormal(dir, 0, new THREE.Vector3(), settings, 1);
+    expect(normal.toArray()).toEqual([0, 0, 1]);
+  });
+
+  it('tilts away from rising ground', () => {
+    const dir = new THREE.Vector3(1, 0, 0);
+    // Rising by 100km per radian northwards: a slope of about 0.1
+    const gradient = new THREE.Vector3(0, 100_000, 0);
+    const normal = getTerrainNormal(dir, 0, gradient, settings, 1);
+    expect(normal.y).toBeCloseTo(-0.1 / Math.hypot(1, 0.1), 6);
+    expect(normal.length()).toBeCloseTo(1, 6);
+  });
+});
+
+describe('bakeNormalMap', () => {
+  it('encodes radial normals for flat terrain', () => {
+    const flat = { heightAt: () => 0, bounds: { min: 0, max: 0 } };
+    const data = bakeNormalMap(flat, settings, 1, {
+      width: 8,
+      height: 4,
+      epsilon: 0.01,
+    });
+    expect(data.length).toBe(8 * 4 * 4);
+    // Texel (4, 0): just east of the prime meridian, near the north pole
+    const n = [...data.slice(16, 19)].map((c) => (c / 255) * 2 - 1);
+    expect(n[1]).toBeGreaterThan(0.9);
+  });
+});
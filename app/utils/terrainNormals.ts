@@ -0,0 +1,141 @@
+import * as THREE from 'three';
+import { elevationToDisplacement } from './elevation';
+import type { ElevationSettings } from './elevation';
+import { getCylindricalDirection } from './heightmap';
+import type { HeightSource } from './heightSource';
+
+/**
+ * ============================================================================
+ * TERRAIN NORMALS
+ * ============================================================================
+ * Shading normals taken from the height field instead of the mesh triangles.
+ * The elevation gradient is measured by central differences over a fixed
+ * world-space distance, so lighting doesn't depend on how finely the mesh
+ * around a vertex happens to be subdivided: it stays put when LOD changes
+ * and patch borders of different resolution shade alike.
+ */
+
+/** Default finite-difference step, in scene units along the surface. */
+export const DEFAULT_NORMAL_EPSILON = 0.01;
+
+/** Elevation in metres at a unit direction. */
+export type HeightField = (dir: THREE.Vector3) => number;
+
+const X_AXIS = new THREE.Vector3(1, 0, 0);
+const Y_AXIS = new THREE.Vector3(0, 1, 0);
+const tangentU = new THREE.Vector3();
+const tangentV = new THREE.Vector3();
+const probe = new THREE.Vector3();
+
+/**
+ * Gradient of the elevation along the sphere at `dir`, in metres per radian,
+ * as a vector in the tangent plane. `angle` is the finite-difference step in
+ * radians.
+ */
+export function getElevationGradient(
+  height: HeightField,
+  dir: THREE.Vector3,
+  angle: number,
+  out = new THREE.Vector3(),
+) {
+  // Any orthonormal tangent basis will do, the gradient doesn't depend on it
+  const up = Math.abs(dir.y) < 0.9 ? Y_AXIS : X_AXIS;
+  tangentU.crossVectors(up, dir).normalize();
+  tangentV.crossVectors(dir, tangentU);
+
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const slope = (tangent: THREE.Vector3) => {
+    const ahead = height(
+      probe.copy(dir).multiplyScalar(cos).addScaledVector(tangent, sin),
+    );
+    const behind = height(
+      probe.copy(dir).multiplyScalar(cos).addScaledVector(tangent, -sin),
+    );
+    return (ahead - behind) / (2 * angle);
+  };
+
+  const gu = slope(tangentU);
+  const gv = slope(tangentV);
+  return out.copy(tangentU).multiplyScalar(gu).addScaledVector(tangentV, gv);
+}
+
+/**
+ * Outward unit normal of the displaced surface at `dir`, from the elevation
+ * there and its gradient. For a surface p = r(dir) * dir the normal is
+ * parallel to dir - grad(r) / r.
+ */
+export function getTerrainNormal(
+  dir: THREE.Vector3,
+  elevation: number,
+  gradient: THREE.Vector3,
+  settings: ElevationSettings,
+  radius: number,
+  out = new THREE.Vector3(),
+) {
+  const r = radius + elevationToDisplacement(elevation, settings, radius);
+  // Displacement per metre of elevation
+  const scale = (settings.exaggeration * radius) / settings.planetRadiusMeters;
+  return out
+    .copy(gradient)
+    .multiplyScalar(r > 0 ? -scale / r : 0)
+    .add(dir)
+    .normalize();
+}
+
+export interface NormalMapOptions {
+  /** Texture size; an equirectangular map is usually twice as wide as tall. */
+  width: number;
+  height: number;
+  /** Finite-difference step, in scene units along the surface. */
+  epsilon: number;
+}
+
+/**
+ * Bakes object-space terrain normals into an equirectangular RGBA texture
+ * (the same layout as the heightmap, see getCylindricalUV), so the fragment
+ * shader can shade at full detail whatever the mesh resolution. Yields after
+ * every row so a worker can time-slice or abandon the bake.
+ */
+export function* generateNormalMap(
+  source: HeightSource,
+  settings: ElevationSettings,
+  radius: number,
+  { width, height, epsilon }: NormalMapOptions,
+): Generator<void, Uint8Array<ArrayBuffer>, void> {
+  const data = new Uint8Array(width * height * 4);
+  const angle = epsilon / radius;
+  const heightAt: HeightField = (dir) => source.heightAt(dir);
+  const dir = new THREE.Vector3();
+  const gradient = new THREE.Vector3();
+  const normal = new THREE.Vector3();
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      getCylindricalDirection((x + 0.5) / width, (y + 0.5) / height, dir);
+      getElevationGradient(heightAt, dir, angle, gradient);
+      getTerrainNormal(dir, heightAt(dir), gradient, settings, radius, normal);
+
+      const i = (y * width + x) * 4;
+      data[i] = Math.round((normal.x * 0.5 + 0.5) * 255);
+      data[i + 1] = Math.round((normal.y * 0.5 + 0.5) * 255);
+      data[i + 2] = Math.round((normal.z * 0.5 + 0.5) * 255);
+      data[i + 3] = 255;
+    }
+    yield;
+  }
+  return data;
+}
+
+/** Synchronously runs `generateNormalMap` to completion. */
+export function bakeNormalMap(
+  source: HeightSource,
+  settings: ElevationSettings,
+  radius: number,
+  options: NormalMapOptions,
+): Uint8Array<ArrayBuffer> {
+  const job = generateNormalMap(source, settings, radius, options);
+  let step = job.next();
+  while (!step.done) step = job.next();
+  return step.value;
+}
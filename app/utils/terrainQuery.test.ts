@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import {
+  createFieldTerrainQuery,
+  createMeshTerrainQuery,
+} from './terrainQuery';
+import { createPlanetSurface } from './planetSurface';
+import type { SurfaceParams } from './planetSurface';
+import { buildPlanetMesh } from './planetMesher';
+import type { PlanetMeshParams } from './planetMesher';
+import { DEFAULT_ELEVATION_SETTINGS } from './elevation';
+import { DEFAULT_PROCEDURAL_TERRAIN } from './heightSource';
+import { DEFAULT_NORMAL_EPSILON } from './terrainNormals';
+
+const params: SurfaceParams = {
+  radius: 10,
+  elevation: { ...DEFAULT_ELEVATION_SETTINGS, exaggeration: 50 },
+  terrain: { type: 'procedural', settings: DEFAULT_PROCEDURAL_TERRAIN },
+  normalEpsilon: DEFAULT_NORMAL_EPSILON,
+};
+const meshParams: PlanetMeshParams = {
+  ...params,
+  minDetail: 6,
+  maxDetail: 6,
+  steps: 1,
+  stepGamma: 1,
+  center: [0, 0, 0],
+  target: null,
+  lodMode: 'distance',
+  camera: null,
+  maxScreenError: 8,
+  culling: false,
+};
+
+const surface = createPlanetSurface(params, null);
+const mesh = buildPlanetMesh(meshParams, null);
+
+// The nearest hit over every triangle, without acceleration
+function bruteForceHit(ray: THREE.Ray) {
+  const { positions, indices } = mesh;
+  const [a, b, c] = [1, 2, 3].map(() => new THREE.Vector3());
+  const hit = new THREE.Vector3();
+  let best = Infinity;
+  for (let i = 0; i < indices.length; i += 3) {
+    a.fromArray(positions, indices[i] * 3);
+    b.fromArray(positions, indices[i + 1] * 3);
+    c.fromArray(positions, indices[i + 2] * 3);
+    if (ray.intersectTriangle(a, b, c, false, hit)) {
+      best = Math.min(best, hit.distanceTo(ray.origin));
+    }
+  }
+  return best;
+}
+
+// Rays from all around that mostly graze or hit the planet
+const rays = Array.from({ length: 40 }, (_, i) => {
+  const origin = new THREE.Vector3(
+    Math.sin(i * 1.7) * 25,
+    Math.cos(i * 2.3) * 25,
+    Math.sin(i * 0.9 + 1) * 25,
+  );
+  const aim = new THREE.Vector3(
+    Math.sin(i * 3.1),
+    Math.cos(i * 1.3),
+    Math.sin(i * 2.7),
+  ).multiplyScalar(9);
+  return new THREE.Ray(origin, aim.sub(origin).normalize());
+});
+
+describe('createFieldTerrainQuery', () => {
+  const query = createFieldTerrainQuery(surface, params.radius);
+
+  it('answers heights and normals from the field', () => {
+    const dir = new THREE.Vector3(1, 2, 3).normalize();
+    expect(query.heightAt(dir)).toBe(surface.radiusAt(dir) - params.radius);
+    expect(query.normalAt(dir)).toEqual(surface.normalAt(dir));
+  });
+
+  it('hits the ground straight below a point above it', () => {
+    const dir = new THREE.Vector3(-2, 1, 0.5).normalize();
+    const hit = query.intersect(
+      new THREE.Ray(dir.clone().multiplyScalar(20), dir.clone().negate()),
+    )!;
+    expect(hit.point.length()).toBeCloseTo(surface.radiusAt(dir), 4);
+    expect(hit.distance).toBeCloseTo(20 - surface.radiusAt(dir), 4);
+    expect(hit.normal.dot(surface.normalAt(dir))).toBeCloseTo(1, 6);
+  });
+
+  it('agrees with marching the whole ray', () => {
+    for (const ray of rays) {
+      const hit = query.raycast(ray);
+      const reference = surface.raycast(ray);
+      expect(hit === null).toBe(reference === null);
+      if (hit && reference)
+        expect(hit.distanceTo(reference)).toBeLessThan(1e-3);
+    }
+  });
+
+  it('misses rays that pass or point away from the planet', () => {
+    const past = new THREE.Ray(
+      new THREE.Vector3(-20, 15, 0),
+      new THREE.Vector3(1, 0, 0),
+    );
+    const away = new THREE.Ray(
+      new THREE.Vector3(0, 20, 0),
+      new THREE.Vector3(0, 1, 0),
+    );
+    expect(query.intersect(past)).toBeNull();
+    expect(query.intersect(away)).toBeNull();
+  });
+});
+
+describe('createMeshTerrainQuery', () => {
+  const query = createMeshTerrainQuery(mesh, params, surface);
+
+  it('finds the nearest triangle of any ray', () => {
+    for (const ray of rays) {
+      const hit = query.intersect(ray);
+      const best = bruteForceHit(ray);
+      if (best === Infinity) expect(hit).toBeNull();
+      else expect(hit!.distance).toBeCloseTo(best, 4);
+    }
+  });
+
+  it('stands on the vertices and takes their normals', () => {
+    const point = new THREE.Vector3();
+    const normal = new THREE.Vector3();
+    for (let i = 0; i < mesh.positions.length; i += 3 * 101) {
+      point.fromArray(mesh.positions, i);
+      const dir = point.clone().normalize();
+      expect(query.radiusAt(dir)).toBeCloseTo(point.length(), 4);
+      expect(query.heightAt(dir)).toBeCloseTo(point.length() - 10, 4);
+      normal.fromArray(mesh.normals, i);
+      expect(query.normalAt(dir).dot(normal)).toBeGreaterThan(0.9999);
+    }
+  });
+
+  it('converts mesh heights back to elevations', () => {
+    const dir = new THREE.Vector3().fromArray(mesh.positions, 300).normalize();
+    expect(query.elevationAt(dir)).toBeCloseTo(surface.elevationAt(dir), 0);
+  });
+
+  it('lies between the vertices where the field does not', () => {
+    const dir = new THREE.Vector3(0.3, -0.8, 0.5).normalize();
+    const gap = Math.abs(query.radiusAt(dir) - surface.radiusAt(dir));
+    expect(gap).toBeGreaterThan(0);
+    expect(gap).toBeLessThan(0.1);
+  });
+
+  it('falls back to the field where the mesh has holes', () => {
+    const empty = createMeshTerrainQuery(
+      {
+        positions: new Float32Array(),
+        normals: new Float32Array(),
+        indices: new Uint32Array(),
+      },
+      params,
+      surface,
+    );
+    const dir = new THREE.Vector3(0, 1, 0);
+    expect(empty.radiusAt(dir)).toBe(surface.radiusAt(dir));
+    expect(empty.normalAt(dir)).toEqual(surface.normalAt(dir));
+    expect(empty.raycast(rays[0])).toBeNull();
+  });
+});
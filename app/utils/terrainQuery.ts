@@ -0,0 +1,408 @@
+import * as THREE from 'three';
+import { ICOSAHEDRON_EDGE_ANGLE, getBasePatches } from './planetMesher';
+import type { PlanetSurface, SurfaceParams } from './planetSurface';
+
+/**
+ * ============================================================================
+ * TERRAIN QUERIES
+ * ============================================================================
+ * Height, normal and ray queries against a planet, for anything outside
+ * `Planet` that needs the ground: dragging, walking, picking. A query either
+ * follows the full-resolution height field or the LOD mesh currently on
+ * screen, which differ by however coarse the mesh is away from the LOD
+ * target. Both implement PlanetSurface, so either can stand in for it.
+ *
+ * Rays are accelerated by a bounding volume hierarchy over patches of the
+ * surface, so only the parts of a ray that pass near the ground are tested.
+ * Field patches are the mesher's base patches, with radial bounds sampled
+ * from the field; mesh patches are runs of consecutive triangles, which the
+ * meshers emit patch by patch. Everything is in the planet's local space and
+ * free of WebGL.
+ */
+
+/** Follow the height field at full detail, or the mesh as drawn. */
+export type TerrainQueryMode = 'field' | 'mesh';
+
+export const TERRAIN_QUERY_MODES: TerrainQueryMode[] = ['field', 'mesh'];
+
+/** Where a ray meets the ground. */
+export interface TerrainHit {
+  point: THREE.Vector3;
+  /** Outward unit normal of the ground at the point. */
+  normal: THREE.Vector3;
+  /** Distance along the ray, in units of its direction. */
+  distance: number;
+}
+
+export interface TerrainQuery extends PlanetSurface {
+  mode: TerrainQueryMode;
+  /** Height (scene units) of the ground above sea level along a direction. */
+  heightAt(dir: THREE.Vector3): number;
+  /** First hit of a local-space ray on the ground, if any. */
+  intersect(ray: THREE.Ray): TerrainHit | null;
+}
+
+/** The mesh arrays a mesh query needs, e.g. PlanetMeshData or ExportMesh. */
+export interface TerrainQueryMesh {
+  positions: Float32Array;
+  normals: Float32Array;
+  indices: Uint32Array;
+}
+
+/**
+ * ============================================================================
+ * PATCH BVH
+ * ============================================================================
+ * A binary tree of boxes over the patches, split at the median along the
+ * longest axis of their centres. Leaves hold one patch each.
+ */
+
+interface BVHNode {
+  box: THREE.Box3;
+  /** Index of the patch at a leaf, -1 inside the tree. */
+  patch: number;
+  left: BVHNode | null;
+  right: BVHNode | null;
+}
+
+/** A patch a ray passes through, between its entry and exit distances. */
+interface PatchSpan {
+  patch: number;
+  near: number;
+  far: number;
+}
+
+function buildBVH(boxes: THREE.Box3[]): BVHNode {
+  const centres = boxes.map((box) => box.getCenter(new THREE.Vector3()));
+  const build = (patches: number[]): BVHNode => {
+    const box = new THREE.Box3();
+    for (const p of patches) box.union(boxes[p]);
+    if (patches.length === 1) {
+      return { box, patch: patches[0], left: null, right: null };
+    }
+
+    const spread = new THREE.Box3();
+    for (const p of patches) spread.expandByPoint(centres[p]);
+    const size = spread.getSize(new THREE.Vector3());
+    const axis =
+      size.x >= size.y && size.x >= size.z ? 'x' : size.y >= size.z ? 'y' : 'z';
+    const sorted = [...patches].sort(
+      (a, b) => centres[a][axis] - centres[b][axis],
+    );
+    const half = sorted.length >> 1;
+    return {
+      box,
+      patch: -1,
+      left: build(sorted.slice(0, half)),
+      right: build(sorted.slice(half)),
+    };
+  };
+  return build(boxes.map((_, i) => i));
+}
+
+// Entry and exit distances of a ray through a box, clipped to t >= 0
+function intersectBox(
+  ray: THREE.Ray,
+  box: THREE.Box3,
+): [number, number] | null {
+  let near = 0;
+  let far = Infinity;
+  for (const axis of ['x', 'y', 'z'] as const) {
+    const origin = ray.origin[axis];
+    const direction = ray.direction[axis];
+    if (direction === 0) {
+      if (origin < box.min[axis] || origin > box.max[axis]) return null;
+      continue;
+    }
+    let t0 = (box.min[axis] - origin) / direction;
+    let t1 = (box.max[axis] - origin) / direction;
+    if (t0 > t1) [t0, t1] = [t1, t0];
+    near = Math.max(near, t0);
+    far = Math.min(far, t1);
+    if (near > far) return null;
+  }
+  return [near, far];
+}
+
+/** Every patch whose box the ray passes through, nearest entry first. */
+function getPatchSpans(root: BVHNode, ray: THREE.Ray): PatchSpan[] {
+  const spans: PatchSpan[] = [];
+  const stack = [root];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    const hit = intersectBox(ray, node.box);
+    if (!hit) continue;
+    if (node.patch >= 0) {
+      spans.push({ patch: node.patch, near: hit[0], far: hit[1] });
+    } else {
+      stack.push(node.left!, node.right!);
+    }
+  }
+  return spans.sort((a, b) => a.near - b.near);
+}
+
+/**
+ * ============================================================================
+ * FIELD QUERIES
+ * ============================================================================
+ * Rays march the height field through the stretches where they are inside
+ * some patch's box, and skip the rest. Patch boxes bound the field from
+ * samples on a lattice across the patch, padded by half the sampled relief
+ * for what lies between samples, so only spikes narrower than the lattice
+ * spacing can slip through.
+ */
+
+// 20 * 4² patches, each sampled on a lattice of 8 steps per edge
+const FIELD_PATCH_SUBDIVISION = 4;
+const FIELD_PATCH_SAMPLES = 8;
+// March steps per patch edge length, then bisections once the ground is crossed
+const MARCH_STEPS_PER_PATCH = 32;
+const BISECTION_STEPS = 24;
+
+export function createFieldTerrainQuery(
+  surface: PlanetSurface,
+  radius: number,
+): TerrainQuery {
+  const dir = new THREE.Vector3();
+  const point = new THREE.Vector3();
+
+  // Height of a point on the ray above the ground below it
+  const clearance = (ray: THREE.Ray, t: number) => {
+    ray.at(t, point);
+    const r = point.length();
+    if (r === 0) return -radius;
+    return r - surface.radiusAt(dir.copy(point).divideScalar(r));
+  };
+
+  // Built on the first ray, since it samples the whole field
+  let bvh: { root: BVHNode; step: number } | null = null;
+  const getBVH = () => {
+    if (bvh) return bvh;
+    const patches = getBasePatches(FIELD_PATCH_SUBDIVISION);
+    const n = FIELD_PATCH_SAMPLES;
+    const spacing = ICOSAHEDRON_EDGE_ANGLE / FIELD_PATCH_SUBDIVISION / n;
+    let outer = radius;
+    const boxes = patches.map(({ corners: [a, b, c] }) => {
+      const samples: THREE.Vector3[] = [];
+      let min = Infinity;
+      let max = -Infinity;
+      for (let i = 0; i <= n; i++) {
+        for (let j = 0; j <= n - i; j++) {
+          const sample = new THREE.Vector3()
+            .addScaledVector(a, (n - i - j) / n)
+            .addScaledVector(b, i / n)
+            .addScaledVector(c, j / n)
+            .normalize();
+          const r = surface.radiusAt(sample);
+          min = Math.min(min, r);
+          max = Math.max(max, r);
+          samples.push(sample);
+        }
+      }
+      const pad = (max - min) / 2;
+      const low = Math.max(min - pad, 0);
+      const high = max + pad;
+      outer = Math.max(outer, high);
+      const box = new THREE.Box3();
+      for (const sample of samples) {
+        box.expandByPoint(point.copy(sample).multiplyScalar(low));
+        box.expandByPoint(point.copy(sample).multiplyScalar(high));
+      }
+      // The sphere bulges past the chords between samples
+      return box.expandByScalar(high * (1 - Math.cos(spacing)));
+    });
+    const step =
+      (outer * ICOSAHEDRON_EDGE_ANGLE) /
+      FIELD_PATCH_SUBDIVISION /
+      MARCH_STEPS_PER_PATCH;
+    bvh = { root: buildBVH(boxes), step };
+    return bvh;
+  };
+
+  const hitAt = (ray: THREE.Ray, t: number): TerrainHit => {
+    const hit = ray.at(t, new THREE.Vector3());
+    return {
+      point: hit,
+      normal: surface.normalAt(hit.clone().normalize()),
+      distance: t,
+    };
+  };
+
+  const intersect = (ray: THREE.Ray): TerrainHit | null => {
+    // A ray starting under the ground hits it straight away
+    if (clearance(ray, 0) <= 0) return hitAt(ray, 0);
+    const { root, step } = getBVH();
+    const spans = getPatchSpans(root, ray);
+
+    // March the union of the spans in order, so the first crossing wins
+    let i = 0;
+    while (i < spans.length) {
+      const start = spans[i].near;
+      let end = spans[i].far;
+      for (i++; i < spans.length && spans[i].near <= end; i++) {
+        end = Math.max(end, spans[i].far);
+      }
+
+      let above = start;
+      if (clearance(ray, start) <= 0) return hitAt(ray, start);
+      const steps = Math.max(Math.ceil((end - start) / step), 1);
+      for (let s = 1; s <= steps; s++) {
+        const t = start + ((end - start) * s) / steps;
+        if (clearance(ray, t) > 0) {
+          above = t;
+          continue;
+        }
+        // Crossed the ground within the last step, narrow it down
+        let below = t;
+        for (let j = 0; j < BISECTION_STEPS; j++) {
+          const mid = (above + below) / 2;
+          if (clearance(ray, mid) > 0) above = mid;
+          else below = mid;
+        }
+        return hitAt(ray, below);
+      }
+    }
+    return null;
+  };
+
+  return {
+    mode: 'field',
+    elevationAt: (d) => surface.elevationAt(d),
+    radiusAt: (d) => surface.radiusAt(d),
+    heightAt: (d) => surface.radiusAt(d) - radius,
+    normalAt: (d, out) => surface.normalAt(d, out),
+    intersect,
+    raycast(ray, out = new THREE.Vector3()) {
+      const hit = intersect(ray);
+      return hit ? out.copy(hit.point) : null;
+    },
+  };
+}
+
+/**
+ * ============================================================================
+ * MESH QUERIES
+ * ============================================================================
+ * Rays are tested against the triangles of the patches they pass through,
+ * nearest first, and normals are interpolated from the vertices like the
+ * mesh is shaded. Heights and normals along a direction come from a ray cast
+ * down onto the mesh. Where culling left a hole, the field answers instead.
+ */
+
+const TRIANGLES_PER_PATCH = 32;
+// Slack on the barycentric tests, so rays through shared edges and vertices
+// can't slip between the triangles
+const EDGE_TOLERANCE = 1e-6;
+
+export function createMeshTerrainQuery(
+  { positions, normals, indices }: TerrainQueryMesh,
+  { radius, elevation }: Pick<SurfaceParams, 'radius' | 'elevation'>,
+  field: PlanetSurface,
+): TerrainQuery {
+  const triangles = indices.length / 3;
+  const boxes: THREE.Box3[] = [];
+  const vertex = new THREE.Vector3();
+  let outer = radius;
+  for (let first = 0; first < triangles; first += TRIANGLES_PER_PATCH) {
+    const box = new THREE.Box3();
+    const last = Math.min(first + TRIANGLES_PER_PATCH, triangles);
+    for (let i = first * 3; i < last * 3; i++) {
+      box.expandByPoint(vertex.fromArray(positions, indices[i] * 3));
+      outer = Math.max(outer, vertex.length());
+    }
+    boxes.push(box);
+  }
+  const root = boxes.length > 0 ? buildBVH(boxes) : null;
+
+  const a = new THREE.Vector3();
+  const edge1 = new THREE.Vector3();
+  const edge2 = new THREE.Vector3();
+  const p = new THREE.Vector3();
+  const q = new THREE.Vector3();
+  const s = new THREE.Vector3();
+
+  const intersect = (ray: THREE.Ray, far = Infinity): TerrainHit | null => {
+    if (!root) return null;
+    let best = far;
+    let bestTriangle = -1;
+    let bestU = 0;
+    let bestV = 0;
+
+    for (const span of getPatchSpans(root, ray)) {
+      if (span.near > best) break;
+      const first = span.patch * TRIANGLES_PER_PATCH;
+      const last = Math.min(first + TRIANGLES_PER_PATCH, triangles);
+      for (let tri = first; tri < last; tri++) {
+        // Möller–Trumbore, from both sides
+        a.fromArray(positions, indices[tri * 3] * 3);
+        edge1.fromArray(positions, indices[tri * 3 + 1] * 3).sub(a);
+        edge2.fromArray(positions, indices[tri * 3 + 2] * 3).sub(a);
+        p.crossVectors(ray.direction, edge2);
+        const det = edge1.dot(p);
+        if (Math.abs(det) < 1e-12) continue;
+        s.subVectors(ray.origin, a);
+        const u = s.dot(p) / det;
+        if (u < -EDGE_TOLERANCE || u > 1 + EDGE_TOLERANCE) continue;
+        q.crossVectors(s, edge1);
+        const v = ray.direction.dot(q) / det;
+        if (v < -EDGE_TOLERANCE || u + v > 1 + EDGE_TOLERANCE) continue;
+        const t = edge2.dot(q) / det;
+        if (t < 0 || t >= best) continue;
+        best = t;
+        bestTriangle = tri;
+        bestU = u;
+        bestV = v;
+      }
+    }
+    if (bestTriangle < 0) return null;
+
+    const normal = new THREE.Vector3();
+    const weights = [1 - bestU - bestV, bestU, bestV];
+    for (let c = 0; c < 3; c++) {
+      normal.addScaledVector(
+        vertex.fromArray(normals, indices[bestTriangle * 3 + c] * 3),
+        weights[c],
+      );
+    }
+    return {
+      point: ray.at(best, new THREE.Vector3()),
+      normal: normal.normalize(),
+      distance: best,
+    };
+  };
+
+  // Straight down onto the mesh from outside it, no further than the centre
+  const down = new THREE.Ray();
+  const castDown = (dir: THREE.Vector3) => {
+    down.origin.copy(dir).multiplyScalar(outer * 2);
+    down.direction.copy(dir).negate();
+    return intersect(down, outer * 2);
+  };
+
+  const radiusAt = (dir: THREE.Vector3) =>
+    castDown(dir)?.point.length() ?? field.radiusAt(dir);
+
+  return {
+    mode: 'mesh',
+    elevationAt(dir) {
+      // Back from scene units to metres, where the relief allows it
+      if (elevation.exaggeration <= 0) return field.elevationAt(dir);
+      return (
+        elevation.seaLevel +
+        ((radiusAt(dir) - radius) * elevation.planetRadiusMeters) /
+          (elevation.exaggeration * radius)
+      );
+    },
+    radiusAt,
+    heightAt: (dir) => radiusAt(dir) - radius,
+    normalAt(dir, out = new THREE.Vector3()) {
+      const hit = castDown(dir);
+      return hit ? out.copy(hit.normal) : field.normalAt(dir, out);
+    },
+    intersect,
+    raycast(ray, out = new THREE.Vector3()) {
+      const hit = intersect(ray);
+      return hit ? out.copy(hit.point) : null;
+    },
+  };
+}
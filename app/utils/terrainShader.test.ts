@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import * as THREE from 'three';
+import {
+  BIOME_STOPS,
+  DEFAULT_BIOME_RAMP,
+  applyGeomorph,
+  createBiomeUniforms,
+  createDisplacementUniforms,
+  createGeomorphUniforms,
+  setBiomeRamp,
+  setDisplacement,
+} from './terrainShader';
+import {
+  DEFAULT_ELEVATION_SETTINGS,
+  elevationToDisplacement,
+} from './elevation';
+
+describe('setBiomeRamp', () => {
+  it('writes the stops in order from the lowest up', () => {
+    const uniforms = createBiomeUniforms();
+    setBiomeRamp(uniforms, DEFAULT_BIOME_RAMP);
+    expect(uniforms.biomeElevations.value).toEqual(
+      BIOME_STOPS.map((stop) => DEFAULT_BIOME_RAMP.elevations[stop]),
+    );
+    expect(uniforms.biomeColors.value[BIOME_STOPS.indexOf('grass')]).toEqual(
+      new THREE.Color(DEFAULT_BIOME_RAMP.colors.grass),
+    );
+    expect(uniforms.biomeSlope.value.x).toBeCloseTo(
+      THREE.MathUtils.degToRad(DEFAULT_BIOME_RAMP.slopeStart),
+    );
+  });
+
+  it('keeps the gradient running upward', () => {
+    const uniforms = createBiomeUniforms();
+    setBiomeRamp(uniforms, {
+      ...DEFAULT_BIOME_RAMP,
+      elevations: { ...DEFAULT_BIOME_RAMP.elevations, rock: 100 },
+      slopeStart: 50,
+      slopeEnd: 30,
+    });
+    const elevations = uniforms.biomeElevations.value;
+    expect(elevations[BIOME_STOPS.indexOf('rock')]).toBe(
+      DEFAULT_BIOME_RAMP.elevations.grass,
+    );
+    for (let i = 1; i < elevations.length; i++) {
+      expect(elevations[i]).toBeGreaterThanOrEqual(elevations[i - 1]);
+    }
+    expect(uniforms.biomeSlope.value.y).toBe(uniforms.biomeSlope.value.x);
+  });
+});
+
+describe('setDisplacement', () => {
+  it('scales elevations as the CPU displacement does', () => {
+    const uniforms = createDisplacementUniforms();
+    const elevation = {
+      ...DEFAULT_ELEVATION_SETTINGS,
+      seaLevel: 120,
+      exaggeration: 30,
+    };
+    setDisplacement(uniforms, 10, elevation, 0.02);
+    const toRadius = (h: number) =>
+      uniforms.displacementRadius.value +
+      (h - uniforms.displacementSeaLevel.value) *
+        uniforms.displacementScale.value;
+    for (const h of [-4000, 0, 120, 8000]) {
+      expect(toRadius(h)).toBeCloseTo(
+        10 + elevationToDisplacement(h, elevation, 10),
+        9,
+      );
+    }
+    expect(uniforms.displacementNormalAngle.value).toBeCloseTo(0.002);
+  });
+});
+
+describe('applyGeomorph', () => {
+  // One vertex of LOD step 1 on a planet of radius 10, with two steps
+  const position = new Float32Array([0, 10, 0]);
+  const parent = new Float32Array([0, 9, 0]);
+  const level = new Float32Array([1]);
+  const uniforms = createGeomorphUniforms();
+  uniforms.morphRadius.value = 10;
+  uniforms.morphSteps.value = 2;
+  uniforms.morphRange.value = 0.5;
+  uniforms.morphResolutions.value[0] = 4;
+  uniforms.morphResolutions.value[1] = 8;
+  const morphedY = () => applyGeomorph(position, parent, level, uniforms)[1];
+
+  it('blends toward the parent as the target moves away', () => {
+    uniforms.morphTarget.value.set(0, 10, 0);
+    expect(morphedY()).toBeCloseTo(10, 6);
+    // Continuous level 1.25, half way through the morph range
+    uniforms.morphTarget.value.set(7.5, 10, 0);
+    expect(morphedY()).toBeCloseTo(9.5, 6);
+    uniforms.morphTarget.value.set(0, -10, 0);
+    expect(morphedY()).toBeCloseTo(9, 6);
+  });
+
+  it('follows the screen-space level between step resolutions', () => {
+    uniforms.morphUseDistance.value = 0;
+    uniforms.morphUseScreen.value = 1;
+    uniforms.morphCamera.value.set(0, 12, 0);
+    // Required k = 10 / 2 = 5, a quarter of the way from k 4 to k 8
+    uniforms.morphScreenScale.value = 10;
+    expect(morphedY()).toBeCloseTo(9.5, 6);
+    uniforms.morphScreenScale.value = 12;
+    expect(morphedY()).toBeCloseTo(10, 6);
+  });
+});
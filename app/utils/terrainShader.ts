@@ -0,0 +1,585 @@
+import * as THREE from 'three';
+import type { ElevationSettings } from './elevation';
+
+/**
+ * ============================================================================
+ * TERRAIN SHADER PATCHES
+ * ============================================================================
+ * onBeforeCompile hooks that extend three's built-in materials for the
+ * planet. The normal map is sampled by the object-space direction of each
+ * fragment, in the same equirectangular layout as getCylindricalUV, so it
+ * needs none of the seam handling of the mesh's own UVs.
+ */
+
+/**
+ * Replaces the interpolated vertex normals with an object-space terrain
+ * normal map (see generateNormalMap). Shading then has the detail of the
+ * map regardless of how coarse the mesh is locally.
+ */
+export function injectTerrainNormalMap(
+  shader: THREE.WebGLProgramParametersWithUniforms,
+  normalMap: THREE.Texture,
+) {
+  shader.uniforms.terrainNormalMap = { value: normalMap };
+  shader.vertexShader = shader.vertexShader
+    .replace(
+      '#include <common>',
+      '#include <common>\nvarying vec3 vTerrainDir;',
+    )
+    .replace(
+      '#include <begin_vertex>',
+      '#include <begin_vertex>\nvTerrainDir = position;',
+    );
+  shader.fragmentShader = shader.fragmentShader
+    .replace(
+      '#include <common>',
+      `#include <common>
+uniform sampler2D terrainNormalMap;
+uniform mat3 normalMatrix;
+varying vec3 vTerrainDir;`,
+    )
+    .replace(
+      '#include <normal_fragment_maps>',
+      `{
+  vec3 terrainDir = normalize(vTerrainDir);
+  vec2 terrainUv = vec2(
+    atan(terrainDir.x, terrainDir.z) / (2.0 * PI) + 0.5,
+    0.5 - asin(clamp(terrainDir.y, -1.0, 1.0)) / PI
+  );
+  vec3 mapN = texture2D(terrainNormalMap, terrainUv).xyz * 2.0 - 1.0;
+  normal = normalize(normalMatrix * mapN);
+}`,
+    );
+}
+
+/** Most LOD steps the geomorph shader can mirror. */
+export const MAX_LOD_STEPS = 16;
+
+/**
+ * Live inputs of the geomorph, mirroring the mesher's LOD functions. They
+ * follow the target and camera directly, so vertices keep morphing smoothly
+ * while the worker is still building the mesh for the new view.
+ */
+export interface GeomorphUniforms {
+  /** LOD target and camera in the planet's local space. */
+  morphTarget: { value: THREE.Vector3 };
+  morphCamera: { value: THREE.Vector3 };
+  morphRadius: { value: number };
+  morphSteps: { value: number };
+  morphGamma: { value: number };
+  /** Which LOD modes contribute (1) or not (0). */
+  morphUseDistance: { value: number };
+  morphUseScreen: { value: number };
+  /** Required k times distance, for screen-space LOD. */
+  morphScreenScale: { value: number };
+  morphNear: { value: number };
+  /** Resolution of every LOD step (see getLodResolutions). */
+  morphResolutions: { value: number[] };
+  /** Fraction of a LOD step over which vertices morph to full detail. */
+  morphRange: { value: number };
+}
+
+export function createGeomorphUniforms(): GeomorphUniforms {
+  return {
+    morphTarget: { value: new THREE.Vector3() },
+    morphCamera: { value: new THREE.Vector3() },
+    morphRadius: { value: 1 },
+    morphSteps: { value: 1 },
+    morphGamma: { value: 1 },
+    morphUseDistance: { value: 1 },
+    morphUseScreen: { value: 0 },
+    morphScreenScale: { value: 0 },
+    morphNear: { value: 0.01 },
+    morphResolutions: { value: new Array(MAX_LOD_STEPS).fill(0) },
+    morphRange: { value: 0.5 },
+  };
+}
+
+/**
+ * Blends every vertex between its own position and its parent on the next
+ * coarser LOD level (see PlanetMeshData). A vertex that has just entered its
+ * level sits on the coarse mesh and morphs to full detail as its continuous
+ * level coordinate grows, so nothing pops when patches switch resolution.
+ */
+export function injectGeomorph(
+  shader: THREE.WebGLProgramParametersWithUniforms,
+  uniforms: GeomorphUniforms,
+) {
+  Object.assign(shader.uniforms, uniforms);
+  shader.vertexShader = shader.vertexShader
+    .replace(
+      '#include <common>',
+      `#include <common>
+#define MAX_LOD_STEPS ${MAX_LOD_STEPS}
+attribute vec3 parentPosition;
+attribute float morphLevel;
+uniform vec3 morphTarget;
+uniform vec3 morphCamera;
+uniform float morphRadius;
+uniform float morphSteps;
+uniform float morphGamma;
+uniform float morphUseDistance;
+uniform float morphUseScreen;
+uniform float morphScreenScale;
+uniform float morphNear;
+uniform float morphResolutions[MAX_LOD_STEPS];
+uniform float morphRange;`,
+    )
+    .replace(
+      '#include <begin_vertex>',
+      `#include <begin_vertex>
+{
+  vec3 surfacePoint = normalize(position) * morphRadius;
+  float level = 0.0;
+  if (morphUseDistance > 0.5) {
+    float dist = distance(surfacePoint, morphTarget);
+    float detail = pow(
+      1.0 - clamp(dist / (2.0 * morphRadius), 0.0, 1.0),
+      morphGamma
+    );
+    level = detail * morphSteps;
+  }
+  if (morphUseScreen > 0.5) {
+    float required =
+      morphScreenScale / max(distance(surfacePoint, morphCamera), morphNear);
+    float screenLevel = morphSteps;
+    float coarser = 0.0;
+    for (int i = 0; i < MAX_LOD_STEPS; i++) {
+      if (float(i) >= morphSteps) break;
+      if (required < morphResolutions[i]) {
+        screenLevel =
+          float(i) + (required - coarser) / (morphResolutions[i] - coarser);
+        break;
+      }
+      coarser = morphResolutions[i];
+    }
+    level = max(level, screenLevel);
+  }
+  float morph = 1.0 - clamp((level - morphLevel) / morphRange, 0.0, 1.0);
+  transformed = mix(position, parentPosition, morph);
+}`,
+    );
+}
+
+/**
+ * The geomorph of injectGeomorph on the CPU, with the same uniforms: every
+ * vertex blended toward its parent as the shader draws it at that moment,
+ * for queries against the mesh on screen.
+ */
+export function applyGeomorph(
+  positions: Float32Array,
+  parentPositions: Float32Array,
+  morphLevels: Float32Array,
+  uniforms: GeomorphUniforms,
+): Float32Array {
+  const radius = uniforms.morphRadius.value;
+  const steps = uniforms.morphSteps.value;
+  const resolutions = uniforms.morphResolutions.value;
+  const surfacePoint = new THREE.Vector3();
+  const morphed = new Float32Array(positions.length);
+  for (let v = 0; v < morphLevels.length; v++) {
+    surfacePoint.fromArray(positions, v * 3).setLength(radius);
+    let level = 0;
+    if (uniforms.morphUseDistance.value > 0.5) {
+      const dist = surfacePoint.distanceTo(uniforms.morphTarget.value);
+      const detail = Math.pow(
+        1 - THREE.MathUtils.clamp(dist / (2 * radius), 0, 1),
+        uniforms.morphGamma.value,
+      );
+      level = detail * steps;
+    }
+    if (uniforms.morphUseScreen.value > 0.5) {
+      const required =
+        uniforms.morphScreenScale.value /
+        Math.max(
+          surfacePoint.distanceTo(uniforms.morphCamera.value),
+          uniforms.morphNear.value,
+        );
+      let screenLevel = steps;
+      let coarser = 0;
+      for (let i = 0; i < Math.min(steps, MAX_LOD_STEPS); i++) {
+        if (required < resolutions[i]) {
+          screenLevel = i + (required - coarser) / (resolutions[i] - coarser);
+          break;
+        }
+        coarser = resolutions[i];
+      }
+      level = Math.max(level, screenLevel);
+    }
+    const morph =
+      1 -
+      THREE.MathUtils.clamp(
+        (level - morphLevels[v]) / uniforms.morphRange.value,
+        0,
+        1,
+      );
+    for (let c = v * 3; c < v * 3 + 3; c++) {
+      morphed[c] = positions[c] + (parentPositions[c] - positions[c]) * morph;
+    }
+  }
+  return morphed;
+}
+
+/**
+ * ============================================================================
+ * GPU DISPLACEMENT
+ * ============================================================================
+ * Displaces the bare-sphere mesh of `displacement: 'gpu'` from a baked
+ * elevation grid (see elevationGrid.ts), after the geomorph. Texels are
+ * fetched and blended by hand, with the wrapping of sampleHeight, rather
+ * than filtered by the texture unit: float filtering is optional in WebGL
+ * and too coarse to match the CPU's bilinear sampling.
+ */
+
+export interface DisplacementUniforms {
+  displacementGrid: { value: THREE.Texture | null };
+  displacementGridSize: { value: THREE.Vector2 };
+  displacementRadius: { value: number };
+  displacementSeaLevel: { value: number };
+  /** Scene units of displacement per metre of elevation. */
+  displacementScale: { value: number };
+  /** Finite-difference step of the terrain normals, in radians. */
+  displacementNormalAngle: { value: number };
+}
+
+export function createDisplacementUniforms(): DisplacementUniforms {
+  return {
+    displacementGrid: { value: null },
+    displacementGridSize: { value: new THREE.Vector2(1, 1) },
+    displacementRadius: { value: 1 },
+    displacementSeaLevel: { value: 0 },
+    displacementScale: { value: 0 },
+    displacementNormalAngle: { value: 0.01 },
+  };
+}
+
+/** Writes the relief of a planet into the uniforms, as elevationToDisplacement. */
+export function setDisplacement(
+  uniforms: DisplacementUniforms,
+  radius: number,
+  elevation: ElevationSettings,
+  normalEpsilon: number,
+) {
+  uniforms.displacementRadius.value = radius;
+  uniforms.displacementSeaLevel.value = elevation.seaLevel;
+  uniforms.displacementScale.value =
+    (elevation.exaggeration * radius) / elevation.planetRadiusMeters;
+  uniforms.displacementNormalAngle.value = normalEpsilon / radius;
+}
+
+/**
+ * Moves every vertex out to the displaced radius along its direction, and
+ * takes its normal from the grid like getTerrainNormal does. The normal is
+ * evaluated at the vertex's own position rather than the morphed one, which
+ * is close enough for shading.
+ */
+export function injectDisplacement(
+  shader: THREE.WebGLProgramParametersWithUniforms,
+  uniforms: DisplacementUniforms,
+) {
+  Object.assign(shader.uniforms, uniforms);
+  shader.vertexShader = shader.vertexShader
+    .replace(
+      '#include <common>',
+      `#include <common>
+uniform sampler2D displacementGrid;
+uniform vec2 displacementGridSize;
+uniform float displacementRadius;
+uniform float displacementSeaLevel;
+uniform float displacementScale;
+uniform float displacementNormalAngle;
+
+// One texel; past the antimeridian columns wrap, past a pole the row
+// reflects onto the opposite meridian
+float displacementTexel(float x, float y) {
+  vec2 size = displacementGridSize;
+  if (y < 0.0) {
+    y = -y - 1.0;
+    x += size.x * 0.5;
+  } else if (y >= size.y) {
+    y = 2.0 * size.y - y - 1.0;
+    x += size.x * 0.5;
+  }
+  y = clamp(y, 0.0, size.y - 1.0);
+  x = mod(floor(x), size.x);
+  return texelFetch(displacementGrid, ivec2(int(x), int(y)), 0).r;
+}
+
+float displacementElevation(vec3 dir) {
+  vec2 uv = vec2(
+    atan(dir.x, dir.z) / (2.0 * PI) + 0.5,
+    0.5 - asin(clamp(dir.y, -1.0, 1.0)) / PI
+  );
+  vec2 f = uv * displacementGridSize - 0.5;
+  vec2 f0 = floor(f);
+  vec2 t = f - f0;
+  float top = mix(
+    displacementTexel(f0.x, f0.y),
+    displacementTexel(f0.x + 1.0, f0.y),
+    t.x
+  );
+  float bottom = mix(
+    displacementTexel(f0.x, f0.y + 1.0),
+    displacementTexel(f0.x + 1.0, f0.y + 1.0),
+    t.x
+  );
+  return mix(top, bottom, t.y);
+}
+
+float displacedRadius(vec3 dir) {
+  return displacementRadius +
+    (displacementElevation(dir) - displacementSeaLevel) * displacementScale;
+}
+
+vec3 displacedNormal(vec3 dir) {
+  vec3 up = abs(dir.y) < 0.9 ? vec3(0.0, 1.0, 0.0) : vec3(1.0, 0.0, 0.0);
+  vec3 tangentU = normalize(cross(up, dir));
+  vec3 tangentV = cross(dir, tangentU);
+  float angle = displacementNormalAngle;
+  vec3 base = dir * cos(angle);
+  float s = sin(angle);
+  float gu = (
+    displacementElevation(base + tangentU * s) -
+    displacementElevation(base - tangentU * s)
+  ) / (2.0 * angle);
+  float gv = (
+    displacementElevation(base + tangentV * s) -
+    displacementElevation(base - tangentV * s)
+  ) / (2.0 * angle);
+  float r = displacedRadius(dir);
+  vec3 gradient = tangentU * gu + tangentV * gv;
+  return normalize(dir - gradient * (r > 0.0 ? displacementScale / r : 0.0));
+}`,
+    )
+    .replace(
+      '#include <beginnormal_vertex>',
+      `#include <beginnormal_vertex>
+objectNormal = displacedNormal(normalize(position));`,
+    )
+    .replace(
+      '#include <project_vertex>',
+      `{
+  vec3 displacedDir = normalize(transformed);
+  transformed = displacedDir * displacedRadius(displacedDir);
+}
+#include <project_vertex>`,
+    );
+}
+
+/**
+ * ============================================================================
+ * BIOME SHADING
+ * ============================================================================
+ * Colours the surface from a gradient ramp over elevation, for planets
+ * without albedo imagery. Land steeper than `slopeStart` turns to the rock
+ * colour, fully at `slopeEnd`.
+ */
+
+/**
+ * A single `color`, the gradient ramp, or an albedo texture on the mesh UVs
+ * (shaded with the ramp until it has loaded).
+ */
+export type PlanetShading = 'color' | 'biome' | 'albedo';
+
+export const PLANET_SHADINGS: PlanetShading[] = ['color', 'biome', 'albedo'];
+
+/** The ramp's colour stops, from the lowest elevation up. */
+export const BIOME_STOPS = [
+  'deepOcean',
+  'shallows',
+  'beach',
+  'grass',
+  'rock',
+  'snow',
+] as const;
+
+export type BiomeStop = (typeof BIOME_STOPS)[number];
+
+export interface BiomeRamp {
+  /** Colour of every stop and its height above sea level (m). */
+  colors: Record<BiomeStop, string>;
+  elevations: Record<BiomeStop, number>;
+  /** Slopes (degrees) over which land blends to the rock colour. */
+  slopeStart: number;
+  slopeEnd: number;
+}
+
+export const DEFAULT_BIOME_RAMP: BiomeRamp = {
+  colors: {
+    deepOcean: '#0b1e4a',
+    shallows: '#2d6fa8',
+    beach: '#d6c48f',
+    grass: '#4d7a2f',
+    rock: '#6b5f55',
+    snow: '#f2f4f7',
+  },
+  elevations: {
+    deepOcean: -6000,
+    shallows: -200,
+    beach: 0,
+    grass: 200,
+    rock: 2500,
+    snow: 4500,
+  },
+  slopeStart: 25,
+  slopeEnd: 45,
+};
+
+export interface BiomeUniforms {
+  biomeColors: { value: THREE.Color[] };
+  biomeElevations: { value: number[] };
+  /** Slope range in radians. */
+  biomeSlope: { value: THREE.Vector2 };
+  biomeRadius: { value: number };
+  /** Metres of elevation per scene unit of displacement. */
+  biomeMetresPerUnit: { value: number };
+}
+
+export function createBiomeUniforms(): BiomeUniforms {
+  return {
+    biomeColors: { value: BIOME_STOPS.map(() => new THREE.Color()) },
+    biomeElevations: { value: BIOME_STOPS.map(() => 0) },
+    biomeSlope: { value: new THREE.Vector2() },
+    biomeRadius: { value: 1 },
+    biomeMetresPerUnit: { value: 1 },
+  };
+}
+
+/**
+ * Writes a ramp into the uniforms. Stops below the one before them are
+ * raised to it, so the gradient always runs upward.
+ */
+export function setBiomeRamp(uniforms: BiomeUniforms, ramp: BiomeRamp) {
+  let floor = -Infinity;
+  BIOME_STOPS.forEach((stop, i) => {
+    floor = Math.max(floor, ramp.elevations[stop]);
+    uniforms.biomeElevations.value[i] = floor;
+    uniforms.biomeColors.value[i].set(ramp.colors[stop]);
+  });
+  const slopeStart = THREE.MathUtils.degToRad(ramp.slopeStart);
+  uniforms.biomeSlope.value.set(
+    slopeStart,
+    Math.max(THREE.MathUtils.degToRad(ramp.slopeEnd), slopeStart),
+  );
+}
+
+/**
+ * Elevation is recovered from the displaced radius of each vertex after the
+ * geomorph, so colours follow the surface as it morphs. Without vertical
+ * exaggeration the surface is flat and everything is shaded as sea level.
+ */
+export function injectBiomeShading(
+  shader: THREE.WebGLProgramParametersWithUniforms,
+  uniforms: BiomeUniforms,
+) {
+  Object.assign(shader.uniforms, uniforms);
+  shader.vertexShader = shader.vertexShader
+    .replace(
+      '#include <common>',
+      `#include <common>
+uniform float biomeRadius;
+uniform float biomeMetresPerUnit;
+varying float vBiomeElevation;
+varying float vBiomeSlope;`,
+    )
+    .replace(
+      '#include <project_vertex>',
+      `vBiomeElevation = (length(transformed) - biomeRadius) * biomeMetresPerUnit;
+vBiomeSlope = acos(clamp(
+  dot(normalize(objectNormal), normalize(transformed)),
+  -1.0,
+  1.0
+));
+#include <project_vertex>`,
+    );
+  shader.fragmentShader = shader.fragmentShader
+    .replace(
+      '#include <common>',
+      `#include <common>
+#define BIOME_STOPS ${BIOME_STOPS.length}
+#define BIOME_ROCK ${BIOME_STOPS.indexOf('rock')}
+uniform vec3 biomeColors[BIOME_STOPS];
+uniform float biomeElevations[BIOME_STOPS];
+uniform vec2 biomeSlope;
+varying float vBiomeElevation;
+varying float vBiomeSlope;`,
+    )
+    .replace(
+      'vec4 diffuseColor = vec4( diffuse, opacity );',
+      `vec3 biomeColor = biomeColors[0];
+for (int i = 1; i < BIOME_STOPS; i++) {
+  float span = max(biomeElevations[i] - biomeElevations[i - 1], 1e-3);
+  biomeColor = mix(
+    biomeColor,
+    biomeColors[i],
+    clamp((vBiomeElevation - biomeElevations[i - 1]) / span, 0.0, 1.0)
+  );
+}
+float steepness = smoothstep(biomeSlope.x, biomeSlope.y + 1e-3, vBiomeSlope);
+biomeColor = mix(
+  biomeColor,
+  biomeColors[BIOME_ROCK],
+  steepness * step(0.0, vBiomeElevation)
+);
+vec4 diffuseColor = vec4( biomeColor, opacity );`,
+    );
+}
+
+/**
+ * ============================================================================
+ * NIGHT LIGHTS
+ * ============================================================================
+ * City lights as emission, faded in across the terminator so they only show
+ * on the side facing away from the sun. The texture is mapped with the
+ * mesh's UVs, like the albedo. The sun direction is taken to view space by
+ * the view matrix alone, to meet the view-space normal.
+ */
+export interface NightLightsUniforms {
+  nightLightsMap: { value: THREE.Texture | null };
+  /**
+   * Unit direction toward the sun in world space, like the scene's lights,
+   * so a planet turning inside a moving group stays lit from the right side.
+   */
+  nightSunDirection: { value: THREE.Vector3 };
+  nightLightsIntensity: { value: number };
+}
+
+export function createNightLightsUniforms(): NightLightsUniforms {
+  return {
+    nightLightsMap: { value: null },
+    nightSunDirection: { value: new THREE.Vector3(0, 1, 0) },
+    nightLightsIntensity: { value: 1 },
+  };
+}
+
+export function injectNightLights(
+  shader: THREE.WebGLProgramParametersWithUniforms,
+  uniforms: NightLightsUniforms,
+) {
+  Object.assign(shader.uniforms, uniforms);
+  shader.vertexShader = shader.vertexShader
+    .replace('#include <common>', '#include <common>\nvarying vec2 vNightUv;')
+    .replace(
+      '#include <begin_vertex>',
+      '#include <begin_vertex>\nvNightUv = uv;',
+    );
+  shader.fragmentShader = shader.fragmentShader
+    .replace(
+      '#include <common>',
+      `#include <common>
+uniform sampler2D nightLightsMap;
+uniform vec3 nightSunDirection;
+uniform float nightLightsIntensity;
+varying vec2 vNightUv;`,
+    )
+    .replace(
+      '#include <emissivemap_fragment>',
+      `#include <emissivemap_fragment>
+{
+  vec3 sunView = normalize((viewMatrix * vec4(nightSunDirection, 0.0)).xyz);
+  float night = 1.0 - smoothstep(-0.15, 0.05, dot(normal, sunView));
+  totalEmissiveRadiance +=
+    texture2D(nightLightsMap, vNightUv).rgb * night * nightLightsIntensity;
+}`,
+    );
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatParam,
+  parseNumberList,
+  readControlParams,
+  writeControlParams,
+} from './urlState';
+
+const schema = {
+  radius: { value: 10, min: 1, max: 10 },
+  steps: { value: 4, min: 1, max: 10, step: 1, label: 'Steps' },
+  mode: { value: 'distance', options: ['distance', 'screenSpace'] },
+  view: { value: 'orbit', options: { Orbit: 'orbit', Walk: 'walk' } },
+  culling: { value: true },
+  wireframe: false,
+  color: '#4169e1',
+};
+
+describe('readControlParams', () => {
+  it('reads valid values', () => {
+    const params = new URLSearchParams(
+      'radius=5.5&mode=screenSpace&view=walk&culling=false&wireframe=1&color=%23ff0000',
+    );
+    expect(readControlParams(schema, params)).toEqual({
+      radius: 5.5,
+      mode: 'screenSpace',
+      view: 'walk',
+      culling: false,
+      wireframe: true,
+      color: '#ff0000',
+    });
+  });
+
+  it('clamps numbers to the control range', () => {
+    const params = new URLSearchParams('radius=-3&steps=1e9');
+    expect(readControlParams(schema, params)).toEqual({ radius: 1, steps: 10 });
+  });
+
+  it('snaps integer controls to whole steps', () => {
+    const params = new URLSearchParams('steps=2.5&radius=3.25');
+    expect(readControlParams(schema, params)).toEqual({
+      steps: 3,
+      radius: 3.25,
+    });
+  });
+
+  it('drops unknown params and invalid values', () => {
+    const params = new URLSearchParams(
+      'foo=1&radius=big&steps=&mode=fastest&view=Walk&culling=yes&color=red',
+    );
+    expect(readControlParams(schema, params)).toEqual({});
+  });
+});
+
+describe('writeControlParams', () => {
+  it('writes only values that differ from the defaults', () => {
+    const params = writeControlParams(
+      schema,
+      {
+        radius: 10,
+        steps: 3,
+        mode: 'distance',
+        view: 'walk',
+        culling: false,
+        wireframe: false,
+        color: '#4169e1',
+      },
+      new URLSearchParams('radius=4'),
+    );
+    expect(params.toString()).toBe('steps=3&view=walk&culling=false');
+  });
+
+  it('round-trips through readControlParams', () => {
+    const values = {
+      radius: 2.123456789,
+      steps: 7,
+      mode: 'screenSpace',
+      view: 'orbit',
+      culling: true,
+      wireframe: true,
+      color: '#00ff00',
+    };
+    const params = writeControlParams(schema, values, new URLSearchParams());
+    expect(readControlParams(schema, params)).toEqual({
+      radius: 2.12346,
+      steps: 7,
+      mode: 'screenSpace',
+      wireframe: true,
+      color: '#00ff00',
+    });
+  });
+});
+
+describe('URL helpers', () => {
+  it('formats numbers compactly', () => {
+    expect(formatParam(1 / 3)).toBe('0.33333');
+    expect(formatParam(20)).toBe('20');
+    expect(formatParam(true)).toBe('true');
+  });
+
+  it('parses fixed-length number lists', () => {
+    expect(parseNumberList('1,-2.5,3', 3)).toEqual([1, -2.5, 3]);
+    expect(parseNumberList('1,2', 3)).toBeNull();
+    expect(parseNumberList('1,,3', 3)).toBeNull();
+    expect(parseNumberList('1,x,3', 3)).toBeNull();
+    expect(parseNumberList(null, 3)).toBeNull();
+  });
+});
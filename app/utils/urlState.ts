@@ -0,0 +1,82 @@
+import { checkControlValue, getControlDefault } from './controlSchema';
+import type { ControlSchema, ControlValues } from './controlSchema';
+
+/**
+ * ============================================================================
+ * URL STATE
+ * ============================================================================
+ * Reads and writes control values as URL search params, so a link reproduces
+ * a view. Values are validated against the Leva schema that declares the
+ * controls (see controlSchema.ts) and anything unreadable is dropped. Only
+ * values that differ from the schema defaults are written, which keeps links
+ * short.
+ */
+
+// Decimal places kept when writing numbers
+const PRECISION = 5;
+
+/** A param as the type of its control, before validation. */
+function decodeParam(fallback: number | boolean | string, raw: string) {
+  if (typeof fallback === 'boolean') {
+    if (raw === 'true' || raw === '1') return true;
+    if (raw === 'false' || raw === '0') return false;
+    return undefined;
+  }
+  if (typeof fallback === 'number') {
+    return raw.trim() === '' ? undefined : Number(raw);
+  }
+  return raw;
+}
+
+/** Valid control values found in `params`, by control name. */
+export function readControlParams<S extends ControlSchema>(
+  schema: S,
+  params: URLSearchParams,
+): Partial<ControlValues<S>> {
+  const values: Partial<Record<keyof S, unknown>> = {};
+  for (const key of Object.keys(schema) as (keyof S & string)[]) {
+    const raw = params.get(key);
+    if (raw === null) continue;
+    const spec = schema[key];
+    const value = checkControlValue(
+      spec,
+      decodeParam(getControlDefault(spec), raw),
+    );
+    if (value !== undefined) values[key] = value;
+  }
+  return values as Partial<ControlValues<S>>;
+}
+
+/** Writes every control that differs from its default into `params`. */
+export function writeControlParams<S extends ControlSchema>(
+  schema: S,
+  values: ControlValues<S>,
+  params: URLSearchParams,
+) {
+  for (const key of Object.keys(schema)) {
+    const value = values[key];
+    if (value === getControlDefault(schema[key])) {
+      params.delete(key);
+    } else {
+      params.set(key, formatParam(value));
+    }
+  }
+  return params;
+}
+
+/** A URL-friendly string for a number, boolean or string. */
+export function formatParam(value: unknown) {
+  return typeof value === 'number'
+    ? String(Number(value.toFixed(PRECISION)))
+    : String(value);
+}
+
+/** A comma-separated list of exactly `length` finite numbers, or null. */
+export function parseNumberList(raw: string | null, length: number) {
+  if (raw === null) return null;
+  const values = raw
+    .split(',')
+    .map((part) => (part.trim() === '' ? NaN : Number(part)));
+  if (values.length !== length) return null;
+  return values.every((value) => Number.isFinite(value)) ? values : null;
+}
@@ -0,0 +1,226 @@
+import { PlanetMesher } from '../utils/planetMesher';
+import type { PlanetMeshData, PlanetMeshSpec } from '../utils/planetMesher';
+import { CubeSphereMesher } from '../utils/cubeSphereMesher';
+import { copySeamVertices, getCylindricalUVs } from '../utils/sphereUVs';
+import type { HeightMapData } from '../utils/heightmap';
+import type { ElevationSettings } from '../utils/elevation';
+import { createHeightSource } from '../utils/heightSource';
+import type { HeightSourceConfig } from '../utils/heightSource';
+import { generateNormalMap } from '../utils/terrainNormals';
+import type { NormalMapOptions } from '../utils/terrainNormals';
+import { generateElevationGrid } from '../utils/elevationGrid';
+import type { ElevationGridOptions } from '../utils/elevationGrid';
+
+/**
+ * ============================================================================
+ * PLANET MESHER WORKER
+ * ============================================================================
+ * Runs the icosphere and cube-sphere meshers off the main thread. Requests
+ * are tagged with an increasing id; only the newest one is ever worked on. A
+ * build is time-sliced and yields back to the event loop regularly so that a
+ * newer request can abandon it mid-way. Finished meshes get UVs, split along
+ * the texture seams, before they are sent. Terrain normal maps and the
+ * elevation grids of GPU displacement are baked the same way as meshes, with
+ * their own request ids.
+ */
+
+/** Mesher output with UVs, its vertices split along the texture seams. */
+export interface TexturedPlanetMesh extends PlanetMeshData {
+  uvs: Float32Array;
+}
+
+export interface NormalMapRequest extends NormalMapOptions {
+  terrain: HeightSourceConfig;
+  elevation: ElevationSettings;
+  radius: number;
+}
+
+export interface ElevationGridRequest extends ElevationGridOptions {
+  terrain: HeightSourceConfig;
+  elevation: ElevationSettings;
+}
+
+export type PlanetMesherRequest =
+  | { type: 'heightMap'; heightMap: HeightMapData | null }
+  | { type: 'build'; id: number; spec: PlanetMeshSpec }
+  | { type: 'normalMap'; id: number; request: NormalMapRequest }
+  | { type: 'elevationGrid'; id: number; request: ElevationGridRequest };
+
+export type PlanetMesherResponse =
+  | { type: 'mesh'; id: number; mesh: TexturedPlanetMesh }
+  | { type: 'error'; id: number; message: string }
+  | {
+      type: 'normalMap';
+      id: number;
+      data: Uint8Array<ArrayBuffer>;
+      width: number;
+      height: number;
+    }
+  | {
+      type: 'elevationGrid';
+      id: number;
+      data: Float32Array<ArrayBuffer>;
+      width: number;
+      height: number;
+    };
+
+// Work budget per slice before giving the message queue a chance to run
+const SLICE_BUDGET_MS = 8;
+
+const ctx = self as unknown as Worker;
+
+// Patch chunks are cached across builds, so keep one mesher per topology
+const mesher = new PlanetMesher();
+const cubeSphereMesher = new CubeSphereMesher();
+let heightMap: HeightMapData | null = null;
+const latestIds = { build: 0, normalMap: 0, elevationGrid: 0 };
+
+// A MessageChannel round-trip yields without the 4ms clamp of nested timeouts
+const yieldChannel = new MessageChannel();
+const yieldQueue: (() => void)[] = [];
+yieldChannel.port1.onmessage = () => yieldQueue.shift()?.();
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => {
+    yieldQueue.push(resolve);
+    yieldChannel.port2.postMessage(null);
+  });
+}
+
+/**
+ * Runs a job in time slices. Resolves with its result, or with null once a
+ * newer request of the same kind has made it stale.
+ */
+async function runSliced<T>(
+  kind: keyof typeof latestIds,
+  id: number,
+  job: Generator<void, T, void>,
+): Promise<T | null> {
+  let sliceStart = performance.now();
+  let step = job.next();
+
+  while (!step.done) {
+    if (performance.now() - sliceStart > SLICE_BUDGET_MS) {
+      await yieldToEventLoop();
+      // A newer request has arrived in the meantime, this result is stale
+      if (id !== latestIds[kind]) return null;
+      sliceStart = performance.now();
+    }
+    step = job.next();
+  }
+  return step.value;
+}
+
+function withUVs(mesh: PlanetMeshData): TexturedPlanetMesh {
+  const { uvs, indices, sources } = getCylindricalUVs(
+    mesh.positions,
+    mesh.indices,
+  );
+  return {
+    positions: copySeamVertices(mesh.positions, 3, sources),
+    normals: copySeamVertices(mesh.normals, 3, sources),
+    parentPositions: copySeamVertices(mesh.parentPositions, 3, sources),
+    morphLevels: copySeamVertices(mesh.morphLevels, 1, sources),
+    indices,
+    uvs,
+    skirtStart: mesh.skirtStart,
+  };
+}
+
+async function buildMesh(id: number, spec: PlanetMeshSpec) {
+  const job =
+    spec.topology === 'cubeSphere'
+      ? cubeSphereMesher.generate(spec.params, heightMap)
+      : mesher.generate(spec.params, heightMap);
+  const built = await runSliced('build', id, job);
+  return built && withUVs(built);
+}
+
+// A failed build is reported rather than left to keep the last mesh forever
+async function build(id: number, spec: PlanetMeshSpec) {
+  let mesh: TexturedPlanetMesh | null;
+  try {
+    mesh = await buildMesh(id, spec);
+  } catch (err) {
+    const response: PlanetMesherResponse = {
+      type: 'error',
+      id,
+      message: err instanceof Error ? err.message : String(err),
+    };
+    ctx.postMessage(response);
+    return;
+  }
+  if (!mesh) return;
+
+  const response: PlanetMesherResponse = { type: 'mesh', id, mesh };
+  ctx.postMessage(response, [
+    mesh.positions.buffer,
+    mesh.normals.buffer,
+    mesh.parentPositions.buffer,
+    mesh.morphLevels.buffer,
+    mesh.indices.buffer,
+    mesh.uvs.buffer,
+  ]);
+}
+
+async function bakeNormalMap(id: number, request: NormalMapRequest) {
+  const { terrain, elevation, radius, width, height } = request;
+  const source = createHeightSource(terrain, heightMap, elevation);
+  if (!source) return;
+
+  const job = generateNormalMap(source, elevation, radius, request);
+  const data = await runSliced('normalMap', id, job);
+  if (!data) return;
+
+  const response: PlanetMesherResponse = {
+    type: 'normalMap',
+    id,
+    data,
+    width,
+    height,
+  };
+  ctx.postMessage(response, [data.buffer]);
+}
+
+async function bakeElevationGrid(id: number, request: ElevationGridRequest) {
+  const { terrain, elevation, width, height } = request;
+  const source = createHeightSource(terrain, heightMap, elevation);
+  if (!source) return;
+
+  const data = await runSliced(
+    'elevationGrid',
+    id,
+    generateElevationGrid(source, request),
+  );
+  if (!data) return;
+
+  const response: PlanetMesherResponse = {
+    type: 'elevationGrid',
+    id,
+    data,
+    width,
+    height,
+  };
+  ctx.postMessage(response, [data.buffer]);
+}
+
+ctx.onmessage = (e: MessageEvent<PlanetMesherRequest>) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case 'heightMap':
+      heightMap = msg.heightMap;
+      break;
+    case 'build':
+      latestIds.build = msg.id;
+      void build(msg.id, msg.spec);
+      break;
+    case 'normalMap':
+      latestIds.normalMap = msg.id;
+      void bakeNormalMap(msg.id, msg.request);
+      break;
+    case 'elevationGrid':
+      latestIds.elevationGrid = msg.id;
+      void bakeElevationGrid(msg.id, msg.request);
+      break;
+  }
+};
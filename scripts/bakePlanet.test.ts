@@ -0,0 +1,44 @@
+import { spawnSync } from 'node:child_process';
+import { createRequire } from 'node:module';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+
+const TSX = createRequire(import.meta.url).resolve('tsx/cli');
+const SCRIPT = fileURLToPath(new URL('./bakePlanet.ts', import.meta.url));
+
+// Runs the baker; every case fails before anything is read or written
+function bake(...args: string[]) {
+  const { status, stderr } = spawnSync(
+    process.execPath,
+    [TSX, SCRIPT, '--terrain', 'procedural', ...args],
+    { encoding: 'utf8', timeout: 60_000 },
+  );
+  return { status, error: stderr.split('\n')[0] };
+}
+
+describe('bakePlanet', () => {
+  it('rejects resolutions that are not positive integers', () => {
+    for (const [flag, value] of [
+      ['--tiles', '0'],
+      ['--tiles', '2.5'],
+      ['--uniform', '0'],
+      ['--max-detail', '12.5'],
+      ['--steps', '0'],
+    ]) {
+      const { status, error } = bake(flag, value);
+      expect(status).toBe(1);
+      expect(error).toBe(`${flag} must be a positive integer, got "${value}"`);
+    }
+  });
+
+  it('rejects detail past the unique vertex ids of the lattice', () => {
+    const { status, error } = bake('--min-detail', '4', '--max-detail', '5000');
+    expect(status).toBe(1);
+    expect(error).toBe(
+      '--max-detail must be at most 4095 for unique vertex ids, got 5000',
+    );
+    expect(bake('--uniform', '4000').error).toBe(
+      '--uniform must be at most 3276 for unique vertex ids, got 4000',
+    );
+  });
+});
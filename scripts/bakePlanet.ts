@@ -0,0 +1,344 @@
+/**
+ * ============================================================================
+ * PLANET BAKER
+ * ============================================================================
+ * Runs the icosphere mesher of Planet.tsx in Node: reads a heightmap file,
+ * builds the mesh for the given LOD parameters and writes mesh files plus a
+ * JSON report. Optionally pre-bakes per-patch height tiles (see
+ * app/utils/heightTiles.ts) that a client can load instead of the heightmap.
+ *
+ *   npm run bake -- --heightmap maps/earth.png --target "27.99 N, 86.93 E"
+ *   npm run bake -- --heightmap maps/earth.tif --uniform 64 --format glb,stl
+ *   npm run bake -- --heightmap maps/earth.png --tiles 32 --out dist/earth
+ *
+ * Run with --help for every option.
+ */
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import {
+  HEIGHT_SAMPLING_MODES,
+  decodeHeightMap,
+  detectHeightMapFormat,
+  getRawSidecarUrl,
+} from '../app/utils/heightmap';
+import type { HeightMapData } from '../app/utils/heightmap';
+import { DEFAULT_ELEVATION_SETTINGS } from '../app/utils/elevation';
+import type { ElevationSettings } from '../app/utils/elevation';
+import {
+  DEFAULT_COMPOSITE_TERRAIN,
+  DEFAULT_PROCEDURAL_TERRAIN,
+  TERRAIN_TYPES,
+  createHeightSource,
+} from '../app/utils/heightSource';
+import type { HeightSourceConfig } from '../app/utils/heightSource';
+import {
+  PlanetMesher,
+  getBasePatches,
+  getBaseSubdivision,
+  getMaxLodResolution,
+} from '../app/utils/planetMesher';
+import type { PlanetMeshParams } from '../app/utils/planetMesher';
+import { DEFAULT_NORMAL_EPSILON } from '../app/utils/terrainNormals';
+import { latLonToDirection, parseLatLon } from '../app/utils/geodesy';
+import {
+  MESH_EXPORT_FORMATS,
+  exportMesh,
+  getUniformMeshParams,
+} from '../app/utils/meshExport';
+import {
+  HEIGHT_TILE_VERSION,
+  bakeHeightTile,
+  encodeHeightTile,
+  getHeightTileFileName,
+  getHeightTileRange,
+} from '../app/utils/heightTiles';
+import type { HeightTileManifest } from '../app/utils/heightTiles';
+
+const USAGE = `Usage: npm run bake -- [options]
+
+Input
+  --heightmap <file>      PNG, GeoTIFF or raw grid (.f32/.i16 + .json sidecar)
+  --terrain <type>        heightmap | procedural | composite (default heightmap)
+  --sampling <mode>       nearest | bilinear | bicubic (default bilinear)
+  --seed <n>              procedural noise seed
+  --min-elevation <m>     elevation of height 0, for maps without units
+  --max-elevation <m>     elevation of height 1, for maps without units
+  --sea-level <m>         elevation at the planet radius (default 0)
+  --exaggeration <x>      vertical exaggeration (default 50)
+
+Mesh
+  --radius <r>            planet radius in scene units (default 10)
+  --min-detail <k>        coarsest LOD resolution (default 4)
+  --max-detail <k>        finest LOD resolution (default 12)
+  --steps <n>             number of LOD levels (default 4)
+  --step-gamma <g>        LOD falloff (default 2)
+  --target <lat,lon>      LOD target direction (default the north pole)
+  --uniform <k>           one resolution everywhere instead of LOD
+
+Output
+  --out <dir>             output directory (default bake)
+  --name <name>           base file name (default planet)
+  --format <list>         comma-separated glb,obj,stl (default glb)
+  --no-normals            leave vertex normals out of the mesh files
+  --no-uvs                leave UVs out of the mesh files
+  --tiles <resolution>    also bake per-patch height tiles
+`;
+
+const { values: args } = parseArgs({
+  options: {
+    heightmap: { type: 'string' },
+    terrain: { type: 'string', default: 'heightmap' },
+    sampling: { type: 'string', default: 'bilinear' },
+    seed: { type: 'string' },
+    'min-elevation': { type: 'string' },
+    'max-elevation': { type: 'string' },
+    'sea-level': { type: 'string' },
+    exaggeration: { type: 'string' },
+    radius: { type: 'string', default: '10' },
+    'min-detail': { type: 'string', default: '4' },
+    'max-detail': { type: 'string', default: '12' },
+    steps: { type: 'string', default: '4' },
+    'step-gamma': { type: 'string', default: '2' },
+    target: { type: 'string' },
+    uniform: { type: 'string' },
+    out: { type: 'string', default: 'bake' },
+    name: { type: 'string', default: 'planet' },
+    format: { type: 'string', default: 'glb' },
+    'no-normals': { type: 'boolean', default: false },
+    'no-uvs': { type: 'boolean', default: false },
+    tiles: { type: 'string' },
+    help: { type: 'boolean', short: 'h', default: false },
+  },
+});
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function number(name: string, raw: string | undefined, fallback: number) {
+  if (raw === undefined) return fallback;
+  const value = Number(raw);
+  if (raw.trim() === '' || !Number.isFinite(value)) {
+    fail(`--${name} must be a number, got "${raw}"`);
+  }
+  return value;
+}
+
+function positiveInteger(
+  name: string,
+  raw: string | undefined,
+  fallback: number,
+) {
+  const value = number(name, raw, fallback);
+  if (!Number.isInteger(value) || value < 1) {
+    fail(`--${name} must be a positive integer, got "${raw}"`);
+  }
+  return value;
+}
+
+function oneOf<T extends string>(name: string, raw: string, options: T[]) {
+  if (!options.includes(raw as T)) {
+    fail(`--${name} must be one of ${options.join(', ')}, got "${raw}"`);
+  }
+  return raw as T;
+}
+
+async function readHeightMap(path: string): Promise<HeightMapData> {
+  const format = detectHeightMapFormat(path);
+  if (format === 'image') {
+    fail(
+      `${path}: only PNG, GeoTIFF and raw grids can be read outside a browser`,
+    );
+  }
+  const file = await readFile(path);
+  const buffer = file.buffer.slice(
+    file.byteOffset,
+    file.byteOffset + file.byteLength,
+  ) as ArrayBuffer;
+  const sidecar =
+    format === 'raw'
+      ? JSON.parse(await readFile(getRawSidecarUrl(path), 'utf8'))
+      : undefined;
+  return decodeHeightMap(buffer, format, { sidecar });
+}
+
+if (args.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+
+/**
+ * ============================================================================
+ * PARAMETERS
+ * ============================================================================
+ * Defaults follow the home page's control panel.
+ */
+const terrainType = oneOf('terrain', args.terrain, TERRAIN_TYPES);
+const sampling = oneOf('sampling', args.sampling, HEIGHT_SAMPLING_MODES);
+const procedural = {
+  ...DEFAULT_PROCEDURAL_TERRAIN,
+  seed: number('seed', args.seed, DEFAULT_PROCEDURAL_TERRAIN.seed),
+};
+const terrain: HeightSourceConfig =
+  terrainType === 'heightmap'
+    ? { type: 'heightmap', sampling }
+    : terrainType === 'procedural'
+      ? { type: 'procedural', settings: procedural }
+      : {
+          type: 'composite',
+          base: { type: 'heightmap', sampling },
+          settings: DEFAULT_COMPOSITE_TERRAIN,
+        };
+
+const elevation: ElevationSettings = {
+  ...DEFAULT_ELEVATION_SETTINGS,
+  minElevation: number(
+    'min-elevation',
+    args['min-elevation'],
+    DEFAULT_ELEVATION_SETTINGS.minElevation,
+  ),
+  maxElevation: number(
+    'max-elevation',
+    args['max-elevation'],
+    DEFAULT_ELEVATION_SETTINGS.maxElevation,
+  ),
+  seaLevel: number(
+    'sea-level',
+    args['sea-level'],
+    DEFAULT_ELEVATION_SETTINGS.seaLevel,
+  ),
+  exaggeration: number(
+    'exaggeration',
+    args.exaggeration,
+    DEFAULT_ELEVATION_SETTINGS.exaggeration,
+  ),
+};
+
+const radius = number('radius', args.radius, 10);
+let target: [number, number, number] = [0, radius, 0];
+if (args.target !== undefined) {
+  const location = parseLatLon(args.target);
+  if (!location) {
+    fail(`--target must be a latitude and longitude, got "${args.target}"`);
+  }
+  target = latLonToDirection(location).multiplyScalar(radius).toArray();
+}
+
+const params: PlanetMeshParams = {
+  radius,
+  minDetail: positiveInteger('min-detail', args['min-detail'], 4),
+  maxDetail: positiveInteger('max-detail', args['max-detail'], 12),
+  steps: positiveInteger('steps', args.steps, 4),
+  stepGamma: number('step-gamma', args['step-gamma'], 2),
+  center: [0, 0, 0],
+  target,
+  lodMode: 'distance',
+  camera: null,
+  maxScreenError: 8,
+  culling: false,
+  elevation,
+  terrain,
+  normalEpsilon: DEFAULT_NORMAL_EPSILON,
+};
+const uniform =
+  args.uniform === undefined
+    ? null
+    : positiveInteger('uniform', args.uniform, 0);
+const meshParams =
+  uniform === null ? params : getUniformMeshParams(params, uniform);
+const maxResolution = getMaxLodResolution(meshParams.minDetail);
+if (meshParams.maxDetail > maxResolution) {
+  fail(
+    `--${uniform === null ? 'max-detail' : 'uniform'} must be at most ${maxResolution} for unique vertex ids, got ${meshParams.maxDetail}`,
+  );
+}
+const formats = args.format
+  .split(',')
+  .map((format) => oneOf('format', format.trim(), MESH_EXPORT_FORMATS));
+const tileResolution =
+  args.tiles === undefined ? null : positiveInteger('tiles', args.tiles, 0);
+
+if (terrainType !== 'procedural' && !args.heightmap) {
+  fail(`--terrain ${terrainType} needs a --heightmap`);
+}
+
+/**
+ * ============================================================================
+ * BAKE
+ * ============================================================================
+ */
+const heightMapData = args.heightmap
+  ? await readHeightMap(args.heightmap)
+  : null;
+await mkdir(args.out, { recursive: true });
+
+const mesher = new PlanetMesher();
+const start = performance.now();
+const mesh = mesher.build(meshParams, heightMapData);
+const buildMs = performance.now() - start;
+
+const files: string[] = [];
+for (const format of formats) {
+  const file = join(args.out, `${args.name}.${format}`);
+  await writeFile(
+    file,
+    exportMesh(mesh, format, {
+      normals: !args['no-normals'],
+      uvs: !args['no-uvs'],
+    }),
+  );
+  files.push(file);
+}
+
+let tiles: { directory: string; count: number } | null = null;
+if (tileResolution !== null) {
+  const source = createHeightSource(terrain, heightMapData, elevation);
+  if (!source) fail('Height tiles need a terrain to sample');
+  const directory = join(args.out, 'tiles');
+  await mkdir(directory, { recursive: true });
+
+  const baseSubdivision = getBaseSubdivision(meshParams.minDetail);
+  const baked = getBasePatches(baseSubdivision).map((patch) => ({
+    id: patch.id,
+    tile: bakeHeightTile(source, patch, tileResolution),
+  }));
+  const manifest: HeightTileManifest = {
+    version: HEIGHT_TILE_VERSION,
+    baseSubdivision,
+    resolution: tileResolution,
+    elevation: getHeightTileRange(baked.map(({ tile }) => tile)),
+    tiles: {},
+  };
+  for (const { id, tile } of baked) {
+    const fileName = getHeightTileFileName(id);
+    manifest.tiles[id] = fileName;
+    await writeFile(join(directory, fileName), encodeHeightTile(tile));
+  }
+  await writeFile(
+    join(directory, 'manifest.json'),
+    `${JSON.stringify(manifest, null, 2)}\n`,
+  );
+  tiles = { directory, count: baked.length };
+}
+
+const report = {
+  heightmap: args.heightmap ?? null,
+  params: meshParams,
+  vertices: mesh.positions.length / 3,
+  triangles: mesh.indices.length / 3,
+  // Number of patches at each LOD resolution k
+  patches: mesher.getPatchCounts(),
+  buildMs: Number(buildMs.toFixed(2)),
+  files,
+  tiles,
+};
+const reportFile = join(args.out, `${args.name}.stats.json`);
+await writeFile(reportFile, `${JSON.stringify(report, null, 2)}\n`);
+
+console.log(
+  `Baked ${report.triangles.toLocaleString()} triangles in ${report.buildMs} ms`,
+);
+console.log([...files, reportFile].map((file) => `  ${file}`).join('\n'));
+if (tiles) console.log(`  ${tiles.count} height tiles in ${tiles.directory}`);
@@ -0,0 +1,104 @@
+/**
+ * ============================================================================
+ * PLANET MESHER BENCHMARK
+ * ============================================================================
+ * Builds the icosphere mesh headlessly for a few standard parameter sets and
+ * reports build time and mesh size, so performance regressions show up before
+ * they reach the browser.
+ *
+ *   npm run bench                 # default: 5 measured runs per set
+ *   npm run bench -- --runs 20    # more runs for steadier numbers
+ *   npm run bench -- --json       # machine-readable output
+ */
+import { PlanetMesher, buildPlanetMesh } from '../app/utils/planetMesher';
+import type { PlanetMeshParams } from '../app/utils/planetMesher';
+import { DEFAULT_ELEVATION_SETTINGS } from '../app/utils/elevation';
+import { DEFAULT_NORMAL_EPSILON } from '../app/utils/terrainNormals';
+
+const base: PlanetMeshParams = {
+  radius: 10,
+  minDetail: 4,
+  maxDetail: 12,
+  steps: 4,
+  stepGamma: 2,
+  center: [0, 0, 0],
+  target: [0, 10.7, 0],
+  lodMode: 'distance',
+  camera: null,
+  maxScreenError: 8,
+  culling: false,
+  elevation: { ...DEFAULT_ELEVATION_SETTINGS, exaggeration: 0 },
+  terrain: { type: 'heightmap', sampling: 'bilinear' },
+  normalEpsilon: DEFAULT_NORMAL_EPSILON,
+};
+
+const PARAMETER_SETS: { name: string; params: PlanetMeshParams }[] = [
+  { name: 'default', params: base },
+  { name: 'low', params: { ...base, minDetail: 2, maxDetail: 6, steps: 2 } },
+  { name: 'high', params: { ...base, minDetail: 5, maxDetail: 30, steps: 6 } },
+  {
+    name: 'extreme',
+    params: { ...base, minDetail: 5, maxDetail: 60, steps: 8 },
+  },
+];
+
+function parseArgs(argv: string[]) {
+  const runsIndex = argv.indexOf('--runs');
+  return {
+    runs: runsIndex >= 0 ? Math.max(1, Number(argv[runsIndex + 1]) || 1) : 5,
+    json: argv.includes('--json'),
+  };
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function time(fn: () => void) {
+  const start = performance.now();
+  fn();
+  return performance.now() - start;
+}
+
+const { runs, json } = parseArgs(process.argv.slice(2));
+
+const results = PARAMETER_SETS.map(({ name, params }) => {
+  // Warm up the JIT before measuring
+  const mesh = buildPlanetMesh(params, null);
+
+  const fullBuilds: number[] = [];
+  const incrementalBuilds: number[] = [];
+  for (let run = 0; run < runs; run++) {
+    fullBuilds.push(time(() => buildPlanetMesh(params, null)));
+
+    // Nudge the target, as a capsule drag would, and rebuild from the cache
+    const mesher = new PlanetMesher();
+    mesher.build(params, null);
+    const angle = 0.05 * (run + 1);
+    const moved: PlanetMeshParams = {
+      ...params,
+      target: [10.7 * Math.sin(angle), 10.7 * Math.cos(angle), 0],
+    };
+    incrementalBuilds.push(time(() => mesher.build(moved, null)));
+  }
+
+  return {
+    name,
+    minDetail: params.minDetail,
+    maxDetail: params.maxDetail,
+    steps: params.steps,
+    vertices: mesh.positions.length / 3,
+    triangles: mesh.indices.length / 3,
+    fullMs: Number(median(fullBuilds).toFixed(2)),
+    incrementalMs: Number(median(incrementalBuilds).toFixed(2)),
+  };
+});
+
+if (json) {
+  console.log(JSON.stringify({ runs, results }, null, 2));
+} else {
+  console.log(`Planet mesher benchmark (median of ${runs} runs)`);
+  console.table(results);
+}
@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+import tsconfigPaths from 'vite-tsconfig-paths';
+
+// Kept separate from vite.config.ts so tests don't boot the React Router plugin
+export default defineConfig({
+  plugins: [tsconfigPaths()],
+  test: {
+    environment: 'node',
+    include: ['app/**/*.test.ts', 'scripts/**/*.test.ts'],
+  },
+});